@@ -1,11 +1,7 @@
 import { axiosClient } from "./axios.ts";
-import type { UserType } from "@/types/UserType";
-
-// ─── Interface pour les réponses d'authentification ─────────────────────────────
-interface AuthResponse {
-  user: UserType;
-  token: string; // Le token JWT
-}
+import { UserSchema, type UserType } from "@/types/UserType";
+import { AuthResponseSchema, type AuthResponse } from "@/types/AuthResponseType";
+import { isApiValidationError, parseResponse } from "./validation.ts";
 
 // ─── Interface pour les données de login/register ────────────────────────────────
 interface LoginData {
@@ -23,10 +19,12 @@ interface RegisterData {
 // POST /api/auth/register
 export const register = async (data: RegisterData): Promise<AuthResponse> => {
   try {
-    const response = await axiosClient.post<AuthResponse>('/auth/register', data);
-    return response.data;
+    const response = await axiosClient.post<unknown>('/auth/register', data);
+    return parseResponse(AuthResponseSchema, response.data, 'POST /auth/register');
   } catch (error: any) {
     console.error('Erreur lors de l\'inscription:', error);
+    // Une réponse invalide est propagée telle quelle (erreur typée)
+    if (isApiValidationError(error)) throw error;
     // Propager l'erreur avec le message du serveur si disponible
     throw new Error(error.response?.data?.error || 'Erreur lors de l\'inscription');
   }
@@ -36,10 +34,11 @@ export const register = async (data: RegisterData): Promise<AuthResponse> => {
 // POST /api/auth/login
 export const login = async (data: LoginData): Promise<AuthResponse> => {
   try {
-    const response = await axiosClient.post<AuthResponse>('/auth/login', data);
-    return response.data;
+    const response = await axiosClient.post<unknown>('/auth/login', data);
+    return parseResponse(AuthResponseSchema, response.data, 'POST /auth/login');
   } catch (error: any) {
     console.error('Erreur lors de la connexion:', error);
+    if (isApiValidationError(error)) throw error;
     throw new Error(error.response?.data?.error || 'Erreur lors de la connexion');
   }
 };
@@ -50,10 +49,11 @@ export const login = async (data: LoginData): Promise<AuthResponse> => {
 // - Permet de vérifier si le token est toujours valide et récupérer les infos utilisateur
 export const getCurrentUser = async (): Promise<UserType> => {
   try {
-    const response = await axiosClient.get<UserType>('/auth/me');
-    return response.data;
+    const response = await axiosClient.get<unknown>('/auth/me');
+    return parseResponse(UserSchema, response.data, 'GET /auth/me');
   } catch (error: any) {
     console.error('Erreur lors de la récupération de l\'utilisateur:', error);
+    if (isApiValidationError(error)) throw error;
     throw new Error(error.response?.data?.error || 'Erreur lors de la récupération de l\'utilisateur');
   }
 };
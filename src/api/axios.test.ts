@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest'
+import { buildMutationHeaders } from './axios'
+
+describe('buildMutationHeaders', () => {
+  it('sends the known version and the idempotency key', () => {
+    expect(buildMutationHeaders({ version: 3, idempotencyKey: 'key-1' })).toEqual({
+      'If-Match': '3',
+      'Idempotency-Key': 'key-1'
+    })
+    expect(buildMutationHeaders({ version: 0 })).toEqual({ 'If-Match': '0' })
+  })
+
+  it('sends no header without version or key', () => {
+    expect(buildMutationHeaders()).toBeUndefined()
+    expect(buildMutationHeaders({ idempotencyKey: '' })).toBeUndefined()
+  })
+})
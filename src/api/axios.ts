@@ -56,7 +56,8 @@ axiosClient.interceptors.response.use(
     if (error.response?.status === 401) {
       const authStore = useAuthStore();
       // Déconnecter l'utilisateur et rediriger vers la page de login
-      authStore.logout();
+      // L'espace de travail est conservé : les modifications en attente repartent à la reconnexion
+      authStore.expireSession();
       // Optionnel : rediriger vers /login
       // window.location.href = '/login';
     }
@@ -66,3 +67,23 @@ axiosClient.interceptors.response.use(
     return Promise.reject(error);
   }
 );
+
+// ─── Headers des requêtes d'écriture ─────────────────────────────────────────────
+// - version (optionnelle) : version connue, envoyée dans le header If-Match (optimistic locking)
+// - idempotencyKey (optionnelle) : clé stable entre les tentatives, envoyée dans le header Idempotency-Key
+//   Le backend reconnaît une requête déjà appliquée et ne la rejoue pas (ex: retry après un timeout)
+export interface MutationOptions {
+  version?: number;
+  idempotencyKey?: string;
+}
+
+export const buildMutationHeaders = ({ version, idempotencyKey }: MutationOptions = {}): Record<string, string> | undefined => {
+  const headers: Record<string, string> = {};
+  if (version !== undefined) {
+    headers['If-Match'] = String(version);
+  }
+  if (idempotencyKey) {
+    headers['Idempotency-Key'] = idempotencyKey;
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+};
@@ -0,0 +1,22 @@
+import axios from "axios";
+import { axiosClient } from "./axios.ts";
+
+// Délai maximum d'attente du heartbeat (un backend qui ne répond pas est considéré injoignable)
+const HEARTBEAT_TIMEOUT_MS = 5000;
+
+// ─── Vérifier que le backend est joignable (heartbeat) ──────────────────────────
+// GET /api/health
+// - Toute réponse HTTP (même 404 ou 500) signifie que le backend est joignable
+// - Seules les erreurs réseau et les timeouts signifient hors ligne
+// - ⚠️ Appel hors axiosClient : pas de token ni d'intercepteur (un 401 ne doit pas déconnecter)
+export const pingBackend = async (): Promise<boolean> => {
+  try {
+    await axios.get('/health', {
+      baseURL: axiosClient.defaults.baseURL,
+      timeout: HEARTBEAT_TIMEOUT_MS
+    });
+    return true;
+  } catch (error: any) {
+    return error?.response !== undefined;
+  }
+};
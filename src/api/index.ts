@@ -3,6 +3,9 @@
 
 export { axiosClient } from './axios.ts';
 
+// Health API
+export { pingBackend } from './healthApi.ts';
+
 // Auth API
 export {
   login,
@@ -21,20 +24,19 @@ export {
 
 // Tags API
 export {
-  createTag,
-  fetchTagsByUser,
-  fetchTagById,
-  updateTag,
-  deleteTag
+  fetchTagChanges,
+  fetchTagById
 } from './tagApi.ts';
 
 // Notes API
 export {
-  createNote,
   fetchNotes,
-  fetchNotesByUser,
-  fetchNoteById,
-  updateNote,
-  deleteNote
+  fetchNoteChanges,
+  fetchNoteById
 } from './noteApi.ts';
 
+// Synchronisation incrémentale
+export type { ChangesResponse } from './syncChanges.ts';
+
+// Validation des réponses
+export { ApiValidationError, isApiValidationError } from './validation.ts';
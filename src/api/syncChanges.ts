@@ -0,0 +1,57 @@
+// ─── Types et helpers communs pour la synchronisation incrémentale (pull) ─────────
+// Le backend peut répondre de deux façons sur les routes de liste avec ?updatedSince :
+// - un tableau d'entités (modifiées depuis le curseur, ou toutes sans curseur)
+// - un objet { items, deletedIds, cursor } (format delta complet)
+import { z } from "zod";
+
+export interface ChangesResponse<T> {
+  items: T[];
+  deletedIds: string[]; // frontId des entités supprimées depuis le curseur
+  cursor?: number; // Curseur à renvoyer lors de la prochaine synchronisation (absent : le curseur n'avance pas)
+}
+
+// ─── Date de dernière modification d'une entité (horloge du serveur) ─────────────
+// - undefined si le backend ne la fournit pas
+export const getUpdatedAtTime = (entity: { updatedAt?: string }): number | undefined => {
+  const time = entity.updatedAt ? Date.parse(entity.updatedAt) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+};
+
+// ─── Schéma de la réponse brute du backend (tableau ou objet delta partiel) ────────
+// - itemSchema : schéma des entités (NoteSchema, TagSchema)
+export const createChangesSchema = <S extends z.ZodTypeAny>(itemSchema: S) => z.union([
+  z.array(itemSchema),
+  z.object({
+    items: z.array(itemSchema).optional(),
+    deletedIds: z.array(z.string()).optional(),
+    cursor: z.number().optional(),
+  }),
+]);
+
+// ─── Curseur déduit des entités reçues ───────────────────────────────────────────
+// - Dernière date de modification (horloge du serveur, jamais celle du client : décalage d'horloge)
+// - undefined si aucune entité n'est reçue ou si une date manque : le curseur n'avance pas
+const getLatestUpdatedAt = <T extends { updatedAt?: string }>(items: T[]): number | undefined => {
+  const times = items.map(getUpdatedAtTime);
+  if (times.length === 0 || times.some(time => time === undefined)) {
+    return undefined;
+  }
+  return Math.max(...(times as number[]));
+};
+
+// ─── Normaliser la réponse du backend ────────────────────────────────────────────
+// - Le curseur du format delta est utilisé tel quel
+// - Sinon, il est déduit des dates de modification des entités reçues
+export const normalizeChanges = <T extends { updatedAt?: string }>(
+  data: T[] | Partial<ChangesResponse<T>>
+): ChangesResponse<T> => {
+  if (Array.isArray(data)) {
+    return { items: data, deletedIds: [], cursor: getLatestUpdatedAt(data) };
+  }
+  const items = data.items ?? [];
+  return {
+    items,
+    deletedIds: data.deletedIds ?? [],
+    cursor: data.cursor ?? getLatestUpdatedAt(items),
+  };
+};
@@ -1,11 +1,15 @@
-import type { UserType } from "../types/UserType.ts";
+import { UserSchema, type UserType } from "../types/UserType.ts";
 import { axiosClient } from "./axios.ts";
+import { parseResponse } from "./validation.ts";
+
+// Schéma des réponses de liste
+const UserListSchema = UserSchema.array();
 
 // ─── Créer un utilisateur ────────────────────────────────────────────────────────
 export const createUser = async (user: Omit<UserType, '_id' | 'createdAt' | 'updatedAt'>): Promise<UserType> => {
   try {
-    const response = await axiosClient.post<UserType>('/users', user);
-    return response.data;
+    const response = await axiosClient.post<unknown>('/users', user);
+    return parseResponse(UserSchema, response.data, 'POST /users');
   } catch (error) {
     console.error('Erreur lors de la création de l\'utilisateur:', error);
     throw error;
@@ -15,8 +19,8 @@ export const createUser = async (user: Omit<UserType, '_id' | 'createdAt' | 'upd
 // ─── Récupérer tous les utilisateurs ────────────────────────────────────────────
 export const fetchUsers = async (): Promise<UserType[]> => {
   try {
-    const response = await axiosClient.get<UserType[]>('/users');
-    return response.data;
+    const response = await axiosClient.get<unknown>('/users');
+    return parseResponse(UserListSchema, response.data, 'GET /users');
   } catch (error) {
     console.error('Erreur lors de la récupération des utilisateurs:', error);
     throw error;
@@ -26,8 +30,8 @@ export const fetchUsers = async (): Promise<UserType[]> => {
 // ─── Récupérer un utilisateur par ID ────────────────────────────────────────────
 export const fetchUserById = async (id: string): Promise<UserType> => {
   try {
-    const response = await axiosClient.get<UserType>(`/users/${id}`);
-    return response.data;
+    const response = await axiosClient.get<unknown>(`/users/${id}`);
+    return parseResponse(UserSchema, response.data, 'GET /users/:id');
   } catch (error) {
     console.error(`Erreur lors de la récupération de l'utilisateur ${id}:`, error);
     throw error;
@@ -37,8 +41,8 @@ export const fetchUserById = async (id: string): Promise<UserType> => {
 // ─── Mettre à jour un utilisateur ───────────────────────────────────────────────
 export const updateUser = async (id: string, user: Partial<Omit<UserType, '_id' | 'createdAt' | 'updatedAt'>>): Promise<UserType> => {
   try {
-    const response = await axiosClient.put<UserType>(`/users/${id}`, user);
-    return response.data;
+    const response = await axiosClient.put<unknown>(`/users/${id}`, user);
+    return parseResponse(UserSchema, response.data, 'PUT /users/:id');
   } catch (error) {
     console.error(`Erreur lors de la mise à jour de l'utilisateur ${id}:`, error);
     throw error;
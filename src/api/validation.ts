@@ -0,0 +1,35 @@
+// ─── Validation des réponses de l'API ────────────────────────────────────────────
+// Les réponses du backend sont validées par les schémas zod (source de vérité des types)
+// avant d'être utilisées : une réponse inattendue lève une ApiValidationError
+// au lieu de se propager silencieusement dans les stores
+import type { z } from "zod";
+
+// ─── Erreur de validation d'une réponse ─────────────────────────────────────────
+// - endpoint : route appelée (ex: 'GET /notes'), pour le diagnostic
+// - issues : détail des champs invalides (format zod)
+export class ApiValidationError extends Error {
+  readonly endpoint: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(endpoint: string, issues: z.ZodIssue[]) {
+    super(`Réponse invalide de l'API (${endpoint}) : ${issues.map(issue => `${issue.path.join('.') || '(racine)'} ${issue.message}`).join(', ')}`);
+    this.name = 'ApiValidationError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+// ─── Vérifier si une erreur est une erreur de validation ────────────────────────
+export const isApiValidationError = (error: unknown): error is ApiValidationError => {
+  return error instanceof ApiValidationError;
+};
+
+// ─── Valider une réponse ─────────────────────────────────────────────────────────
+// Retourne les données typées (les champs inconnus du schéma sont retirés)
+export const parseResponse = <S extends z.ZodTypeAny>(schema: S, data: unknown, endpoint: string): z.output<S> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiValidationError(endpoint, result.error.issues);
+  }
+  return result.data;
+};
@@ -0,0 +1,156 @@
+/**
+ * Circuit breaker par stratégie de persistance (un circuit par type d'entité)
+ * Quand un backend tombe, évite de faire échouer une à une toutes les tâches en queue :
+ * après N échecs consécutifs le circuit s'ouvre et plus aucune tâche de ce type n'est envoyée,
+ * puis une seule tâche sonde le backend après le délai de réouverture
+ */
+
+import { CIRCUIT_BREAKER_DEFAULTS } from './constants'
+import { getClock } from './clock'
+import { analyzeError } from './retryManager'
+
+/**
+ * État d'un circuit
+ * - closed : les tâches sont envoyées normalement
+ * - open : aucune tâche n'est envoyée jusqu'à la fin du délai de réouverture
+ * - half-open : une seule tâche (sonde) est envoyée ; son résultat ferme ou rouvre le circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Configuration du circuit breaker
+ */
+export interface CircuitBreakerConfig {
+  /**
+   * Nombre d'échecs consécutifs avant l'ouverture (défaut: CIRCUIT_BREAKER_DEFAULTS.FAILURE_THRESHOLD)
+   */
+  failureThreshold: number
+
+  /**
+   * Durée d'ouverture en ms avant la sonde (défaut: CIRCUIT_BREAKER_DEFAULTS.RESET_TIMEOUT_MS)
+   */
+  resetTimeout: number
+}
+
+/**
+ * Configuration par défaut du circuit breaker
+ */
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: CIRCUIT_BREAKER_DEFAULTS.FAILURE_THRESHOLD,
+  resetTimeout: CIRCUIT_BREAKER_DEFAULTS.RESET_TIMEOUT_MS
+}
+
+/**
+ * Changement d'état d'un circuit
+ */
+export interface CircuitStateChange {
+  entityType: string
+  state: CircuitState
+  previousState: CircuitState
+  failures: number
+}
+
+/**
+ * Indique si une erreur traduit une défaillance du backend (PURE)
+ * Seules les erreurs sans réponse (réseau, timeout) et les erreurs serveur (5xx) comptent :
+ * une erreur 4xx prouve que le backend répond
+ */
+export function isBackendFailure(error: unknown): boolean {
+  const { httpStatus } = analyzeError(error)
+  return httpStatus === undefined || httpStatus >= 500
+}
+
+/**
+ * Circuit breaker d'un type d'entité
+ */
+export class CircuitBreaker {
+  readonly entityType: string
+  private config: CircuitBreakerConfig
+  private onStateChange?: (change: CircuitStateChange) => void
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private probeInFlight = false
+
+  constructor(
+    entityType: string,
+    config?: Partial<CircuitBreakerConfig>,
+    onStateChange?: (change: CircuitStateChange) => void
+  ) {
+    this.entityType = entityType
+    this.config = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...(config || {}) }
+    this.onStateChange = onStateChange
+  }
+
+  /**
+   * Indique si une tâche peut être envoyée maintenant
+   * En half-open, réserve la sonde : les appels suivants retournent false jusqu'à son résultat
+   */
+  tryAcquire(now: number = getClock().now()): boolean {
+    if (this.state === 'open') {
+      if (now < this.getReopenAt()) return false
+      this.transition('half-open')
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) return false
+      this.probeInFlight = true
+    }
+    return true
+  }
+
+  /**
+   * Enregistre un succès (ou une réponse du backend) : referme le circuit
+   */
+  recordSuccess(): void {
+    this.failures = 0
+    this.probeInFlight = false
+    if (this.state !== 'closed') {
+      this.transition('closed')
+    }
+  }
+
+  /**
+   * Enregistre une défaillance du backend : ouvre le circuit au-delà du seuil ou si la sonde échoue
+   */
+  recordFailure(now: number = getClock().now()): void {
+    this.failures++
+    this.probeInFlight = false
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.config.failureThreshold)) {
+      this.openedAt = now
+      this.transition('open')
+    }
+  }
+
+  /**
+   * Libère la sonde sans conclure (tâche non envoyée : expirée, hors ligne...)
+   */
+  release(): void {
+    this.probeInFlight = false
+  }
+
+  /**
+   * Retourne l'état courant
+   */
+  getState(): CircuitState {
+    return this.state
+  }
+
+  /**
+   * Retourne la date à partir de laquelle un circuit ouvert autorise une sonde
+   */
+  getReopenAt(): number {
+    return this.openedAt + this.config.resetTimeout
+  }
+
+  /**
+   * Change d'état et notifie
+   * @private
+   */
+  private transition(state: CircuitState): void {
+    const previousState = this.state
+    this.state = state
+    console.log(`[CircuitBreaker] Circuit for ${this.entityType}: ${previousState} → ${state}`)
+    this.onStateChange?.({ entityType: this.entityType, state, previousState, failures: this.failures })
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Abstraction du temps pour le système de persistance
+ * Tout le module lit l'heure et programme ses timers via l'horloge courante :
+ * en production l'horloge système, en test une VirtualClock que l'on fait avancer à la main
+ * (une chaîne de retries 3min → 12min → 48min se vérifie alors en quelques millisecondes)
+ */
+
+/**
+ * Identifiant d'un timer programmé
+ */
+export type TimerHandle = number | ReturnType<typeof setTimeout>
+
+/**
+ * Source de l'heure courante
+ */
+export interface Clock {
+  /**
+   * Timestamp courant en ms (équivalent de Date.now())
+   */
+  now(): number
+}
+
+/**
+ * Programmation de timers
+ */
+export interface Scheduler {
+  setTimeout(callback: () => void, delay: number): TimerHandle
+  clearTimeout(handle: TimerHandle): void
+  setInterval(callback: () => void, interval: number): TimerHandle
+  clearInterval(handle: TimerHandle): void
+}
+
+/**
+ * Horloge complète : heure courante et timers
+ */
+export type TimeSource = Clock & Scheduler
+
+/**
+ * Horloge système (Date.now et timers du navigateur)
+ */
+export const systemClock: TimeSource = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+  setInterval: (callback, interval) => setInterval(callback, interval),
+  clearInterval: handle => clearInterval(handle as ReturnType<typeof setInterval>)
+}
+
+let currentClock: TimeSource = systemClock
+
+/**
+ * Retourne l'horloge courante du module
+ */
+export function getClock(): TimeSource {
+  return currentClock
+}
+
+/**
+ * Remplace l'horloge du module (appelé par usePersistence via PersistenceConfig.clock)
+ * Sans argument, rétablit l'horloge système
+ */
+export function setClock(clock: TimeSource = systemClock): void {
+  currentClock = clock
+}
+
+/**
+ * Timer programmé sur une VirtualClock
+ */
+interface VirtualTimer {
+  id: number
+  at: number
+  callback: () => void
+  interval?: number
+}
+
+/**
+ * Horloge virtuelle : le temps n'avance que sur appel à advance()
+ * Les timers arrivés à échéance sont exécutés dans l'ordre, et les promesses qu'ils déclenchent
+ * sont résolues entre deux timers (un traitement de tâche asynchrone peut reprogrammer un retry)
+ */
+export class VirtualClock implements Clock, Scheduler {
+  private currentTime: number
+  private timers: Map<number, VirtualTimer> = new Map()
+  private nextId = 1
+
+  constructor(startTime: number = 0) {
+    this.currentTime = startTime
+  }
+
+  now(): number {
+    return this.currentTime
+  }
+
+  setTimeout(callback: () => void, delay: number): TimerHandle {
+    return this.addTimer(callback, delay)
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as number)
+  }
+
+  setInterval(callback: () => void, interval: number): TimerHandle {
+    return this.addTimer(callback, interval, interval)
+  }
+
+  clearInterval(handle: TimerHandle): void {
+    this.timers.delete(handle as number)
+  }
+
+  /**
+   * Fait avancer le temps en exécutant les timers arrivés à échéance
+   * @param ms - Durée à écouler
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.currentTime + ms
+    await flushPromises()
+
+    let timer = this.nextDueTimer(target)
+    while (timer) {
+      this.currentTime = Math.max(this.currentTime, timer.at)
+      if (timer.interval !== undefined) {
+        timer.at = this.currentTime + Math.max(1, timer.interval)
+      } else {
+        this.timers.delete(timer.id)
+      }
+      timer.callback()
+      await flushPromises()
+      timer = this.nextDueTimer(target)
+    }
+
+    this.currentTime = target
+  }
+
+  /**
+   * Fait avancer le temps jusqu'au prochain timer et l'exécute
+   * @returns false si aucun timer n'est programmé
+   */
+  async advanceToNextTimer(): Promise<boolean> {
+    const timer = this.nextDueTimer(Infinity)
+    if (!timer) return false
+    await this.advance(Math.max(0, timer.at - this.currentTime))
+    return true
+  }
+
+  /**
+   * Retourne le nombre de timers programmés
+   */
+  pendingTimers(): number {
+    return this.timers.size
+  }
+
+  /**
+   * Programme un timer
+   * @private
+   */
+  private addTimer(callback: () => void, delay: number, interval?: number): number {
+    const id = this.nextId++
+    this.timers.set(id, { id, at: this.currentTime + Math.max(0, delay), callback, interval })
+    return id
+  }
+
+  /**
+   * Retourne le prochain timer échu avant target (le plus ancien en cas d'égalité)
+   * @private
+   */
+  private nextDueTimer(target: number): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined
+    for (const timer of this.timers.values()) {
+      if (timer.at <= target && (!next || timer.at < next.at)) {
+        next = timer
+      }
+    }
+    return next
+  }
+}
+
+/**
+ * Laisse s'exécuter les promesses en attente (une tâche macro du vrai event loop)
+ */
+function flushPromises(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0))
+}
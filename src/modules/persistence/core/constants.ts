@@ -4,27 +4,9 @@
  */
 
 /**
- * Constantes de timing pour les intervalles de polling et d'attente
+ * Constantes de timing
  */
 export const TIMING = {
-  /**
-   * Intervalle de polling court (100ms)
-   * Utilisé quand la queue est vide mais qu'on attend encore des tâches en cours
-   */
-  POLLING_INTERVAL_SHORT: 100,
-
-  /**
-   * Intervalle de polling normal (1 seconde)
-   * Utilisé pour vérifier périodiquement les tâches en attente de retry
-   */
-  POLLING_INTERVAL_NORMAL: 1000,
-
-  /**
-   * Délai maximum d'attente pour un retry (5 secondes)
-   * Évite de bloquer trop longtemps la boucle de traitement
-   */
-  POLLING_INTERVAL_MAX_WAIT: 5000,
-
   /**
    * Conversions de temps
    */
@@ -59,15 +41,56 @@ export const RETRY_DEFAULTS = {
   MULTIPLIER: 4,
 } as const
 
+/**
+ * Politique de retry par défaut selon le statut HTTP
+ */
+export const RETRY_POLICY_DEFAULTS = {
+  /**
+   * Statuts jamais retentés (erreur de la requête elle-même) : échec définitif immédiat
+   */
+  NON_RETRYABLE_STATUSES: [400, 404, 422],
+
+  /**
+   * Statuts pour lesquels l'en-tête Retry-After du serveur est respecté
+   */
+  RETRY_AFTER_STATUSES: [429, 503],
+
+  /**
+   * Statuts d'authentification : la queue est suspendue jusqu'à la reconnexion
+   */
+  AUTH_STATUSES: [401],
+} as const
+
+/**
+ * Constantes du circuit breaker par défaut (un circuit par stratégie / type d'entité)
+ */
+export const CIRCUIT_BREAKER_DEFAULTS = {
+  /**
+   * Nombre d'échecs consécutifs du backend avant l'ouverture du circuit
+   */
+  FAILURE_THRESHOLD: 5,
+
+  /**
+   * Durée d'ouverture du circuit avant une tentative de sonde (1 minute)
+   */
+  RESET_TIMEOUT_MS: 60 * 1000,
+} as const
+
 /**
  * Constantes de queue par défaut
  */
 export const QUEUE_DEFAULTS = {
   /**
    * Nombre maximum de tâches traitées en parallèle (1 = séquentiel)
+   * Les tâches d'une même entité sont toujours traitées une à une, quelle que soit cette valeur
    */
   MAX_CONCURRENT: 1,
 
+  /**
+   * Nombre maximum de tâches regroupées dans un appel persistBatch
+   */
+  MAX_BATCH_SIZE: 50,
+
   /**
    * Taille maximum de la queue (Infinity = illimitée)
    */
@@ -95,3 +118,99 @@ export const TASK_LIFETIME = {
   DEFAULT_MAX_AGE_MS: 7 * 24 * 60 * 60 * 1000,
 } as const
 
+
+/**
+ * Constantes de synchronisation descendante (pull) par défaut
+ */
+export const PULL_SYNC_DEFAULTS = {
+  /**
+   * Intervalle entre deux synchronisations automatiques (1 minute)
+   */
+  INTERVAL_MS: 60 * 1000,
+} as const
+
+/**
+ * Constantes de coordination multi-onglets par défaut
+ */
+export const TAB_COORDINATION_DEFAULTS = {
+  /**
+   * Nom du BroadcastChannel utilisé pour relayer les événements entre onglets
+   */
+  CHANNEL_NAME: 'persistence-tabs',
+
+  /**
+   * Nom du verrou (Web Locks API) détenu par l'onglet leader
+   */
+  LOCK_NAME: 'persistence-leader',
+} as const
+
+/**
+ * Constantes de surveillance de la connectivité par défaut
+ */
+export const CONNECTIVITY_DEFAULTS = {
+  /**
+   * Intervalle entre deux heartbeats vers le backend (30 secondes)
+   * Utilisé uniquement si un heartbeat est configuré
+   */
+  HEARTBEAT_INTERVAL_MS: 30 * 1000,
+} as const
+
+/**
+ * Constantes de l'historique d'annulation (undo/redo) par défaut
+ */
+export const UNDO_DEFAULTS = {
+  /**
+   * Nombre maximum d'étapes conservées dans l'historique
+   */
+  MAX_STEPS: 100,
+} as const
+
+/**
+ * Constantes du versioning des données persistées
+ */
+export const SCHEMA_DEFAULTS = {
+  /**
+   * Version attribuée aux données écrites avant le versioning (sans enveloppe)
+   */
+  UNVERSIONED: 1,
+
+  /**
+   * Clé du schéma des tâches de la queue dans le registre de migrations
+   */
+  QUEUE_KEY: 'persistenceQueue',
+
+  /**
+   * Suffixe de la clé de sauvegarde d'un store dont les données n'ont pas pu être migrées
+   */
+  UNMIGRATED_SUFFIX: ':unmigrated',
+
+  /**
+   * Suffixe de la clé où sont mises de côté les entrées invalides d'un store (le reste est restauré)
+   */
+  REJECTED_SUFFIX: ':rejected',
+} as const
+
+/**
+ * Constantes de la persistance locale (IndexedDB, sans backend)
+ */
+export const LOCAL_PERSISTENCE_DEFAULTS = {
+  /**
+   * Valeur à passer dans PersistenceConfig.strategies pour persister un type d'entité localement
+   */
+  STRATEGY: 'local',
+
+  /**
+   * Nom de la base IndexedDB des entités locales
+   */
+  DATABASE_NAME: 'persistenceLocal',
+
+  /**
+   * Nom de l'object store des entités locales (tous types d'entité confondus)
+   */
+  STORE_NAME: 'entities',
+
+  /**
+   * Préfixe des identifiants backend synthétiques attribués localement
+   */
+  ID_PREFIX: 'local_',
+} as const
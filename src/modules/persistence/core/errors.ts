@@ -0,0 +1,45 @@
+/**
+ * Erreurs spécifiques au système de persistance
+ */
+
+/**
+ * Erreur levée quand une tâche ne peut pas être traitée car une de ses dépendances
+ * a échoué définitivement (ou a expiré)
+ */
+export class DependencyFailedError extends Error {
+  readonly taskId: string
+  readonly dependencyId: string
+  readonly cause: unknown
+
+  constructor(taskId: string, dependencyId: string, cause: unknown) {
+    super(`Task ${taskId} cannot be processed: dependency ${dependencyId} failed permanently`)
+    this.name = 'DependencyFailedError'
+    this.taskId = taskId
+    this.dependencyId = dependencyId
+    this.cause = cause
+  }
+}
+
+/**
+ * Erreur levée par une stratégie quand le backend refuse une écriture obsolète
+ * (version connue différente de la version serveur, ex: HTTP 409 / 412)
+ * Porte la version distante pour permettre la résolution du conflit
+ */
+export class ConflictError<T = unknown> extends Error {
+  readonly remote?: T
+  readonly remoteVersion?: number
+
+  constructor(remote?: T, remoteVersion?: number, message: string = 'Conflict detected: stale write rejected by backend') {
+    super(message)
+    this.name = 'ConflictError'
+    this.remote = remote
+    this.remoteVersion = remoteVersion
+  }
+}
+
+/**
+ * Vérifie si une erreur est une erreur de conflit
+ */
+export function isConflictError<T = unknown>(error: unknown): error is ConflictError<T> {
+  return error instanceof ConflictError
+}
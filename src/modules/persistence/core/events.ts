@@ -10,8 +10,17 @@ export const ENTITY_EVENTS = {
   CREATED: 'entity:created',
   UPDATED: 'entity:updated',
   DELETED: 'entity:deleted',
+  TRANSACTION: 'entity:transaction',
+  RESOLVE_CONFLICT: 'entity:resolve-conflict',
+  REPLAY: 'entity:replay',
+  RESET: 'entity:reset',
 } as const
 
+/**
+ * Nom d'un événement émis par les stores (demande de persistance)
+ */
+export type EntityEventName = typeof ENTITY_EVENTS[keyof typeof ENTITY_EVENTS]
+
 /**
  * Événements émis par le système de persistance (résultats)
  */
@@ -20,6 +29,10 @@ export const PERSISTENCE_EVENTS = {
   PERSIST_ERROR: 'entity:persist-error',
   UPDATE_ERROR: 'entity:update-error',
   DELETE_ERROR: 'entity:delete-error',
+  CONFLICT: 'entity:conflict',
+  CONFLICT_RESOLVED: 'entity:conflict-resolved',
+  ROLLED_BACK: 'entity:rolled-back',
+  STATE_RESET: 'entity:state-reset',
 } as const
 
 /**
@@ -34,6 +47,13 @@ export const QUEUE_EVENTS = {
   TASK_EXPIRED: 'queue:task-expired',
 } as const
 
+/**
+ * Événements des circuit breakers (un circuit par type d'entité)
+ */
+export const CIRCUIT_EVENTS = {
+  STATE_CHANGED: 'circuit:state-changed',
+} as const
+
 /**
  * Tous les événements du système de persistance
  */
@@ -41,5 +61,6 @@ export const PERSISTENCE_EVENT_NAMES = {
   ...ENTITY_EVENTS,
   ...PERSISTENCE_EVENTS,
   ...QUEUE_EVENTS,
+  ...CIRCUIT_EVENTS,
 } as const
 
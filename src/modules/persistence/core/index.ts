@@ -5,8 +5,14 @@
 export * from './types'
 export * from './metadata'
 export * from './eventBus'
+export * from './persistenceEventBus'
 export * from './orchestrator'
 export * from './retryManager'
+export * from './policies'
+export * from './circuitBreaker'
+export * from './clock'
 export * from './taskHelpers'
 export * from './events'
+export * from './migrations'
 
+export * from './errors'
@@ -0,0 +1,24 @@
+/**
+ * Utilitaires IndexedDB partagés (stockage de la queue, persistance locale)
+ */
+
+/**
+ * Convertit une requête IndexedDB en Promise
+ */
+export function promisifyRequest<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Attend la fin d'une transaction IndexedDB
+ */
+export function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
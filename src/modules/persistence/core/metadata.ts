@@ -5,6 +5,7 @@
 
 import type { PersistenceMetadata, SyncStatus } from './types'
 import { RETRY_DEFAULTS } from './constants'
+import { getClock } from './clock'
 
 /**
  * Crée des métadonnées par défaut pour une nouvelle entité
@@ -18,7 +19,7 @@ export function createMetadata(
     syncStatus: 'pending',
     retryCount: 0,
     maxRetries: RETRY_DEFAULTS.MAX_RETRIES,
-    createdAt: Date.now(),
+    createdAt: getClock().now(),
     ...options
   }
 }
@@ -36,13 +37,14 @@ export function updateMetadataOnSuccess(
     syncStatus: 'synced',
     backendId: backendId || metadata.backendId,
     version: version || metadata.version,
-    lastSyncAt: Date.now(),
+    lastSyncAt: getClock().now(),
     error: undefined
   }
 }
 
 /**
- * Met à jour les métadonnées après une erreur
+ * Met à jour les métadonnées après une erreur et compte un retry
+ * Réservé à la queue, une fois décidé que la tâche sera retentée
  */
 export function updateMetadataOnError(
   metadata: PersistenceMetadata,
@@ -53,7 +55,23 @@ export function updateMetadataOnError(
     syncStatus: 'error',
     error,
     retryCount: metadata.retryCount + 1,
-    lastSyncAt: Date.now()
+    lastSyncAt: getClock().now()
+  }
+}
+
+/**
+ * Enregistre l'erreur d'une tentative sans compter de retry
+ * La queue décide ensuite si la tentative compte (pas hors ligne, pas en attente de reconnexion)
+ */
+export function updateMetadataOnAttemptError(
+  metadata: PersistenceMetadata,
+  error: unknown
+): PersistenceMetadata {
+  return {
+    ...metadata,
+    syncStatus: 'error',
+    error,
+    lastSyncAt: getClock().now()
   }
 }
 
@@ -66,7 +84,38 @@ export function updateMetadataOnSyncing(
   return {
     ...metadata,
     syncStatus: 'syncing',
-    lastSyncAt: Date.now()
+    lastSyncAt: getClock().now()
   }
 }
 
+
+/**
+ * Met à jour les métadonnées après la détection d'un conflit
+ * Le retryCount n'est pas incrémenté : un conflit n'est pas une erreur récupérable par retry
+ */
+export function updateMetadataOnConflict(
+  metadata: PersistenceMetadata,
+  error: unknown
+): PersistenceMetadata {
+  return {
+    ...metadata,
+    syncStatus: 'conflict',
+    error,
+    lastSyncAt: getClock().now()
+  }
+}
+
+/**
+ * Réinitialise les métadonnées d'une tâche rejouée depuis la dead-letter queue
+ * La tâche repart comme une nouvelle tentative (compteur de retries et erreur effacés)
+ */
+export function resetMetadataForReplay(
+  metadata: PersistenceMetadata
+): PersistenceMetadata {
+  return {
+    ...metadata,
+    syncStatus: 'pending',
+    error: undefined,
+    retryCount: 0
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { MigrationRegistry, createVersionedSerializer, migrationRegistry, type BackupStorage } from './migrations'
+import { SCHEMA_DEFAULTS } from './constants'
+
+/**
+ * Registre de test : 'notes' en version 3 (ajout de tags, puis renommage de content)
+ */
+function createRegistry(): MigrationRegistry {
+  return new MigrationRegistry()
+    .register('notes', 1, (state: any) => ({ ...state, notes: state.notes.map((note: any) => ({ ...note, tags: [] })) }))
+    .register('notes', 2, (state: any) => ({
+      notes: state.notes.map(({ content, ...note }: any) => ({ ...note, contentMd: content }))
+    }))
+}
+
+/**
+ * Stockage de sauvegarde en mémoire
+ */
+function createBackupStorage(): BackupStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value) }
+  }
+}
+
+describe('MigrationRegistry', () => {
+  it('derives the current version from the registered migrations', () => {
+    const registry = createRegistry()
+
+    expect(registry.getVersion('notes')).toBe(3)
+    expect(registry.getVersion('tags')).toBe(SCHEMA_DEFAULTS.UNVERSIONED)
+  })
+
+  it('rejects migrations registered out of order', () => {
+    expect(() => createRegistry().register('notes', 2, state => state)).toThrow()
+  })
+
+  it('applies the migrations in order from the stored version', () => {
+    const registry = createRegistry()
+
+    expect(registry.migrate('notes', { notes: [{ content: 'a' }] }, 1)).toEqual({
+      ok: true,
+      version: 3,
+      data: { notes: [{ tags: [], contentMd: 'a' }] }
+    })
+    expect(registry.migrate('notes', { notes: [{ content: 'a', tags: ['t'] }] }, 2)).toEqual({
+      ok: true,
+      version: 3,
+      data: { notes: [{ tags: ['t'], contentMd: 'a' }] }
+    })
+  })
+
+  it('reports data from a newer version or a failing migration', () => {
+    const registry = createRegistry()
+
+    expect(registry.migrate('notes', {}, 4).ok).toBe(false)
+    expect(registry.migrate('notes', { notes: null }, 1).ok).toBe(false)
+    expect(registry.getFailures().map(failure => failure.version)).toEqual([4, 1])
+  })
+
+  it('migrates stored queue tasks with the module task migrations', () => {
+    const result = migrationRegistry.migrate(SCHEMA_DEFAULTS.QUEUE_KEY, { id: 'task-1', payload: {} }, 1)
+
+    expect(result.ok && result.data).toMatchObject({ id: 'task-1', idempotencyKey: 'task-1' })
+  })
+})
+
+describe('createVersionedSerializer', () => {
+  it('writes the state in an envelope at the current version', () => {
+    const serializer = createVersionedSerializer('notes', { registry: createRegistry(), backupStorage: null })
+
+    expect(JSON.parse(serializer.serialize({ notes: [] }))).toEqual({ version: 3, data: { notes: [] } })
+  })
+
+  it('migrates unversioned and versioned states on read', () => {
+    const serializer = createVersionedSerializer('notes', { registry: createRegistry(), backupStorage: null })
+
+    expect(serializer.deserialize(JSON.stringify({ notes: [{ content: 'a' }] }))).toEqual({
+      notes: [{ tags: [], contentMd: 'a' }]
+    })
+    expect(serializer.deserialize(JSON.stringify({ version: 3, data: { notes: [] } }))).toEqual({ notes: [] })
+  })
+
+  it('backs up data that cannot be migrated and starts empty', () => {
+    const backupStorage = createBackupStorage()
+    const serializer = createVersionedSerializer('notes', { registry: createRegistry(), backupStorage })
+    const raw = JSON.stringify({ version: 9, data: { notes: [] } })
+
+    expect(serializer.deserialize(raw)).toEqual({})
+    expect(backupStorage.items.get('notes:unmigrated')).toBe(raw)
+  })
+
+  it('treats a state rejected by validation as unmigrated, keeping the oldest backup', () => {
+    const backupStorage = createBackupStorage()
+    backupStorage.setItem('notes:unmigrated', 'older')
+    const serializer = createVersionedSerializer('notes', {
+      registry: createRegistry(),
+      backupStorage,
+      validate: state => {
+        if (!Array.isArray(state.notes)) throw new Error('notes must be an array')
+        return state
+      }
+    })
+
+    expect(serializer.deserialize(JSON.stringify({ version: 3, data: { notes: 'a' } }))).toEqual({})
+    expect(backupStorage.items.get('notes:unmigrated')).toBe('older')
+  })
+
+  it('restores the valid entries and sets aside the rejected ones', () => {
+    const backupStorage = createBackupStorage()
+    const registry = createRegistry()
+    const serializer = createVersionedSerializer('notes', {
+      registry,
+      backupStorage,
+      validate: (state, reject) => ({
+        notes: (state.notes as unknown[]).filter(note => {
+          const valid = typeof (note as { contentMd?: unknown }).contentMd === 'string'
+          if (!valid) reject(note, 'contentMd must be a string')
+          return valid
+        })
+      })
+    })
+    const raw = JSON.stringify({ version: 3, data: { notes: [{ contentMd: 'a' }, { contentMd: 1 }] } })
+
+    expect(serializer.deserialize(raw)).toEqual({ notes: [{ contentMd: 'a' }] })
+    serializer.deserialize(raw)
+    expect(JSON.parse(backupStorage.items.get('notes:rejected')!)).toEqual([{ contentMd: 1 }, { contentMd: 1 }])
+    expect(registry.getFailures()).toHaveLength(2)
+    expect(backupStorage.items.has('notes:unmigrated')).toBe(false)
+  })
+})
@@ -0,0 +1,285 @@
+/**
+ * Versioning et migrations des données persistées (stores Pinia, queue de persistance)
+ * Chaque donnée persistée est écrite dans une enveloppe versionnée ({ version, data }) ;
+ * à la lecture, les migrations enregistrées pour sa clé sont appliquées dans l'ordre (v1→v2→…)
+ * Une donnée qui ne peut pas être migrée est signalée, jamais supprimée silencieusement
+ */
+
+import { SCHEMA_DEFAULTS } from './constants'
+import { TASK_MIGRATIONS } from './taskMigrations'
+
+/**
+ * Migration d'une version vers la suivante
+ */
+export type Migration = (data: unknown) => unknown
+
+/**
+ * Enveloppe versionnée d'une donnée persistée
+ */
+export interface VersionedEnvelope<D = unknown> {
+  version: number
+  data: D
+}
+
+/**
+ * Donnée qui n'a pas pu être migrée
+ */
+export interface MigrationFailure {
+  /**
+   * Clé du schéma (ex: 'notes', 'persistenceQueue')
+   */
+  key: string
+  /**
+   * Version de la donnée stockée
+   */
+  version: number
+  /**
+   * Donnée brute, telle que stockée
+   */
+  data: unknown
+  /**
+   * Raison de l'échec
+   */
+  error: string
+}
+
+/**
+ * Résultat d'une migration
+ */
+export type MigrationResult =
+  | { ok: true; version: number; data: unknown }
+  | { ok: false; failure: MigrationFailure }
+
+/**
+ * Sérialiseur compatible avec pinia-plugin-persistedstate (option persist.serializer)
+ */
+export interface PersistedStateSerializer {
+  serialize: (state: Record<string, unknown>) => string
+  deserialize: (raw: string) => Record<string, unknown>
+}
+
+/**
+ * Stockage de sauvegarde des données non migrées (API Web Storage)
+ */
+export interface BackupStorage {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+}
+
+/**
+ * Vérifie si une valeur est une enveloppe versionnée (PURE)
+ */
+export function isVersionedEnvelope(value: unknown): value is VersionedEnvelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isInteger((value as Record<string, unknown>).version) &&
+    'data' in value
+  )
+}
+
+/**
+ * Registre ordonné des migrations, par clé de schéma
+ * La version courante d'une clé est 1 + le nombre de migrations enregistrées
+ */
+export class MigrationRegistry {
+  private migrations = new Map<string, Migration[]>()
+  private failures: MigrationFailure[] = []
+
+  /**
+   * Enregistre la migration de fromVersion vers fromVersion + 1
+   * Les migrations doivent être enregistrées dans l'ordre, sans trou
+   *
+   * @throws Error si fromVersion n'est pas la version courante de la clé
+   */
+  register(key: string, fromVersion: number, migrate: Migration): this {
+    const current = this.getVersion(key)
+    if (fromVersion !== current) {
+      throw new Error(`[MigrationRegistry] Migration for '${key}' must start from version ${current}, got ${fromVersion}`)
+    }
+    this.migrations.set(key, [...(this.migrations.get(key) ?? []), migrate])
+    return this
+  }
+
+  /**
+   * Retourne la version courante d'une clé (celle écrite par cette version de l'application)
+   */
+  getVersion(key: string): number {
+    return SCHEMA_DEFAULTS.UNVERSIONED + (this.migrations.get(key)?.length ?? 0)
+  }
+
+  /**
+   * Migre une donnée de fromVersion vers la version courante
+   * Échoue si la donnée provient d'une version plus récente ou si une migration lève une erreur
+   */
+  migrate(key: string, data: unknown, fromVersion: number): MigrationResult {
+    const current = this.getVersion(key)
+    if (!Number.isInteger(fromVersion) || fromVersion < SCHEMA_DEFAULTS.UNVERSIONED || fromVersion > current) {
+      return this.fail(key, fromVersion, data, `Unsupported version ${fromVersion} (current: ${current})`)
+    }
+
+    const migrations = this.migrations.get(key) ?? []
+    let migrated = data
+    for (let version = fromVersion; version < current; version++) {
+      try {
+        migrated = migrations[version - SCHEMA_DEFAULTS.UNVERSIONED](migrated)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        return this.fail(key, fromVersion, data, `Migration v${version}→v${version + 1} failed: ${reason}`)
+      }
+    }
+    return { ok: true, version: current, data: migrated }
+  }
+
+  /**
+   * Signale une donnée qui n'a pas pu être migrée (ou qui est invalide après migration)
+   */
+  reportFailure(failure: MigrationFailure): MigrationFailure {
+    this.failures.push(failure)
+    console.error(`[MigrationRegistry] Could not migrate '${failure.key}' data from version ${failure.version}:`, failure.error)
+    return failure
+  }
+
+  /**
+   * Retourne les données non migrées signalées depuis le démarrage
+   */
+  getFailures(): ReadonlyArray<MigrationFailure> {
+    return [...this.failures]
+  }
+
+  /**
+   * Crée et signale un échec de migration
+   * @private
+   */
+  private fail(key: string, version: number, data: unknown, error: string): MigrationResult {
+    return { ok: false, failure: this.reportFailure({ key, version, data, error }) }
+  }
+}
+
+/**
+ * Registre global, utilisé par défaut par les stores persistés et la queue
+ * Contient les migrations des tâches de la queue fournies par le module (TASK_MIGRATIONS)
+ */
+export const migrationRegistry = new MigrationRegistry()
+TASK_MIGRATIONS.forEach((migrate, index) => {
+  migrationRegistry.register(SCHEMA_DEFAULTS.QUEUE_KEY, SCHEMA_DEFAULTS.UNVERSIONED + index, migrate)
+})
+
+/**
+ * Enregistre une migration dans le registre global
+ * Doit être appelé avant la première utilisation des stores concernés (hydratation)
+ * et avant la restauration de la queue
+ *
+ * @example
+ * registerMigration('notes', 1, state => ({ ...state, notes: state.notes.map(addColor) }))
+ */
+export function registerMigration(key: string, fromVersion: number, migrate: Migration): void {
+  migrationRegistry.register(key, fromVersion, migrate)
+}
+
+/**
+ * Écarte une entrée invalide de l'état restauré (ex: une note) : elle est signalée et mise de côté
+ */
+export type RejectEntry = (entry: unknown, error: string) => void
+
+/**
+ * Options du sérialiseur versionné
+ */
+export interface VersionedSerializerOptions {
+  /**
+   * Valide l'état migré et retourne l'état à hydrater (ex: schéma zod)
+   * Les entrées invalides peuvent être écartées une à une via reject (le reste de l'état est restauré) ;
+   * une erreur levée rend tout l'état invalide : il est alors traité comme non migré
+   */
+  validate?: (state: Record<string, unknown>, reject: RejectEntry) => Record<string, unknown>
+  /**
+   * Stockage de la sauvegarde des données non migrées (défaut: localStorage, null pour désactiver)
+   */
+  backupStorage?: BackupStorage | null
+  /**
+   * Registre de migrations (défaut: registre global)
+   */
+  registry?: MigrationRegistry
+}
+
+/**
+ * Crée un sérialiseur versionné pour un store persisté (option persist.serializer)
+ * - écrit l'état dans une enveloppe { version, data } à la version courante de la clé
+ * - à la lecture, migre puis valide l'état (un état sans enveloppe est en version 1)
+ * - si la migration ou la validation échoue, le contenu brut est sauvegardé sous `${key}:unmigrated`
+ *   et le store démarre vide
+ * - les entrées écartées par la validation sont ajoutées sous `${key}:rejected`
+ *
+ * @param key - Clé du schéma (en général la clé de persistance du store)
+ */
+export function createVersionedSerializer(
+  key: string,
+  options: VersionedSerializerOptions = {}
+): PersistedStateSerializer {
+  const registry = options.registry ?? migrationRegistry
+  const backupStorage = options.backupStorage === undefined ? localStorage : options.backupStorage
+
+  /**
+   * Met de côté des entrées écartées, à la suite de celles déjà sauvegardées
+   */
+  const setAside = (entries: unknown[]): void => {
+    if (!backupStorage) return
+    const rejectedKey = `${key}${SCHEMA_DEFAULTS.REJECTED_SUFFIX}`
+    let saved: unknown[] = []
+    try {
+      const parsed: unknown = JSON.parse(backupStorage.getItem(rejectedKey) ?? '[]')
+      saved = Array.isArray(parsed) ? parsed : [parsed]
+    } catch {
+      saved = [backupStorage.getItem(rejectedKey)]
+    }
+    backupStorage.setItem(rejectedKey, JSON.stringify([...saved, ...entries]))
+  }
+
+  /**
+   * Migre et valide l'état lu, ou retourne null en signalant l'échec
+   */
+  const restore = (envelope: VersionedEnvelope): Record<string, unknown> | null => {
+    const result = registry.migrate(key, envelope.data, envelope.version)
+    if (!result.ok) return null
+
+    const rejected: unknown[] = []
+    const reject: RejectEntry = (entry, error) => {
+      rejected.push(entry)
+      registry.reportFailure({ key, version: envelope.version, data: entry, error: `Invalid entry: ${error}` })
+    }
+
+    try {
+      if (typeof result.data !== 'object' || result.data === null) {
+        throw new Error('Migrated state is not an object')
+      }
+      const state = result.data as Record<string, unknown>
+      const validated = options.validate ? options.validate(state, reject) : state
+      if (rejected.length > 0) setAside(rejected)
+      return validated
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      registry.reportFailure({ key, version: envelope.version, data: envelope.data, error: `Invalid state: ${reason}` })
+      return null
+    }
+  }
+
+  return {
+    serialize: state => JSON.stringify({ version: registry.getVersion(key), data: state }),
+    deserialize: raw => {
+      const parsed: unknown = JSON.parse(raw)
+      const envelope = isVersionedEnvelope(parsed)
+        ? parsed
+        : { version: SCHEMA_DEFAULTS.UNVERSIONED, data: parsed }
+
+      const state = restore(envelope)
+      if (state) return state
+
+      // Ne jamais écraser une sauvegarde antérieure : c'est la plus ancienne donnée non migrée
+      const backupKey = `${key}${SCHEMA_DEFAULTS.UNMIGRATED_SUFFIX}`
+      if (backupStorage && backupStorage.getItem(backupKey) === null) {
+        backupStorage.setItem(backupKey, raw)
+      }
+      return {}
+    }
+  }
+}
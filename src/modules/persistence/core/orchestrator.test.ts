@@ -0,0 +1,494 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { VirtualClock, setClock } from './clock'
+import { ConflictError } from './errors'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS } from './events'
+import { PersistenceEventBus } from './persistenceEventBus'
+import { PersistenceOrchestrator } from './orchestrator'
+import type { PersistencePolicies } from './policies'
+import { DEFAULT_RETRY_CONFIG } from './retryManager'
+import type { BatchTaskResult, PersistableEntity, PersistenceEvents, PersistenceStrategy, PersistenceTask } from './types'
+import { PersistedQueueManager } from '../queue/QueueManager'
+import { usePersistenceDeadLetterStore, usePersistenceTransactionStore } from '../queue/store'
+import { usePersistenceEntitySyncStore } from '../sync/store'
+import { SyncAdaptersManager, type EntityRollback } from '../sync/syncAdapters'
+
+interface Tag {
+  frontId: string
+  title: string
+  color?: string
+}
+
+const remote: Tag = { frontId: 't1', title: 'remote', color: 'red' }
+
+/**
+ * Persistance complète autour d'une stratégie de tags
+ * Les mises à jour sont refusées (conflit avec remote en version 5) tant que rejectUpdates est vrai
+ */
+function setup(options: { merge?: (local: Tag, remote: Tag) => Tag } = {}) {
+  const eventBus = new PersistenceEventBus<Tag>()
+  const queue = new PersistedQueueManager<Tag>(DEFAULT_RETRY_CONFIG, {}, false)
+  const orchestrator = new PersistenceOrchestrator<Tag>(eventBus, queue)
+  const updates: Array<{ entity: PersistableEntity<Tag>; idempotencyKey?: string }> = []
+  const state = { rejectUpdates: true }
+  const strategy: PersistenceStrategy<Tag> = {
+    persistCreate: async entity => entity,
+    persistUpdate: async (entity, context) => {
+      updates.push({ entity, idempotencyKey: context?.idempotencyKey })
+      if (state.rejectUpdates) {
+        state.rejectUpdates = !options.merge
+        throw new ConflictError(remote, 5)
+      }
+      return { ...entity, metadata: { ...entity.metadata, version: (entity.metadata.version ?? 0) + 1 } }
+    },
+    persistDelete: async () => {},
+    merge: options.merge
+  }
+  orchestrator.registerStrategy('tag', strategy)
+  orchestrator.initializeProcessor()
+
+  const conflicts: Array<PersistenceEvents<Tag>['entity:conflict']> = []
+  const resolutions: Array<PersistenceEvents<Tag>['entity:conflict-resolved']> = []
+  eventBus.on(PERSISTENCE_EVENTS.CONFLICT, payload => { conflicts.push(payload) })
+  eventBus.on(PERSISTENCE_EVENTS.CONFLICT_RESOLVED, payload => { resolutions.push(payload) })
+
+  /**
+   * Modifie le titre du tag t1, connu en version 4
+   */
+  const renameTag = (title: string) => eventBus.emit(ENTITY_EVENTS.UPDATED, {
+    entityType: 'tag',
+    id: 't1',
+    updates: { title },
+    version: 4
+  })
+
+  return { queue, orchestrator, state, updates, conflicts, resolutions, renameTag }
+}
+
+describe('PersistenceOrchestrator conflicts', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('keeps a conflicting update in the queue until the user decides', async () => {
+    const { queue, updates, conflicts, renameTag } = setup()
+
+    renameTag('local')
+    await vi.waitFor(() => expect(conflicts).toHaveLength(1))
+
+    expect(conflicts[0].local).toEqual({ ...remote, title: 'local' })
+    expect(conflicts[0].remote).toEqual(remote)
+    expect(queue.getPendingTasks()[0].conflict).toMatchObject({ remote, remoteVersion: 5 })
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')?.syncStatus).toBe('conflict')
+    expect(updates).toHaveLength(1)
+  })
+
+  it('sends the local version over the remote version when the user keeps it', async () => {
+    const { queue, orchestrator, state, updates, conflicts, renameTag } = setup()
+    renameTag('local')
+    await vi.waitFor(() => expect(conflicts).toHaveLength(1))
+
+    state.rejectUpdates = false
+    orchestrator.resolveConflict(queue.getPendingTasks()[0].id, 'local')
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(updates[1].entity.data).toEqual({ ...remote, title: 'local' })
+    expect(updates[1].entity.metadata.version).toBe(5)
+    expect(updates[1].idempotencyKey).not.toBe(updates[0].idempotencyKey)
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')).toBeUndefined()
+  })
+
+  it('drops the local update when the user keeps the remote version', async () => {
+    const { queue, orchestrator, conflicts, resolutions, renameTag } = setup()
+    renameTag('local')
+    await vi.waitFor(() => expect(conflicts).toHaveLength(1))
+
+    orchestrator.resolveConflict(queue.getPendingTasks()[0].id, 'remote')
+
+    expect(queue.size()).toBe(0)
+    expect(resolutions).toMatchObject([{ resolution: 'remote', resolved: remote }])
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')).toBeUndefined()
+  })
+
+  it('resolves the conflict with the strategy merge and the remote version', async () => {
+    const { queue, updates, conflicts, resolutions, renameTag } = setup({
+      merge: (local, remoteTag) => ({ ...remoteTag, title: `${remoteTag.title}+${local.title}` })
+    })
+
+    renameTag('local')
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(conflicts).toEqual([])
+    expect(updates[1].entity.data.title).toBe('remote+local')
+    expect(updates[1].entity.metadata.version).toBe(5)
+    expect(resolutions).toMatchObject([{ resolution: 'local' }])
+  })
+})
+
+describe('PersistenceOrchestrator batches', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  /**
+   * Persistance de tags par lots : respond calcule le résultat de chaque tâche
+   * Chaque envoi est enregistré (une tâche seule est envoyée hors lot)
+   * Les événements sont émis queue suspendue, puis envoyés ensemble à la reprise
+   */
+  function setupBatches(respond: (task: PersistenceTask<Tag>) => BatchTaskResult<Tag>) {
+    const eventBus = new PersistenceEventBus<Tag>()
+    const queue = new PersistedQueueManager<Tag>(DEFAULT_RETRY_CONFIG, {}, false)
+    const orchestrator = new PersistenceOrchestrator<Tag>(eventBus, queue)
+    const requests: string[][] = []
+    orchestrator.registerStrategy('tag', {
+      persistCreate: async entity => {
+        requests.push([`create:${entity.metadata.frontId}`])
+        return entity
+      },
+      persistUpdate: async entity => {
+        requests.push([`update:${entity.metadata.frontId}`])
+        return entity
+      },
+      persistDelete: async () => {},
+      persistBatch: async tasks => {
+        requests.push(tasks.map(task => `${task.operation}:${task.payload.metadata.frontId}`))
+        return tasks.map(respond)
+      }
+    })
+    orchestrator.initializeProcessor()
+    queue.pause('offline')
+    return { eventBus, queue, requests }
+  }
+
+  const success = (task: PersistenceTask<Tag>): BatchTaskResult<Tag> => ({ taskId: task.id, status: 'success' })
+
+  it('sends the ready tasks of an entity type in one batch', async () => {
+    const { eventBus, queue, requests } = setupBatches(success)
+    for (const frontId of ['t1', 't2', 't3']) {
+      eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: { frontId, title: frontId } })
+    }
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(requests).toEqual([['create:t1', 'create:t2', 'create:t3']])
+  })
+
+  it('retries only the tasks that failed in the batch', async () => {
+    const { eventBus, queue, requests } = setupBatches(task => task.payload.metadata.frontId === 't2'
+      ? { taskId: task.id, status: 'error', error: { response: { status: 500, headers: {} } } }
+      : success(task))
+    for (const frontId of ['t1', 't2']) {
+      eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: { frontId, title: frontId } })
+    }
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect(queue.getPendingTasks()[0]?.retryAt).toBeDefined())
+
+    expect(requests).toHaveLength(1)
+    expect(queue.getPendingTasks().map(task => task.payload.metadata.frontId)).toEqual(['t2'])
+    expect(queue.getPendingTasks()[0].payload.metadata.retryCount).toBe(1)
+    queue.stop()
+  })
+
+  it('keeps the next task of an entity for the following batch', async () => {
+    const { eventBus, queue, requests } = setupBatches(success)
+    eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: { frontId: 't1', title: 'a' } })
+    eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: { frontId: 't2', title: 'b' } })
+    // Une tâche déjà tentée n'est pas compactée : la mise à jour reste une tâche distincte
+    queue.updateTask(queue.getPendingTasks()[0].id, { attemptedAt: 999_000 })
+    eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id: 't1', updates: { title: 'c' } })
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(requests).toEqual([['create:t1', 'create:t2'], ['update:t1']])
+  })
+})
+
+describe('PersistenceOrchestrator dead letters', () => {
+  let clock: VirtualClock
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    clock = new VirtualClock(1_000_000)
+    setClock(clock)
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  /**
+   * Persistance de tags dont les mises à jour sont refusées (400) tant que rejectUpdates est vrai
+   * Les tâches de tag expirent après une minute
+   */
+  function setupDeadLetters() {
+    const eventBus = new PersistenceEventBus<Tag>()
+    const queue = new PersistedQueueManager<Tag>(DEFAULT_RETRY_CONFIG, {}, false)
+    const orchestrator = new PersistenceOrchestrator<Tag>(eventBus, queue, 3, { tag: { maxAge: 60_000 } })
+    const updates: Array<{ title?: string; idempotencyKey?: string }> = []
+    const state = { rejectUpdates: true }
+    orchestrator.registerStrategy('tag', {
+      persistCreate: async entity => entity,
+      persistUpdate: async (entity, context) => {
+        updates.push({ title: entity.data.title, idempotencyKey: context?.idempotencyKey })
+        if (state.rejectUpdates) {
+          throw { response: { status: 400, headers: {}, data: { message: 'Invalid title' } } }
+        }
+        return entity
+      },
+      persistDelete: async () => {}
+    })
+    orchestrator.initializeProcessor()
+
+    const renameTag = (title: string) => eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id: 't1', updates: { title } })
+
+    return { eventBus, queue, orchestrator, state, updates, renameTag }
+  }
+
+  it('keeps a task rejected by the backend in the dead-letter queue', async () => {
+    const { queue, renameTag } = setupDeadLetters()
+
+    renameTag('')
+    await vi.waitFor(() => expect(usePersistenceDeadLetterStore().count).toBe(1))
+
+    expect(queue.size()).toBe(0)
+    expect(usePersistenceDeadLetterStore().entries[0]).toMatchObject({ reason: 'failed', failedAt: 1_000_000 })
+    expect(usePersistenceDeadLetterStore().entries[0].error).toBeDefined()
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')).toMatchObject({ syncStatus: 'error', failedPermanently: true })
+  })
+
+  it('keeps an expired task in the dead-letter queue', async () => {
+    const { queue, updates, renameTag } = setupDeadLetters()
+    queue.pause('offline')
+
+    renameTag('late')
+    await clock.advance(61_000)
+    queue.resume('offline')
+    await vi.waitFor(() => expect(usePersistenceDeadLetterStore().count).toBe(1))
+
+    expect(usePersistenceDeadLetterStore().entries[0].reason).toBe('expired')
+    expect(updates).toEqual([])
+  })
+
+  it('replays a corrected task with a new idempotency key', async () => {
+    const { eventBus, queue, state, updates, renameTag } = setupDeadLetters()
+    renameTag('')
+    await vi.waitFor(() => expect(usePersistenceDeadLetterStore().count).toBe(1))
+
+    state.rejectUpdates = false
+    eventBus.emit(ENTITY_EVENTS.REPLAY, { taskId: usePersistenceDeadLetterStore().entries[0].task.id, data: { title: 'fixed' } })
+    await vi.waitFor(() => expect(updates).toHaveLength(2))
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(updates[1].title).toBe('fixed')
+    expect(updates[1].idempotencyKey).not.toBe(updates[0].idempotencyKey)
+    expect(usePersistenceDeadLetterStore().count).toBe(0)
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')).toBeUndefined()
+  })
+
+  it('keeps the idempotency key of a task replayed as is', async () => {
+    const { orchestrator, state, updates, renameTag } = setupDeadLetters()
+    renameTag('a')
+    await vi.waitFor(() => expect(usePersistenceDeadLetterStore().count).toBe(1))
+
+    state.rejectUpdates = false
+    orchestrator.replayDeadLetter(usePersistenceDeadLetterStore().entries[0].task.id)
+    await vi.waitFor(() => expect(updates).toHaveLength(2))
+
+    expect(updates[1].idempotencyKey).toBe(updates[0].idempotencyKey)
+  })
+})
+
+describe('PersistenceOrchestrator rollback', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  const original: Tag = { frontId: 't1', title: 'original' }
+
+  /**
+   * Persistance de tags refusant toute écriture (400), dont l'adapter enregistre les annulations
+   * Les événements sont émis queue suspendue, puis envoyés à la reprise
+   */
+  function setupRollback(policies: PersistencePolicies = {}) {
+    const eventBus = new PersistenceEventBus<Tag>()
+    const queue = new PersistedQueueManager<Tag>(DEFAULT_RETRY_CONFIG, policies, false)
+    const orchestrator = new PersistenceOrchestrator<Tag>(eventBus, queue, 3, policies)
+    const reject = async (): Promise<never> => {
+      throw { response: { status: 400, headers: {} } }
+    }
+    orchestrator.registerStrategy('tag', { persistCreate: reject, persistUpdate: reject, persistDelete: reject })
+    orchestrator.initializeProcessor()
+
+    const rollbacks: Array<EntityRollback<Tag>> = []
+    const adapters = new SyncAdaptersManager(eventBus as PersistenceEventBus)
+    adapters.register({
+      entityType: 'tag',
+      syncEntity: () => {},
+      rollback: rollback => { rollbacks.push(rollback as EntityRollback<Tag>) }
+    })
+    queue.pause('offline')
+
+    return { eventBus, queue, rollbacks }
+  }
+
+  it('restores the previous version of an update that failed permanently', async () => {
+    const { eventBus, queue, rollbacks } = setupRollback()
+    eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id: 't1', updates: { title: 'changed' }, previous: original })
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect(rollbacks).toHaveLength(1))
+
+    expect(rollbacks[0]).toMatchObject({ frontId: 't1', operation: 'update', previous: original })
+    expect(usePersistenceDeadLetterStore().entries[0].rolledBack).toBe(true)
+    // Revenue à l'état du backend, l'entité est synchronisée
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')).toBeUndefined()
+  })
+
+  it('keeps the local change when the policy asks for it', async () => {
+    const { eventBus, queue, rollbacks } = setupRollback({ tag: { onPermanentFailure: 'keep' } })
+    eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id: 't1', updates: { title: 'changed' }, previous: original })
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect(usePersistenceDeadLetterStore().count).toBe(1))
+
+    expect(rollbacks).toEqual([])
+    expect(usePersistenceDeadLetterStore().entries[0].rolledBack).toBeUndefined()
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')).toMatchObject({ syncStatus: 'error', failedPermanently: true })
+  })
+
+  it('rolls back the dependents of a failed create before the create itself', async () => {
+    const { eventBus, queue, rollbacks } = setupRollback()
+    eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: original })
+    // Déjà tentée : la mise à jour n'est pas fusionnée dans la création (cf. compaction)
+    queue.updateTask(queue.getPendingTasks()[0].id, { attemptedAt: 999_000 })
+    eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id: 't1', updates: { title: 'changed' }, previous: original })
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect(rollbacks).toHaveLength(2))
+
+    expect(rollbacks.map(rollback => rollback.operation)).toEqual(['update', 'create'])
+    expect(usePersistenceEntitySyncStore().get('tag', 't1')).toBeUndefined()
+  })
+})
+
+describe('PersistenceOrchestrator transactions', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  /**
+   * Persistance de tags dont les mises à jour sont refusées (400), qui enregistre chaque envoi et annulation
+   */
+  function setupTransactions() {
+    const eventBus = new PersistenceEventBus<Tag>()
+    const queue = new PersistedQueueManager<Tag>(DEFAULT_RETRY_CONFIG, {}, false)
+    const orchestrator = new PersistenceOrchestrator<Tag>(eventBus, queue)
+    const requests: string[] = []
+    orchestrator.registerStrategy('tag', {
+      persistCreate: async entity => {
+        requests.push(`create:${entity.metadata.frontId}`)
+        return entity
+      },
+      persistUpdate: async entity => {
+        requests.push(`update:${entity.metadata.frontId}`)
+        throw { response: { status: 400, headers: {} } }
+      },
+      persistDelete: async frontId => {
+        requests.push(`delete:${frontId}`)
+      }
+    })
+    orchestrator.initializeProcessor()
+
+    const rolledBack: string[] = []
+    eventBus.on(PERSISTENCE_EVENTS.ROLLED_BACK, ({ task }) => {
+      rolledBack.push(`${task.operation}:${task.payload.metadata.frontId}`)
+    })
+
+    return { eventBus, queue, requests, rolledBack }
+  }
+
+  it('sends the tasks of a transaction in order and compensates them when one fails', async () => {
+    const { eventBus, queue, requests, rolledBack } = setupTransactions()
+
+    eventBus.transaction(() => {
+      eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: { frontId: 't2', title: 'new' } })
+      eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id: 't1', updates: { title: 'changed' }, previous: remote })
+    })
+    await vi.waitFor(() => expect(requests).toContain('delete:t2'))
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(requests).toEqual(['create:t2', 'update:t1', 'delete:t2'])
+    expect(rolledBack).toEqual(['update:t1', 'create:t2'])
+    expect(usePersistenceDeadLetterStore().entries.map(entry => entry.task.operation)).toEqual(['update'])
+    expect(usePersistenceTransactionStore().completed).toEqual({})
+  })
+})
+
+describe('PersistenceOrchestrator idempotency keys', () => {
+  let clock: VirtualClock
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    clock = new VirtualClock(1_000_000)
+    setClock(clock)
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('sends the same key on every attempt of a task and a new key for each task', async () => {
+    const eventBus = new PersistenceEventBus<Tag>()
+    const queue = new PersistedQueueManager<Tag>({ ...DEFAULT_RETRY_CONFIG, jitter: 'none' }, {}, false)
+    const orchestrator = new PersistenceOrchestrator<Tag>(eventBus, queue)
+    const keys: Array<[string, string | undefined]> = []
+    const failures = { create: 1 }
+    orchestrator.registerStrategy('tag', {
+      persistCreate: async (entity, context) => {
+        keys.push(['create', context?.idempotencyKey])
+        if (failures.create-- > 0) throw { response: { status: 503, headers: {} } }
+        return entity
+      },
+      persistUpdate: async entity => entity,
+      persistDelete: async (_id, _entityType, context) => {
+        keys.push(['delete', context?.idempotencyKey])
+      }
+    })
+    orchestrator.initializeProcessor()
+
+    eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: { frontId: 't1', title: 'a' } })
+    await vi.waitFor(() => expect(queue.getPendingTasks()[0]?.retryAt).toBeDefined())
+    await clock.advance(DEFAULT_RETRY_CONFIG.initialDelay)
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+    eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'tag', id: 't1' })
+    await vi.waitFor(() => expect(keys).toHaveLength(3))
+
+    expect(keys.map(([operation]) => operation)).toEqual(['create', 'create', 'delete'])
+    expect(keys[0][1]).toBeDefined()
+    expect(keys[1][1]).toBe(keys[0][1])
+    expect(keys[2][1]).not.toBe(keys[0][1])
+  })
+})
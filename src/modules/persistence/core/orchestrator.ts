@@ -9,13 +9,33 @@ import type {
   PersistenceStrategy,
   PersistableEntity,
   PersistenceEvents,
-  PersistenceOperation
+  PersistenceOperation,
+  ConflictResolution,
+  BatchTaskResult,
+  DeadLetterReason,
+  DeadLetterError,
+  EntitySyncState,
+  TransactionEvent
 } from './types'
 import type { EventBus } from './eventBus'
 import type { PersistedQueueManager } from '../queue/QueueManager'
-import { updateMetadataOnSuccess, updateMetadataOnError, updateMetadataOnSyncing } from './metadata'
-import { createTask } from './taskHelpers'
-import { ENTITY_EVENTS, PERSISTENCE_EVENTS, QUEUE_EVENTS } from './events'
+import {
+  updateMetadataOnSuccess,
+  updateMetadataOnAttemptError,
+  updateMetadataOnSyncing,
+  updateMetadataOnConflict,
+  resetMetadataForReplay
+} from './metadata'
+import { createTask, createIdempotencyKey, type CreateTaskOptions } from './taskHelpers'
+import { isConflictError, type ConflictError } from './errors'
+import { inferTaskDependencies } from '../queue/utils/dependencies'
+import { getTaskEntityKey } from '../queue/utils/compaction'
+import { usePersistenceDeadLetterStore, usePersistenceTransactionStore } from '../queue/store'
+import { usePersistenceEntitySyncStore } from '../sync/store'
+import { analyzeError, DEFAULT_RETRY_CONFIG } from './retryManager'
+import { resolveTaskPolicy, type PersistencePolicies } from './policies'
+import { getClock } from './clock'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS, QUEUE_EVENTS, CIRCUIT_EVENTS, type EntityEventName } from './events'
 
 /**
  * Orchestrateur de persistance
@@ -26,16 +46,30 @@ export class PersistenceOrchestrator<T = unknown> {
   private queue: PersistedQueueManager<T>
   private strategies: Map<string, PersistenceStrategy<T>> = new Map()
   private maxRetries: number
+  private policies: PersistencePolicies
   private unsubscribeFunctions: Array<() => void> = []
+  private active = true
+
+  /**
+   * Événements reçus pendant la restauration de la queue (null hors restauration)
+   */
+  private bufferedEvents: Array<{ event: EntityEventName; payload: unknown }> | null = null
+
+  /**
+   * Transactions en cours d'annulation, avec l'indication qu'au moins une tâche a été annulée dans le store
+   */
+  private abortingTransactions = new Map<string, boolean>()
 
   constructor(
     eventBus: EventBus<PersistenceEvents<T>>,
     queue: PersistedQueueManager<T>,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    policies: PersistencePolicies = {}
   ) {
     this.eventBus = eventBus
     this.queue = queue
     this.maxRetries = maxRetries
+    this.policies = policies
 
     this.setupEventListeners()
     // Le processeur sera initialisé via initializeProcessor() après l'enregistrement des stratégies
@@ -56,6 +90,103 @@ export class PersistenceOrchestrator<T = unknown> {
     this.queue.setProcessor(async (task: PersistenceTask<T>) => {
       await this.processTask(task)
     })
+    this.queue.setBatchProcessor(
+      tasks => this.processBatch(tasks),
+      entityType => this.strategies.get(entityType)?.persistBatch !== undefined
+    )
+    this.queue.setFailureHandler((task, error) => {
+      this.handlePermanentFailure(task, 'failed', error)
+      this.eventBus.emit(QUEUE_EVENTS.TASK_FAILED_PERMANENTLY, { task, error })
+    })
+    this.queue.setExpiredHandler(task => {
+      this.handlePermanentFailure(task, 'expired', task.payload.metadata.error)
+      this.eventBus.emit(QUEUE_EVENTS.TASK_EXPIRED, { task })
+    })
+    this.queue.setCircuitStateHandler(change => {
+      this.eventBus.emit(CIRCUIT_EVENTS.STATE_CHANGED, change)
+    })
+  }
+
+  /**
+   * Ré-émet les conflits restaurés depuis la queue persistée
+   * Permet à l'UI de proposer à nouveau le choix après un rechargement
+   * Doit être appelé une fois la queue restaurée depuis son stockage
+   */
+  emitPendingConflicts(): void {
+    for (const task of this.queue.getPendingTasks()) {
+      if (task.conflict) {
+        this.emitConflict(task)
+      }
+    }
+  }
+
+  /**
+   * Active ou désactive le traitement des événements d'entité émis localement
+   * Un orchestrateur inactif (onglet suiveur) ignore les événements : ils sont relayés à l'onglet leader
+   */
+  setActive(active: boolean): void {
+    this.active = active
+  }
+
+  /**
+   * Met de côté les événements d'entité jusqu'à flushBufferedEvents()
+   * Pendant la restauration de la queue, une nouvelle tâche serait compactée et ses dépendances inférées
+   * sans voir les tâches restaurées
+   */
+  bufferEvents(): void {
+    this.bufferedEvents ??= []
+  }
+
+  /**
+   * Traite, dans l'ordre, les événements mis de côté par bufferEvents()
+   * À appeler une fois la queue restaurée
+   */
+  flushBufferedEvents(): void {
+    const events = this.bufferedEvents ?? []
+    this.bufferedEvents = null
+    for (const { event, payload } of events) {
+      this.handleEntityEvent(event, payload as PersistenceEvents<T>[EntityEventName])
+    }
+  }
+
+  /**
+   * Traite un événement d'entité (création, mise à jour, suppression, résolution de conflit)
+   * Appelé par les listeners de l'event bus, ou directement pour un événement relayé depuis un autre onglet
+   */
+  handleEntityEvent<K extends EntityEventName>(event: K, payload: PersistenceEvents<T>[K]): void {
+    if (this.bufferedEvents) {
+      this.bufferedEvents.push({ event, payload })
+      return
+    }
+    switch (event) {
+      case ENTITY_EVENTS.CREATED:
+      case ENTITY_EVENTS.UPDATED:
+      case ENTITY_EVENTS.DELETED: {
+        this.enqueueTask(this.createEntityTask({ event, payload } as TransactionEvent<T>))
+        break
+      }
+      case ENTITY_EVENTS.TRANSACTION: {
+        const { transactionId, events, reverts } = payload as PersistenceEvents<T>['entity:transaction']
+        // Annulation d'une action dont aucune tâche n'est partie : rien à envoyer
+        if (reverts && this.cancelTransaction(reverts)) break
+        this.enqueueTransaction(transactionId, events)
+        break
+      }
+      case ENTITY_EVENTS.RESOLVE_CONFLICT: {
+        const { taskId, resolution, data } = payload as PersistenceEvents<T>['entity:resolve-conflict']
+        this.resolveConflict(taskId, resolution, data)
+        break
+      }
+      case ENTITY_EVENTS.REPLAY: {
+        const { taskId, data } = payload as PersistenceEvents<T>['entity:replay']
+        this.replayDeadLetter(taskId, data)
+        break
+      }
+      case ENTITY_EVENTS.RESET: {
+        this.reset()
+        break
+      }
+    }
   }
 
   /**
@@ -63,42 +194,152 @@ export class PersistenceOrchestrator<T = unknown> {
    * @private
    */
   private setupEventListeners(): void {
-    const unsubscribeCreate = this.eventBus.on(ENTITY_EVENTS.CREATED, ({ entityType, data }) => {
-      this.enqueueOperation('create', entityType, data, (data as any)?.frontId || `temp-${Date.now()}`)
-    })
-
-    const unsubscribeUpdate = this.eventBus.on(ENTITY_EVENTS.UPDATED, ({ entityType, id, updates }) => {
-      this.enqueueOperation('update', entityType, updates, id)
-    })
-
-    const unsubscribeDelete = this.eventBus.on(ENTITY_EVENTS.DELETED, ({ entityType, id }) => {
-      this.enqueueOperation('delete', entityType, {} as T, id)
-    })
+    this.unsubscribeFunctions = Object.values(ENTITY_EVENTS).map(event =>
+      this.eventBus.on(event, payload => {
+        if (this.active) {
+          this.handleEntityEvent(event, payload)
+        }
+      })
+    )
+  }
 
-    this.unsubscribeFunctions = [unsubscribeCreate, unsubscribeUpdate, unsubscribeDelete]
+  /**
+   * Crée la tâche correspondant à un événement d'entité (création, mise à jour, suppression)
+   * @private
+   */
+  private createEntityTask({ event, payload }: TransactionEvent<T>): PersistenceTask<T> {
+    switch (event) {
+      case ENTITY_EVENTS.CREATED:
+        return this.createOperationTask('create', payload.entityType, payload.data, (payload.data as any)?.frontId || `temp-${getClock().now()}`)
+      case ENTITY_EVENTS.UPDATED:
+        return this.createOperationTask('update', payload.entityType, payload.updates, payload.id, {
+          version: payload.version,
+          previous: payload.previous
+        })
+      case ENTITY_EVENTS.DELETED:
+        return this.createOperationTask('delete', payload.entityType, {} as T, payload.id, { previous: payload.previous })
+    }
   }
 
   /**
-   * Méthode générique pour enqueuer une opération (fusionne les 3 méthodes)
+   * Méthode générique pour créer la tâche d'une opération (fusionne les 3 méthodes)
    * @private
    */
-  private enqueueOperation(
+  private createOperationTask(
     operation: PersistenceOperation,
     entityType: string,
     data: T | Partial<T>,
-    id: string
-  ): void {
-    const task = createTask(operation, entityType, data, id, this.maxRetries)
-    this.enqueueTask(task)
+    id: string,
+    options: CreateTaskOptions<T> = {}
+  ): PersistenceTask<T> {
+    // Politique du type d'entité et de l'opération (priorité, maxRetries, durée de vie)
+    const policy = this.resolvePolicy(entityType, operation)
+    const task = createTask(operation, entityType, data, id, policy.retryConfig.maxRetries, {
+      priority: policy.priority,
+      maxAge: policy.maxAge,
+      ...options
+    })
+    task.dependsOn = this.resolveDependencies(task)
+    return task
+  }
+
+  /**
+   * Met en queue les tâches d'une transaction
+   * Chaque tâche dépend de la précédente : elles sont traitées dans l'ordre et,
+   * si l'une échoue définitivement, les suivantes échouent avec elle
+   * @private
+   */
+  private enqueueTransaction(transactionId: string, events: TransactionEvent<T>[]): void {
+    let previousId: string | undefined
+    for (const event of events) {
+      const task = this.createEntityTask(event)
+      task.transactionId = transactionId
+      if (previousId && !task.dependsOn?.includes(previousId)) {
+        task.dependsOn = [...(task.dependsOn ?? []), previousId]
+      }
+      previousId = this.enqueueTask(task)?.id ?? previousId
+    }
+  }
+
+  /**
+   * Retire de la queue une transaction dont aucune tâche n'est partie
+   * Impossible si une tâche a été tentée (le backend a pu l'appliquer), si une tâche est déjà persistée
+   * ou si une tâche hors de la transaction en dépend : les opérations inverses doivent alors être envoyées
+   * @returns true si la transaction a été retirée
+   * @private
+   */
+  private cancelTransaction(transactionId: string): boolean {
+    const pendingTasks = this.queue.getPendingTasks()
+    const tasks = pendingTasks.filter(t => t.transactionId === transactionId)
+    const taskIds = tasks.map(t => t.id)
+    const hasDependents = pendingTasks.some(t =>
+      t.transactionId !== transactionId && (t.dependsOn ?? []).some(id => taskIds.includes(id))
+    )
+    if (
+      tasks.length === 0 ||
+      tasks.some(t => t.attemptedAt !== undefined) ||
+      transactionId in usePersistenceTransactionStore().completed ||
+      hasDependents
+    ) {
+      return false
+    }
+
+    tasks.forEach(task => this.queue.dequeue(task.id))
+    for (const task of tasks) {
+      if (this.hasOtherPendingTasks(task)) {
+        this.updateEntitySyncState(task, { syncStatus: 'pending' })
+      } else {
+        usePersistenceEntitySyncStore().remove(task.entityType, task.payload.metadata.frontId)
+      }
+    }
+    return true
+  }
+
+  /**
+   * Résout la politique d'un type d'entité et d'une opération
+   * @private
+   */
+  private resolvePolicy(entityType: string, operation: PersistenceOperation) {
+    return resolveTaskPolicy(
+      this.policies,
+      { ...DEFAULT_RETRY_CONFIG, maxRetries: this.maxRetries },
+      entityType,
+      operation
+    )
+  }
+
+  /**
+   * Infère les dépendances d'une tâche (même entité + entités référencées)
+   * Les références sont fournies par la stratégie du type d'entité (getReferences)
+   * @private
+   */
+  private resolveDependencies(task: PersistenceTask<T>): string[] | undefined {
+    const strategy = this.strategies.get(task.entityType)
+    const references = task.operation === 'delete'
+      ? []
+      : strategy?.getReferences?.(task.payload.data) ?? []
+    const dependsOn = inferTaskDependencies(this.queue.getPendingTasks(), task, references)
+    return dependsOn.length > 0 ? dependsOn : undefined
   }
 
   /**
    * Met une tâche en queue et émet l'événement
+   * Si la tâche a été compactée (fusionnée), l'événement porte la tâche résultante
+   * Si elle a annulé des tâches en attente (create + delete, retour à l'état précédent), aucun événement n'est émis
    * @private
    */
-  private enqueueTask(task: PersistenceTask<T>): void {
-    this.queue.enqueue(task)
-    this.eventBus.emit(QUEUE_EVENTS.TASK_ENQUEUED, { task })
+  private enqueueTask(task: PersistenceTask<T>): PersistenceTask<T> | null {
+    const queued = this.queue.enqueue(task)
+    if (queued) {
+      this.updateEntitySyncState(queued, { syncStatus: 'pending' })
+      this.eventBus.emit(QUEUE_EVENTS.TASK_ENQUEUED, { task: queued })
+    } else if (this.hasOtherPendingTasks(task)) {
+      this.updateEntitySyncState(task, { syncStatus: 'pending' })
+    } else {
+      // Tâches annulées (create + delete, retour à l'état précédent) : rien à synchroniser
+      usePersistenceEntitySyncStore().remove(task.entityType, task.payload.metadata.frontId)
+    }
+    return queued
   }
 
   /**
@@ -115,17 +356,427 @@ export class PersistenceOrchestrator<T = unknown> {
 
     try {
       task.payload.metadata = updateMetadataOnSyncing(task.payload.metadata)
+      this.updateEntitySyncState(task, { syncStatus: 'syncing' })
       
       const persisted = await this.executeStrategy(task, strategy)
       const updatedPersisted = this.updateMetadataOnSuccess(persisted, task)
       
       this.emitSuccessEvents(task, updatedPersisted)
     } catch (error) {
-      this.handleError(task, error)
-      throw error // Re-throw pour que la queue puisse gérer le retry
+      await this.handleFailure(task, strategy, error)
     }
   }
 
+  /**
+   * Traite un lot de tâches du même type d'entité via persistBatch
+   * Les résultats sont répartis par tâche : succès, conflit ou erreur (retentée par la queue)
+   * @returns Les erreurs par identifiant de tâche (les tâches absentes ont réussi ou sont en conflit)
+   * @private
+   */
+  private async processBatch(tasks: PersistenceTask<T>[]): Promise<Map<string, unknown>> {
+    const entityType = tasks[0].entityType
+    const strategy = this.strategies.get(entityType)
+    if (!strategy?.persistBatch) {
+      throw new Error(`No batch strategy registered for entity type: ${entityType}`)
+    }
+
+    for (const task of tasks) {
+      this.eventBus.emit(QUEUE_EVENTS.TASK_PROCESSING, { task })
+      task.payload.metadata = updateMetadataOnSyncing(task.payload.metadata)
+      this.updateEntitySyncState(task, { syncStatus: 'syncing' })
+    }
+
+    let results: BatchTaskResult<T>[]
+    try {
+      results = await strategy.persistBatch(tasks)
+    } catch (error) {
+      results = tasks.map(task => ({ taskId: task.id, status: 'error', error }))
+    }
+
+    const resultsById = new Map(results.map(result => [result.taskId, result]))
+    const failures = new Map<string, unknown>()
+
+    for (const task of tasks) {
+      const result = resultsById.get(task.id)
+        ?? { taskId: task.id, status: 'error', error: new Error(`Missing batch result for task ${task.id}`) }
+
+      if (result.status === 'success') {
+        this.emitSuccessEvents(task, this.updateMetadataOnSuccess(result.persisted ?? task.payload, task))
+        continue
+      }
+
+      try {
+        await this.handleFailure(task, strategy, result.error)
+      } catch (error) {
+        failures.set(task.id, error)
+      }
+    }
+
+    return failures
+  }
+
+  /**
+   * Gère l'échec de persistance d'une tâche
+   * Un conflit n'est pas retenté : il est résolu ou mis en attente du choix utilisateur
+   * Les autres erreurs sont émises puis relancées pour que la queue gère le retry
+   * @private
+   */
+  private async handleFailure(
+    task: PersistenceTask<T>,
+    strategy: PersistenceStrategy<T>,
+    error: unknown
+  ): Promise<void> {
+    if (isConflictError<T>(error)) {
+      await this.handleConflict(task, strategy, error)
+      return
+    }
+    this.handleError(task, error)
+    throw error
+  }
+
+  /**
+   * Gère un conflit d'écriture (optimistic locking)
+   * 1. Si la stratégie sait résoudre (resolveConflict ou merge), la version résolue est renvoyée
+   *    avec la version distante
+   * 2. Sinon (ou si la résolution échoue à nouveau), la tâche est marquée 'conflict'
+   *    et reste en queue jusqu'au choix de l'utilisateur
+   * @private
+   */
+  private async handleConflict(
+    task: PersistenceTask<T>,
+    strategy: PersistenceStrategy<T>,
+    error: ConflictError<T>
+  ): Promise<void> {
+    const resolver = strategy.resolveConflict ?? strategy.merge
+
+    if (task.operation === 'update' && error.remote !== undefined && resolver) {
+      const resolved = resolver.call(strategy, this.getLocalVersion(task, error.remote), error.remote)
+      try {
+        // Nouvelle requête (données et version différentes) : clé d'idempotence dérivée,
+        // stable si la résolution est retentée pour la même version distante
+        const persisted = await strategy.persistUpdate({
+          data: resolved,
+          metadata: { ...task.payload.metadata, version: error.remoteVersion }
+        }, { idempotencyKey: `${task.idempotencyKey}:v${error.remoteVersion ?? 'unknown'}` })
+        this.eventBus.emit(PERSISTENCE_EVENTS.CONFLICT_RESOLVED, {
+          entityType: task.entityType,
+          task,
+          resolution: 'local',
+          resolved: persisted.data
+        })
+        this.emitSuccessEvents(task, this.updateMetadataOnSuccess(persisted, task))
+        return
+      } catch (retryError) {
+        if (!isConflictError<T>(retryError)) {
+          this.handleError(task, retryError)
+          throw retryError
+        }
+        error = retryError
+      }
+    }
+
+    console.warn(`[PersistenceOrchestrator] Conflict on ${task.entityType} ${task.payload.metadata.frontId}, waiting for resolution`)
+    task.payload.metadata = updateMetadataOnConflict(task.payload.metadata, error)
+    this.updateEntitySyncState(task, { syncStatus: 'conflict' })
+    task.conflict = {
+      remote: error.remote,
+      remoteVersion: error.remoteVersion,
+      detectedAt: getClock().now()
+    }
+    this.emitConflict(task)
+  }
+
+  /**
+   * Émet l'événement de conflit avec les deux versions
+   * @private
+   */
+  private emitConflict(task: PersistenceTask<T>): void {
+    this.eventBus.emit(PERSISTENCE_EVENTS.CONFLICT, {
+      entityType: task.entityType,
+      task,
+      local: this.getLocalVersion(task, task.conflict?.remote),
+      remote: task.conflict?.remote
+    })
+  }
+
+  /**
+   * Reconstitue la version locale complète d'une entité en conflit
+   * Pour un update, la tâche ne contient que les champs modifiés : ils sont appliqués sur la version distante
+   * @private
+   */
+  private getLocalVersion(task: PersistenceTask<T>, remote?: T): T {
+    if (task.operation === 'update' && remote !== undefined) {
+      return { ...remote, ...task.payload.data }
+    }
+    return task.payload.data
+  }
+
+  /**
+   * Résout un conflit en attente selon le choix de l'utilisateur
+   * - local : la version locale (ou data) est renvoyée avec la version distante
+   * - remote : la tâche est abandonnée et la version distante est appliquée au store
+   */
+  resolveConflict(taskId: string, resolution: ConflictResolution, data?: T): void {
+    const task = this.queue.getPendingTasks().find(t => t.id === taskId)
+    if (!task?.conflict) {
+      console.warn(`[PersistenceOrchestrator] No pending conflict for task ${taskId}`)
+      return
+    }
+
+    const conflict = task.conflict
+
+    if (resolution === 'remote') {
+      this.queue.dequeue(task.id)
+      if (task.transactionId) {
+        this.settleTransactionTask(task)
+      }
+      this.updateEntitySyncState(task, { syncStatus: this.hasOtherPendingTasks(task) ? 'pending' : 'synced' })
+      this.eventBus.emit(PERSISTENCE_EVENTS.CONFLICT_RESOLVED, {
+        entityType: task.entityType,
+        task,
+        resolution,
+        resolved: conflict.remote
+      })
+      this.queue.restart()
+      return
+    }
+
+    const resolvedData = data ?? this.getLocalVersion(task, conflict.remote)
+    // La requête rejetée n'a pas été appliquée : la nouvelle requête reçoit sa propre clé
+    this.queue.updateTask(task.id, {
+      conflict: undefined,
+      retryAt: undefined,
+      idempotencyKey: createIdempotencyKey(),
+      payload: {
+        data: resolvedData,
+        metadata: {
+          ...task.payload.metadata,
+          syncStatus: 'pending',
+          version: conflict.remoteVersion,
+          error: undefined
+        }
+      }
+    })
+    this.updateEntitySyncState(task, { syncStatus: 'pending' })
+    if (data !== undefined) {
+      this.eventBus.emit(PERSISTENCE_EVENTS.CONFLICT_RESOLVED, {
+        entityType: task.entityType,
+        task,
+        resolution,
+        resolved: data
+      })
+    }
+    this.queue.restart()
+  }
+
+  /**
+   * Gère une tâche en échec définitif (erreur, dépendance en échec ou expiration)
+   * La tâche rejoint la dead-letter queue, puis la modification optimiste est annulée dans le store
+   * sauf si la politique demande de la conserver (l'entité reste alors marquée non synchronisée)
+   * @private
+   */
+  private handlePermanentFailure(task: PersistenceTask<T>, reason: DeadLetterReason, error: unknown): void {
+    const rollback = this.shouldRollback(task)
+    this.moveToDeadLetter(task, reason, error, rollback)
+    if (rollback) {
+      this.rollback(task)
+    }
+    if (task.transactionId) {
+      this.abortTransaction(task.transactionId, rollback)
+    }
+  }
+
+  /**
+   * Indique si la modification optimiste d'une tâche en échec définitif doit être annulée
+   * - la politique de la tâche doit être 'rollback'
+   * - un update ou un delete doit porter la version précédente de l'entité
+   * Les dépendants d'une tâche en échec sont traités avant elle (cf. PersistedQueueManager) :
+   * les annulations successives d'une même entité restaurent en dernier l'état le plus ancien
+   * @private
+   */
+  private shouldRollback(task: PersistenceTask<T>): boolean {
+    return this.resolvePolicy(task.entityType, task.operation).onPermanentFailure === 'rollback'
+      && this.canRollback(task)
+  }
+
+  /**
+   * Indique si une tâche porte de quoi annuler sa modification (create, ou version précédente)
+   * @private
+   */
+  private canRollback(task: PersistenceTask<T>): boolean {
+    return task.operation === 'create' || task.previous !== undefined
+  }
+
+  /**
+   * Termine une tâche de transaction (persistée, ou abandonnée au profit de la version distante)
+   * Tant que d'autres tâches de la transaction restent en queue, une tâche persistée est conservée
+   * pour pouvoir être compensée si la transaction échoue
+   * @private
+   */
+  private settleTransactionTask(task: PersistenceTask<T>, persisted?: PersistableEntity<T>): void {
+    const transactionId = task.transactionId!
+    const transactionStore = usePersistenceTransactionStore()
+    const hasPendingTasks = this.queue.getPendingTasks()
+      .some(t => t.id !== task.id && t.transactionId === transactionId)
+
+    if (!hasPendingTasks) {
+      transactionStore.remove(transactionId)
+    } else if (persisted) {
+      transactionStore.recordCompleted(transactionId, { ...task, payload: persisted })
+    }
+  }
+
+  /**
+   * Annule une transaction dont une tâche a échoué définitivement
+   * Les tâches suivantes échouent en cascade (dépendances) ; une fois la cascade terminée,
+   * les tâches déjà persistées sont compensées si au moins une tâche a été annulée dans le store
+   * (sinon la politique 'keep' s'applique à toute la transaction)
+   * @private
+   */
+  private abortTransaction(transactionId: string, rolledBack: boolean): void {
+    const aborting = this.abortingTransactions.get(transactionId)
+    this.abortingTransactions.set(transactionId, rolledBack || aborting === true)
+    if (aborting !== undefined) return
+
+    console.warn(`[PersistenceOrchestrator] Transaction ${transactionId} failed, aborting`)
+    queueMicrotask(() => {
+      const compensate = this.abortingTransactions.get(transactionId) === true
+      this.abortingTransactions.delete(transactionId)
+      const completed = usePersistenceTransactionStore().take(transactionId) as PersistenceTask<T>[]
+      if (!compensate) return
+
+      // Du plus récent au plus ancien, comme pour les annulations en cascade
+      for (const task of [...completed].reverse()) {
+        if (this.canRollback(task)) {
+          this.compensate(task)
+        }
+      }
+    })
+  }
+
+  /**
+   * Compense une tâche déjà persistée d'une transaction annulée
+   * La modification est annulée dans le store, puis l'opération inverse est envoyée au backend
+   * (create → delete, update → version précédente, delete → recréation)
+   * @private
+   */
+  private compensate(task: PersistenceTask<T>): void {
+    const { entityType } = task
+    const frontId = task.payload.metadata.frontId
+    this.rollback(task)
+
+    switch (task.operation) {
+      case 'create':
+        this.enqueueTask(this.createOperationTask('delete', entityType, {} as T, frontId))
+        break
+      case 'update':
+        this.enqueueTask(this.createOperationTask('update', entityType, task.previous!, frontId, {
+          version: task.payload.metadata.version
+        }))
+        break
+      case 'delete':
+        this.enqueueTask(this.createOperationTask('create', entityType, task.previous!, frontId))
+        break
+    }
+  }
+
+  /**
+   * Annule la modification optimiste d'une tâche dans le store (via l'adapter du type d'entité)
+   * Le store revient à l'état connu du backend : l'entité est synchronisée (ou retirée pour un create)
+   * @private
+   */
+  private rollback(task: PersistenceTask<T>): void {
+    if (task.operation === 'create') {
+      usePersistenceEntitySyncStore().remove(task.entityType, task.payload.metadata.frontId)
+    } else {
+      this.updateEntitySyncState(task, { syncStatus: this.hasOtherPendingTasks(task) ? 'pending' : 'synced' })
+    }
+    console.log(`[PersistenceOrchestrator] Rolling back ${task.operation} of ${task.entityType} ${task.payload.metadata.frontId}`)
+    this.eventBus.emit(PERSISTENCE_EVENTS.ROLLED_BACK, {
+      entityType: task.entityType,
+      task,
+      previous: task.previous
+    })
+  }
+
+  /**
+   * Conserve une tâche en échec définitif dans la dead-letter queue
+   * L'erreur brute est remplacée par son analyse (sérialisable)
+   * @private
+   */
+  private moveToDeadLetter(
+    task: PersistenceTask<T>,
+    reason: DeadLetterReason,
+    error: unknown,
+    rolledBack: boolean = false
+  ): void {
+    const deadLetterError = this.toSerializableError(error)
+    usePersistenceDeadLetterStore().add({
+      task: {
+        ...task,
+        payload: { ...task.payload, metadata: { ...task.payload.metadata, error: undefined } }
+      },
+      reason,
+      error: deadLetterError,
+      failedAt: getClock().now(),
+      rolledBack: rolledBack || undefined
+    })
+    this.updateEntitySyncState(task, { syncStatus: 'error', error: deadLetterError, failedPermanently: true })
+    console.warn(`[PersistenceOrchestrator] Task ${task.id} moved to dead-letter queue (${reason})`)
+  }
+
+  /**
+   * Abandonne l'état de persistance de l'utilisateur courant (changement de compte, session invitée)
+   * Queue, dead-letters, transactions et état des entités sont vidés ; STATE_RESET permet au reste
+   * du système (ex: curseurs du pull sync) de se réinitialiser à son tour
+   * Les tâches retirées ne sont jamais envoyées ; celles en cours d'envoi se terminent
+   */
+  reset(): void {
+    this.queue.clear()
+    this.abortingTransactions.clear()
+    usePersistenceDeadLetterStore().clear()
+    usePersistenceTransactionStore().clear()
+    usePersistenceEntitySyncStore().clear()
+    this.eventBus.emit(PERSISTENCE_EVENTS.STATE_RESET, {})
+  }
+
+  /**
+   * Rejoue une tâche de la dead-letter queue
+   * Les métadonnées sont réinitialisées, l'expiration recalculée et les dépendances ré-inférées
+   * @param data - Corrections optionnelles appliquées aux données avant le rejeu
+   */
+  replayDeadLetter(taskId: string, data?: Partial<T>): void {
+    const deadLetterStore = usePersistenceDeadLetterStore()
+    const entry = deadLetterStore.get(taskId)
+    if (!entry) {
+      console.warn(`[PersistenceOrchestrator] No dead-letter task ${taskId}`)
+      return
+    }
+    deadLetterStore.remove(taskId)
+
+    const failed = entry.task as PersistenceTask<T>
+    const now = getClock().now()
+    // Rejouée seule, la tâche ne fait plus partie de sa transaction
+    // Sans correction, la clé d'idempotence est conservée (une tentative a pu être appliquée)
+    const task: PersistenceTask<T> = {
+      ...failed,
+      idempotencyKey: data === undefined && failed.idempotencyKey ? failed.idempotencyKey : createIdempotencyKey(),
+      transactionId: undefined,
+      createdAt: now,
+      expiresAt: failed.maxAge ? now + failed.maxAge : undefined,
+      retryAt: undefined,
+      retryDelay: undefined,
+      conflict: undefined,
+      payload: {
+        data: data === undefined ? failed.payload.data : { ...failed.payload.data, ...data },
+        metadata: resetMetadataForReplay(failed.payload.metadata)
+      }
+    }
+    task.dependsOn = this.resolveDependencies(task)
+
+    this.enqueueTask(task)
+  }
+
   /**
    * Exécute la stratégie selon l'opération (méthode extraite)
    * @private
@@ -136,11 +787,11 @@ export class PersistenceOrchestrator<T = unknown> {
   ): Promise<PersistableEntity<T>> {
     switch (task.operation) {
       case 'create':
-        return await strategy.persistCreate(task.payload)
+        return await strategy.persistCreate(task.payload, { idempotencyKey: task.idempotencyKey })
       case 'update':
-        return await strategy.persistUpdate(task.payload)
+        return await strategy.persistUpdate(task.payload, { idempotencyKey: task.idempotencyKey })
       case 'delete':
-        await strategy.persistDelete(task.payload.metadata.frontId, task.entityType)
+        await strategy.persistDelete(task.payload.metadata.frontId, task.entityType, { idempotencyKey: task.idempotencyKey })
         return task.payload
       default:
         throw new Error(`Unknown operation: ${task.operation}`)
@@ -171,6 +822,19 @@ export class PersistenceOrchestrator<T = unknown> {
     task: PersistenceTask<T>,
     persisted: PersistableEntity<T>
   ): void {
+    if (task.transactionId) {
+      this.settleTransactionTask(task, persisted)
+    }
+    if (task.operation === 'delete') {
+      usePersistenceEntitySyncStore().remove(task.entityType, task.payload.metadata.frontId)
+    } else {
+      this.propagateVersion(task, persisted)
+      this.updateEntitySyncState(task, {
+        syncStatus: this.hasOtherPendingTasks(task) ? 'pending' : 'synced',
+        backendId: persisted.metadata.backendId,
+        lastSyncAt: persisted.metadata.lastSyncAt
+      })
+    }
     this.eventBus.emit(PERSISTENCE_EVENTS.PERSISTED, {
       entityType: task.entityType,
       original: task.payload,
@@ -179,12 +843,41 @@ export class PersistenceOrchestrator<T = unknown> {
     this.eventBus.emit(QUEUE_EVENTS.TASK_COMPLETED, { task })
   }
 
+  /**
+   * Reporte la version (et le backendId) persistée sur les tâches en attente de la même entité
+   * Une modification faite pendant l'envoi de la précédente a été mise en queue avec l'ancienne version :
+   * envoyée telle quelle, elle serait rejetée comme un conflit avec la propre écriture de l'utilisateur
+   * Les tâches en conflit gardent la version sur laquelle l'utilisateur doit trancher
+   * @private
+   */
+  private propagateVersion(task: PersistenceTask<T>, persisted: PersistableEntity<T>): void {
+    const { version, backendId } = persisted.metadata
+    if (version === undefined && !backendId) return
+
+    const key = getTaskEntityKey(task)
+    for (const pending of this.queue.getPendingTasks()) {
+      if (pending.id === task.id || pending.conflict || getTaskEntityKey(pending) !== key) continue
+      this.queue.updateTask(pending.id, {
+        payload: {
+          ...pending.payload,
+          metadata: {
+            ...pending.payload.metadata,
+            version: version ?? pending.payload.metadata.version,
+            backendId: backendId || pending.payload.metadata.backendId
+          }
+        }
+      })
+    }
+  }
+
   /**
    * Gère les erreurs (méthode extraite)
    * @private
    */
   private handleError(task: PersistenceTask<T>, error: unknown): void {
-    task.payload.metadata = updateMetadataOnError(task.payload.metadata, error)
+    // Le retry est compté par la queue, selon sa décision (cf. PersistedQueueManager)
+    task.payload.metadata = updateMetadataOnAttemptError(task.payload.metadata, error)
+    this.updateEntitySyncState(task, { syncStatus: 'error', error: this.toSerializableError(error) })
 
     const errorEvent = this.getErrorEventName(task.operation)
     this.eventBus.emit(errorEvent, {
@@ -196,6 +889,42 @@ export class PersistenceOrchestrator<T = unknown> {
     this.eventBus.emit(QUEUE_EVENTS.TASK_FAILED, { task, error })
   }
 
+  /**
+   * Met à jour l'état de synchronisation de l'entité d'une tâche (registre lu par l'UI)
+   * Une entité synchronisée n'a plus de tâche en attente : elle est retirée du registre
+   * @private
+   */
+  private updateEntitySyncState(
+    task: PersistenceTask<T>,
+    update: Partial<Omit<EntitySyncState, 'entityType' | 'frontId' | 'updatedAt'>>
+  ): void {
+    const store = usePersistenceEntitySyncStore()
+    if (update.syncStatus === 'synced') {
+      store.remove(task.entityType, task.payload.metadata.frontId)
+      return
+    }
+    store.set(task.entityType, task.payload.metadata.frontId, update)
+  }
+
+  /**
+   * Indique si d'autres tâches de la même entité restent en queue
+   * @private
+   */
+  private hasOtherPendingTasks(task: PersistenceTask<T>): boolean {
+    const key = getTaskEntityKey(task)
+    return this.queue.getPendingTasks().some(t => t.id !== task.id && getTaskEntityKey(t) === key)
+  }
+
+  /**
+   * Réduit une erreur à son analyse sérialisable (stockée dans localStorage)
+   * @private
+   */
+  private toSerializableError(error: unknown): DeadLetterError | undefined {
+    if (error === undefined) return undefined
+    const { code, httpStatus, message } = analyzeError(error)
+    return { code, httpStatus, message }
+  }
+
   /**
    * Mapping des opérations vers les événements d'erreur
    * @private
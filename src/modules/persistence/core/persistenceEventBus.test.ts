@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS } from './events'
+import { PersistenceEventBus } from './persistenceEventBus'
+import type { PersistenceEvents } from './types'
+
+/**
+ * Event bus qui enregistre les transactions et les créations émises hors transaction
+ */
+function setup() {
+  const eventBus = new PersistenceEventBus()
+  const transactions: Array<PersistenceEvents['entity:transaction']> = []
+  const created: string[] = []
+  eventBus.on(ENTITY_EVENTS.TRANSACTION, payload => { transactions.push(payload) })
+  eventBus.on(ENTITY_EVENTS.CREATED, ({ data }) => { created.push((data as { frontId: string }).frontId) })
+  const create = (frontId: string) => eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'note', data: { frontId } })
+  return { eventBus, transactions, created, create }
+}
+
+describe('PersistenceEventBus.transaction', () => {
+  it('emits the entity events of a transaction together, in order', () => {
+    const { eventBus, transactions, created, create } = setup()
+
+    const result = eventBus.transaction(() => {
+      create('n1')
+      eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'tag', id: 't1' })
+      return 'done'
+    }, 'previous-transaction')
+
+    expect(result).toBe('done')
+    expect(created).toEqual([])
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0].reverts).toBe('previous-transaction')
+    expect(transactions[0].events.map(({ event }) => event)).toEqual([ENTITY_EVENTS.CREATED, ENTITY_EVENTS.DELETED])
+  })
+
+  it('emits a single event as is and other events immediately', () => {
+    const { eventBus, transactions, created, create } = setup()
+    const states: unknown[] = []
+    eventBus.on(PERSISTENCE_EVENTS.STATE_RESET, payload => { states.push(payload) })
+
+    eventBus.transaction(() => {
+      create('n1')
+      eventBus.emit(PERSISTENCE_EVENTS.STATE_RESET, {})
+      expect(states).toHaveLength(1)
+    })
+
+    expect(created).toEqual(['n1'])
+    expect(transactions).toEqual([])
+  })
+
+  it('joins a nested transaction to the enclosing one', () => {
+    const { eventBus, transactions, create } = setup()
+
+    eventBus.transaction(() => {
+      create('n1')
+      eventBus.transaction(() => create('n2'))
+      create('n3')
+    })
+
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0].events).toHaveLength(3)
+  })
+
+  it('still persists the changes made before an error, then rethrows it', () => {
+    const { eventBus, transactions, create } = setup()
+
+    expect(() => eventBus.transaction(() => {
+      create('n1')
+      create('n2')
+      throw new Error('Invalid note')
+    })).toThrow('Invalid note')
+
+    expect(transactions).toHaveLength(1)
+    expect(transactions[0].events).toHaveLength(2)
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Event bus du système de persistance, avec regroupement des événements en transactions
+ * Une action utilisateur peut produire plusieurs événements d'entité
+ * (ex: supprimer un tag et le retirer de toutes les notes) :
+ * émis dans transaction(), ils deviennent une seule unité de persistance
+ */
+
+import { EventBus } from './eventBus'
+import type { PersistenceEvents, TransactionEvent } from './types'
+import { ENTITY_EVENTS } from './events'
+import { getClock } from './clock'
+
+/**
+ * Événements d'entité regroupés par une transaction
+ */
+const TRANSACTIONAL_EVENTS: ReadonlyArray<string> = [
+  ENTITY_EVENTS.CREATED,
+  ENTITY_EVENTS.UPDATED,
+  ENTITY_EVENTS.DELETED
+]
+
+/**
+ * Génère un identifiant de transaction
+ */
+function createTransactionId(): string {
+  return `tx-${getClock().now()}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+/**
+ * Event bus de persistance
+ * Hors transaction, il se comporte exactement comme EventBus
+ */
+export class PersistenceEventBus<T = unknown> extends EventBus<PersistenceEvents<T>> {
+  private collected: TransactionEvent<T>[] | null = null
+
+  /**
+   * Émet un événement, ou le met de côté si une transaction est en cours
+   */
+  emit<K extends keyof PersistenceEvents<T>>(event: K, payload: PersistenceEvents<T>[K]): void {
+    if (this.collected && TRANSACTIONAL_EVENTS.includes(event as string)) {
+      this.collected.push({ event, payload } as TransactionEvent<T>)
+      return
+    }
+    super.emit(event, payload)
+  }
+
+  /**
+   * Regroupe les événements d'entité émis pendant fn en une seule transaction
+   * Les tâches de la transaction sont traitées dans l'ordre, retentées, mises en dead-letter
+   * et annulées ensemble (les tâches déjà persistées sont alors compensées)
+   *
+   * - fn doit être synchrone (les mutations des stores le sont)
+   * - une transaction imbriquée rejoint la transaction englobante
+   * - si fn lève une erreur, les modifications déjà appliquées au store sont tout de même
+   *   persistées ensemble, puis l'erreur est relancée
+   *
+   * @param reverts - Transaction défaite par celle-ci (historique d'annulation) : si aucune de ses tâches
+   *   n'est partie, elle est retirée de la queue au lieu d'envoyer les opérations inverses
+   * @returns La valeur retournée par fn
+   */
+  transaction<R>(fn: () => R, reverts?: string): R {
+    if (this.collected) {
+      return fn()
+    }
+
+    const events: TransactionEvent<T>[] = []
+    this.collected = events
+    try {
+      return fn()
+    } finally {
+      this.collected = null
+      this.commit(events, reverts)
+    }
+  }
+
+  /**
+   * Émet les événements collectés (un seul événement n'a pas besoin de transaction)
+   * @private
+   */
+  private commit(events: TransactionEvent<T>[], reverts?: string): void {
+    if (events.length === 0) return
+    if (events.length === 1) {
+      const [{ event, payload }] = events
+      super.emit(event, payload as PersistenceEvents<T>[typeof event])
+      return
+    }
+    super.emit(ENTITY_EVENTS.TRANSACTION, { transactionId: createTransactionId(), events, ...(reverts ? { reverts } : {}) })
+  }
+}
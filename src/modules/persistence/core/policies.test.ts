@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { resolveTaskPolicy, type PersistencePolicies } from './policies'
+import { DEFAULT_RETRY_CONFIG, DEFAULT_RETRY_POLICY } from './retryManager'
+import { TaskPriority } from './types'
+
+const policies: PersistencePolicies = {
+  note: {
+    priority: TaskPriority.HIGH,
+    maxAge: 60_000,
+    retryConfig: { maxRetries: 5, policy: { nonRetryableStatuses: [400] } },
+    operations: {
+      delete: {
+        priority: TaskPriority.LOW,
+        onPermanentFailure: 'keep',
+        retryConfig: { initialDelay: 10 }
+      }
+    }
+  }
+}
+
+describe('resolveTaskPolicy', () => {
+  it('falls back to the global configuration', () => {
+    expect(resolveTaskPolicy(policies, DEFAULT_RETRY_CONFIG, 'tag', 'create')).toEqual({
+      priority: undefined,
+      maxAge: undefined,
+      onPermanentFailure: 'rollback',
+      retryConfig: { ...DEFAULT_RETRY_CONFIG, policy: {} }
+    })
+  })
+
+  it('applies the entity policy', () => {
+    const policy = resolveTaskPolicy(policies, DEFAULT_RETRY_CONFIG, 'note', 'update')
+
+    expect(policy).toMatchObject({ priority: TaskPriority.HIGH, maxAge: 60_000, onPermanentFailure: 'rollback' })
+    expect(policy.retryConfig).toMatchObject({ maxRetries: 5, initialDelay: DEFAULT_RETRY_CONFIG.initialDelay })
+  })
+
+  it('lets the operation policy override the entity policy field by field', () => {
+    const policy = resolveTaskPolicy(
+      policies,
+      { ...DEFAULT_RETRY_CONFIG, policy: DEFAULT_RETRY_POLICY },
+      'note',
+      'delete'
+    )
+
+    expect(policy).toMatchObject({ priority: TaskPriority.LOW, maxAge: 60_000, onPermanentFailure: 'keep' })
+    expect(policy.retryConfig).toMatchObject({ maxRetries: 5, initialDelay: 10 })
+    expect(policy.retryConfig.policy).toEqual({ ...DEFAULT_RETRY_POLICY, nonRetryableStatuses: [400] })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Politiques de persistance par type d'entité et par opération
+ * Permet de faire varier priorité, retry, durée de vie des tâches et comportement en échec définitif
+ * (ex: créations de tags prioritaires, suppressions expirées après un jour)
+ * Code pur, sans dépendances externes
+ */
+
+import type { PersistenceOperation, TaskPriority } from './types'
+import type { RetryConfig } from './retryManager'
+
+/**
+ * Comportement quand une tâche échoue définitivement (dead-letter)
+ * - rollback : la modification optimiste est annulée dans le store (SyncAdapter.rollback)
+ * - keep : la modification est conservée localement et l'entité reste marquée non synchronisée
+ */
+export type PermanentFailureBehavior = 'rollback' | 'keep'
+
+/**
+ * Politique appliquée à une tâche
+ */
+export interface TaskPolicy {
+  /**
+   * Priorité de la tâche dans la queue (défaut: TaskPriority.NORMAL)
+   */
+  priority?: TaskPriority
+
+  /**
+   * Surcharge de la configuration de retry globale
+   */
+  retryConfig?: Partial<RetryConfig>
+
+  /**
+   * Durée de vie de la tâche en ms : au-delà, elle expire (expiresAt = createdAt + maxAge)
+   */
+  maxAge?: number
+
+  /**
+   * Comportement en échec définitif (défaut: 'rollback')
+   */
+  onPermanentFailure?: PermanentFailureBehavior
+}
+
+/**
+ * Politique d'un type d'entité, avec des surcharges optionnelles par opération
+ */
+export interface EntityPolicy extends TaskPolicy {
+  operations?: Partial<Record<PersistenceOperation, TaskPolicy>>
+}
+
+/**
+ * Politiques par type d'entité
+ */
+export interface PersistencePolicies {
+  [entityType: string]: EntityPolicy
+}
+
+/**
+ * Politique résolue d'une tâche (la configuration de retry est complète)
+ */
+export interface ResolvedTaskPolicy {
+  priority?: TaskPriority
+  retryConfig: RetryConfig
+  maxAge?: number
+  onPermanentFailure: PermanentFailureBehavior
+}
+
+/**
+ * Résout la politique d'une tâche (PURE)
+ * Ordre de priorité : opération > type d'entité > configuration globale
+ *
+ * @param policies - Politiques par type d'entité
+ * @param defaultRetryConfig - Configuration de retry globale
+ * @param entityType - Type d'entité de la tâche
+ * @param operation - Opération de la tâche
+ */
+export function resolveTaskPolicy(
+  policies: PersistencePolicies,
+  defaultRetryConfig: RetryConfig,
+  entityType: string,
+  operation: PersistenceOperation
+): ResolvedTaskPolicy {
+  const entityPolicy = policies[entityType] ?? {}
+  const operationPolicy = entityPolicy.operations?.[operation] ?? {}
+
+  return {
+    priority: operationPolicy.priority ?? entityPolicy.priority,
+    maxAge: operationPolicy.maxAge ?? entityPolicy.maxAge,
+    onPermanentFailure: operationPolicy.onPermanentFailure ?? entityPolicy.onPermanentFailure ?? 'rollback',
+    retryConfig: {
+      ...defaultRetryConfig,
+      ...entityPolicy.retryConfig,
+      ...operationPolicy.retryConfig,
+      policy: {
+        ...defaultRetryConfig.policy,
+        ...entityPolicy.retryConfig?.policy,
+        ...operationPolicy.retryConfig?.policy
+      }
+    }
+  }
+}
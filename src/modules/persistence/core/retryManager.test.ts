@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { RetryManager, calculateRetryDelay, parseRetryAfter, DEFAULT_RETRY_CONFIG } from './retryManager'
+
+/**
+ * Erreur HTTP au format axios
+ */
+function httpError(status: number, headers: Record<string, string> = {}) {
+  return { response: { status, headers } }
+}
+
+const NOW = 1_000_000
+
+describe('RetryManager.decide', () => {
+  const retryManager = new RetryManager({ maxRetries: 3 })
+  const task = { id: 'task-1', retryCount: 0, maxRetries: 3 }
+
+  it('retries server and network errors', () => {
+    expect(retryManager.decide(httpError(500), task, NOW)).toEqual({ action: 'retry' })
+    expect(retryManager.decide({ code: 'ERR_NETWORK' }, task, NOW)).toEqual({ action: 'retry' })
+  })
+
+  it('fails request errors without retrying', () => {
+    expect(retryManager.decide(httpError(422), task, NOW)).toEqual({ action: 'fail', reason: 'non-retryable' })
+  })
+
+  it('pauses on authentication errors, even once retries are exhausted', () => {
+    expect(retryManager.decide(httpError(401), { ...task, retryCount: 3 }, NOW)).toEqual({ action: 'pause-auth' })
+  })
+
+  it('fails once the retry count reaches maxRetries', () => {
+    expect(retryManager.decide(httpError(500), { ...task, retryCount: 2 }, NOW)).toEqual({ action: 'retry' })
+    expect(retryManager.decide(httpError(500), { ...task, retryCount: 3 }, NOW)).toEqual({ action: 'fail', reason: 'max-retries' })
+  })
+
+  it('fails expired tasks before looking at the error', () => {
+    expect(retryManager.decide(httpError(401), { ...task, expiresAt: NOW - 1 }, NOW)).toEqual({ action: 'fail', reason: 'expired' })
+  })
+
+  it('honors Retry-After on rate limiting', () => {
+    expect(retryManager.decide(httpError(429, { 'retry-after': '120' }), task, NOW)).toEqual({ action: 'retry', delay: 120000 })
+    // Retry-After ignoré hors des statuts configurés : backoff
+    expect(retryManager.decide(httpError(500, { 'retry-after': '120' }), task, NOW)).toEqual({ action: 'retry' })
+  })
+
+  it('uses the configured policy', () => {
+    const noAuth = new RetryManager({ policy: { authStatuses: [] } })
+
+    expect(noAuth.decide(httpError(401), task, NOW)).toEqual({ action: 'retry' })
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('accepts seconds and HTTP dates', () => {
+    expect(parseRetryAfter('30', NOW)).toBe(30000)
+    expect(parseRetryAfter(new Date(NOW + 5000).toUTCString(), NOW)).toBe(5000)
+    expect(parseRetryAfter('soon', NOW)).toBeUndefined()
+  })
+})
+
+describe('calculateRetryDelay', () => {
+  const config = { ...DEFAULT_RETRY_CONFIG, initialDelay: 1000, multiplier: 4, maxDelay: 10000, jitter: 'none' as const }
+
+  it('grows exponentially from the first retry and is capped by maxDelay', () => {
+    expect([0, 1, 2, 3].map(retryCount => calculateRetryDelay(retryCount, config))).toEqual([0, 1000, 4000, 10000])
+  })
+
+  it('applies full jitter with the injected random source', () => {
+    expect(calculateRetryDelay(2, { ...config, jitter: 'full' }, undefined, () => 0.5)).toBe(2000)
+  })
+
+  it('draws a decorrelated delay from the previous applied delay', () => {
+    const decorrelated = { ...config, jitter: 'decorrelated' as const }
+
+    expect(calculateRetryDelay(1, decorrelated, undefined, () => 1)).toBe(3000)
+    expect(calculateRetryDelay(2, decorrelated, 3000, () => 0.5)).toBe(5000)
+    expect(calculateRetryDelay(3, decorrelated, 5000, () => 1)).toBe(10000)
+  })
+})
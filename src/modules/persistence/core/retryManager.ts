@@ -4,7 +4,46 @@
  */
 
 import type { PersistenceTask } from './types'
-import { RETRY_DEFAULTS } from './constants'
+import { RETRY_DEFAULTS, RETRY_POLICY_DEFAULTS } from './constants'
+import { getClock } from './clock'
+
+/**
+ * Politique de retry selon la classe d'erreur (statut HTTP)
+ */
+export interface RetryPolicy {
+  /**
+   * Statuts jamais retentés : la tâche part directement en échec définitif
+   */
+  nonRetryableStatuses: ReadonlyArray<number>
+
+  /**
+   * Statuts pour lesquels le délai de l'en-tête Retry-After remplace le backoff
+   */
+  retryAfterStatuses: ReadonlyArray<number>
+
+  /**
+   * Statuts d'authentification : la tentative n'est pas comptée et la queue est suspendue
+   * jusqu'à la reconnexion de l'utilisateur
+   */
+  authStatuses: ReadonlyArray<number>
+}
+
+/**
+ * Politique de retry par défaut
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  nonRetryableStatuses: RETRY_POLICY_DEFAULTS.NON_RETRYABLE_STATUSES,
+  retryAfterStatuses: RETRY_POLICY_DEFAULTS.RETRY_AFTER_STATUSES,
+  authStatuses: RETRY_POLICY_DEFAULTS.AUTH_STATUSES
+}
+
+/**
+ * Stratégie de jitter appliquée au backoff
+ * - none : délai exact (tous les clients retentent au même moment)
+ * - full : délai aléatoire entre 0 et le délai exponentiel
+ * - decorrelated : délai aléatoire entre initialDelay et 3× le délai réellement appliqué au retry précédent
+ */
+export type RetryJitter = 'none' | 'full' | 'decorrelated'
 
 /**
  * Configuration du retry avec backoff exponentiel
@@ -37,6 +76,17 @@ export interface RetryConfig {
    * Limite le délai maximum entre deux tentatives
    */
   maxDelay?: number
+
+  /**
+   * Jitter appliqué au délai (défaut: 'none')
+   * Évite que tous les clients retentent en même temps après une panne du backend
+   */
+  jitter?: RetryJitter
+
+  /**
+   * Politique selon la classe d'erreur (défaut: DEFAULT_RETRY_POLICY)
+   */
+  policy?: Partial<RetryPolicy>
 }
 
 /**
@@ -51,29 +101,63 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
 }
 
 /**
- * Résultat de l'analyse d'une erreur (pour logging uniquement)
+ * Résultat de l'analyse d'une erreur
+ * Utilisé pour le logging et par la politique de retry (statut HTTP, Retry-After)
  */
 export interface ErrorAnalysis {
   error: unknown
   httpStatus?: number
   code?: string
   message?: string
+  /**
+   * Délai demandé par le serveur via l'en-tête Retry-After (en ms)
+   */
+  retryAfterMs?: number
 }
 
 /**
- * Analyse une erreur pour extraire des informations utiles au logging
- * Ne détermine pas si l'erreur est récupérable (toujours géré par shouldRetry)
+ * Décision de la politique de retry pour une tâche en erreur
+ * - retry : nouvelle tentative, après delay si le serveur l'impose (Retry-After), sinon backoff
+ * - fail : échec définitif (expirée, max retries atteint ou erreur non récupérable)
+ * - pause-auth : la tentative n'est pas comptée, la queue attend la reconnexion
  */
-export function analyzeError(error: unknown): ErrorAnalysis {
+export type RetryDecision =
+  | { action: 'retry'; delay?: number }
+  | { action: 'fail'; reason: 'expired' | 'max-retries' | 'non-retryable' }
+  | { action: 'pause-auth' }
+
+/**
+ * Convertit la valeur d'un en-tête Retry-After en délai (PURE)
+ * Accepte un nombre de secondes ou une date HTTP
+ */
+export function parseRetryAfter(value: unknown, now: number = getClock().now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Analyse une erreur pour extraire le statut HTTP, le code et le Retry-After éventuel
+ * La décision de retry est prise par RetryManager.decide à partir de cette analyse
+ */
+export function analyzeError(error: unknown, now: number = getClock().now()): ErrorAnalysis {
   // On catégorise les erreurs pour le logging et le debugging
   let code = 'UNKNOWN_ERROR'
   let httpStatus: number | undefined
+  let retryAfterMs: number | undefined
   
   if (error && typeof error === 'object') {
     // Erreur Axios avec response
     if ('response' in error) {
       const axiosError = error as any
       httpStatus = axiosError.response?.status
+      retryAfterMs = parseRetryAfter(axiosError.response?.headers?.['retry-after'], now)
       
       if (httpStatus) {
         if (httpStatus >= 500) {
@@ -107,12 +191,21 @@ export function analyzeError(error: unknown): ErrorAnalysis {
     error,
     code,
     httpStatus,
+    retryAfterMs,
     message: error instanceof Error ? error.message : String(error)
   }
 }
 
 /**
- * Calcule le délai de retry avec backoff exponentiel
+ * Indique si une erreur est due à l'absence de réseau (aucune réponse du serveur)
+ * Ces erreurs ne reflètent pas un problème de la tâche elle-même
+ */
+export function isNetworkError(error: unknown): boolean {
+  return analyzeError(error).code === 'NETWORK_ERROR'
+}
+
+/**
+ * Calcule le délai de retry avec backoff exponentiel, puis applique le jitter configuré
  * 
  * Formule : delay = initialDelay × multiplier^(retryCount-1)
  * - retryCount = 1 => delay = initialDelay × multiplier^0 = initialDelay
@@ -125,24 +218,40 @@ export function analyzeError(error: unknown): ErrorAnalysis {
  * - retryCount = 3 => delay = 30000 × 4^2 = 480000 (8min)
  * 
  * Le délai est limité à maxDelay si défini
+ *
+ * Jitter (random injectable pour les tests) :
+ * - full : random(0, delay)
+ * - decorrelated : random(initialDelay, 3 × délai précédent), limité à maxDelay
+ *   Le délai précédent est celui réellement appliqué (jitter compris), conservé sur la tâche (retryDelay) ;
+ *   sans délai précédent (premier retry), initialDelay
+ *
+ * @param previousDelay - Délai appliqué au retry précédent (jitter 'decorrelated')
  */
 export function calculateRetryDelay(
   retryCount: number,
-  config: RetryConfig = DEFAULT_RETRY_CONFIG
+  config: RetryConfig = DEFAULT_RETRY_CONFIG,
+  previousDelay?: number,
+  random: () => number = Math.random
 ): number {
   if (retryCount === 0) {
     return 0
   }
 
+  const cap = (delay: number) => config.maxDelay !== undefined ? Math.min(delay, config.maxDelay) : delay
+
   // Backoff exponentiel : delay = initialDelay × multiplier^(retryCount-1)
-  const delay = config.initialDelay * Math.pow(config.multiplier, retryCount - 1)
+  const delay = cap(config.initialDelay * Math.pow(config.multiplier, retryCount - 1))
 
-  // Limiter au maxDelay si défini
-  if (config.maxDelay !== undefined) {
-    return Math.min(delay, config.maxDelay)
+  switch (config.jitter) {
+    case 'full':
+      return Math.round(random() * delay)
+    case 'decorrelated': {
+      const upper = Math.max(config.initialDelay, (previousDelay ?? config.initialDelay) * 3)
+      return Math.round(cap(config.initialDelay + random() * (upper - config.initialDelay)))
+    }
+    default:
+      return delay
   }
-
-  return delay
 }
 
 /**
@@ -159,23 +268,38 @@ type TaskWithRetryInfo = Pick<PersistenceTask, 'id' | 'expiresAt'> & {
  */
 export class RetryManager {
   private config: RetryConfig
+  private policy: RetryPolicy
 
   constructor(config?: RetryConfig | Partial<RetryConfig>) {
     this.config = { ...DEFAULT_RETRY_CONFIG, ...(config || {}) }
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...(this.config.policy || {}) }
   }
 
   /**
-   * Détermine si une tâche doit être retentée
+   * Décide du sort d'une tâche en erreur selon la classe d'erreur
    * Accepte soit PersistenceTask soit un objet avec retryCount/maxRetries depuis les métadonnées
    */
-  shouldRetry(error: unknown, task: TaskWithRetryInfo): boolean {
+  decide(error: unknown, task: TaskWithRetryInfo, now: number = getClock().now()): RetryDecision {
     // 1. Vérifier l'expiration de la tâche
-    if (task.expiresAt && Date.now() > task.expiresAt) {
+    if (task.expiresAt && now > task.expiresAt) {
       console.log(`[RetryManager] Task ${task.id} expired, not retrying`)
-      return false
+      return { action: 'fail', reason: 'expired' }
+    }
+
+    const { httpStatus, retryAfterMs } = analyzeError(error, now)
+
+    // 2. Authentification expirée : ce n'est pas la faute de la tâche, on attend la reconnexion
+    if (httpStatus !== undefined && this.policy.authStatuses.includes(httpStatus)) {
+      return { action: 'pause-auth' }
+    }
+
+    // 3. Erreur de la requête elle-même (validation, ressource absente) : inutile de réessayer
+    if (httpStatus !== undefined && this.policy.nonRetryableStatuses.includes(httpStatus)) {
+      console.log(`[RetryManager] Task ${task.id} got non-retryable status ${httpStatus}`)
+      return { action: 'fail', reason: 'non-retryable' }
     }
 
-    // 2. Limiter le nombre total de tentatives
+    // 4. Limiter le nombre total de tentatives
     // retryCount = 0 : première tentative
     // retryCount = 1 : deuxième tentative (1er retry)
     // retryCount = 2 : troisième tentative (2ème retry)
@@ -183,18 +307,31 @@ export class RetryManager {
     // Donc pour 3 tentatives max, on s'arrête quand retryCount >= 3
     if (task.retryCount >= task.maxRetries) {
       console.log(`[RetryManager] Task ${task.id} reached max retries (${task.maxRetries}), not retrying`)
-      return false
+      return { action: 'fail', reason: 'max-retries' }
     }
 
-    return true
+    // 5. Le serveur impose un délai (rate limiting, maintenance)
+    if (httpStatus !== undefined && retryAfterMs !== undefined && this.policy.retryAfterStatuses.includes(httpStatus)) {
+      return { action: 'retry', delay: retryAfterMs }
+    }
+
+    return { action: 'retry' }
+  }
+
+  /**
+   * Détermine si une tâche doit être retentée
+   * Raccourci de decide() : seule l'action 'retry' retourne true
+   */
+  shouldRetry(error: unknown, task: TaskWithRetryInfo, now: number = getClock().now()): boolean {
+    return this.decide(error, task, now).action === 'retry'
   }
 
   /**
    * Calcule le délai avant le prochain retry
    * Accepte soit PersistenceTask soit un objet avec retryCount depuis les métadonnées
    */
-  calculateDelay(task: Pick<PersistenceTask, 'id'> & { retryCount: number }): number {
-    return calculateRetryDelay(task.retryCount, this.config)
+  calculateDelay(task: Pick<PersistenceTask, 'id' | 'retryDelay'> & { retryCount: number }): number {
+    return calculateRetryDelay(task.retryCount, this.config, task.retryDelay)
   }
 
   /**
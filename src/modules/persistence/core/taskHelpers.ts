@@ -7,15 +7,36 @@
 import type { PersistenceTask, PersistableEntity, PersistenceOperation } from './types'
 import { TaskPriority } from './types'
 import { createMetadata } from './metadata'
+import { getClock } from './clock'
 
 /**
  * Options pour la création d'une tâche
  */
-export interface CreateTaskOptions {
+export interface CreateTaskOptions<T = unknown> {
   priority?: number
   expiresAt?: number
   maxAge?: number
   retryAt?: number
+  dependsOn?: string[]
+  /**
+   * Version connue de l'entité (optimistic locking), envoyée par la stratégie
+   */
+  version?: number
+  /**
+   * Version de l'entité avant la modification locale (annulation en cas d'échec définitif)
+   */
+  previous?: T
+}
+
+/**
+ * Génère une clé d'idempotence unique
+ * Utilise crypto.randomUUID quand il est disponible (contexte sécurisé)
+ */
+export function createIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID()
+  }
+  return `idem-${getClock().now()}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`
 }
 
 /**
@@ -35,7 +56,7 @@ export function createTask<T = unknown>(
   data: T | Partial<T>,
   id: string,
   maxRetries: number,
-  options: CreateTaskOptions = {}
+  options: CreateTaskOptions<T> = {}
 ): PersistenceTask<T> {
   // Pour create, extraire le frontId depuis les données si disponible
   const frontId = operation === 'create' 
@@ -43,7 +64,7 @@ export function createTask<T = unknown>(
     : id
 
   // Créer les métadonnées
-  const metadata = createMetadata(frontId, { maxRetries })
+  const metadata = createMetadata(frontId, { maxRetries, version: options.version })
 
   // Créer l'entité
   // Pour delete, on n'a pas besoin de données
@@ -54,7 +75,7 @@ export function createTask<T = unknown>(
   }
 
   // Créer la tâche
-  const timestamp = Date.now()
+  const timestamp = getClock().now()
   return {
     id: `${operation}-${entityType}-${frontId}-${timestamp}`,
     entityType,
@@ -62,9 +83,13 @@ export function createTask<T = unknown>(
     payload: entity,
     priority: options.priority ?? TaskPriority.NORMAL,
     createdAt: timestamp,
-    expiresAt: options.expiresAt,
+    // expiresAt est calculé dès la création si seul maxAge est fourni
+    expiresAt: options.expiresAt ?? (options.maxAge ? timestamp + options.maxAge : undefined),
     maxAge: options.maxAge,
-    retryAt: options.retryAt
+    retryAt: options.retryAt,
+    dependsOn: options.dependsOn && options.dependsOn.length > 0 ? options.dependsOn : undefined,
+    previous: options.previous,
+    idempotencyKey: createIdempotencyKey()
   }
 }
 
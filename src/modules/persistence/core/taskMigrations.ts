@@ -0,0 +1,32 @@
+/**
+ * Migrations du schéma des tâches de la queue (clé SCHEMA_DEFAULTS.QUEUE_KEY)
+ * Enregistrées par défaut dans le registre global : les migrations de l'application
+ * pour la queue commencent à la version suivant la dernière migration listée ici
+ * Code pur, sans dépendances externes
+ */
+
+import type { Migration } from './migrations'
+
+/**
+ * v1 → v2 : clé d'idempotence et marque de première tentative (PURE)
+ * Une tâche stockée avant l'introduction des clés reçoit son identifiant comme clé (stable et unique) ;
+ * elle est considérée comme tentée si elle a déjà été envoyée (lastSyncAt)
+ */
+const addIdempotencyKey: Migration = data => {
+  const task = data as Record<string, any>
+  if (!task || typeof task !== 'object' || typeof task.id !== 'string') {
+    throw new Error('Task has no id')
+  }
+  return {
+    ...task,
+    idempotencyKey: typeof task.idempotencyKey === 'string' ? task.idempotencyKey : task.id,
+    attemptedAt: task.attemptedAt ?? task.payload?.metadata?.lastSyncAt
+  }
+}
+
+/**
+ * Migrations des tâches, dans l'ordre (index 0 : v1 → v2)
+ */
+export const TASK_MIGRATIONS: ReadonlyArray<Migration> = [
+  addIdempotencyKey
+]
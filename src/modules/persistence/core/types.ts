@@ -3,6 +3,8 @@
  * Respecte le principe SOC en étant complètement découplé des entités métier
  */
 
+import type { CircuitStateChange } from './circuitBreaker'
+
 /**
  * Statut de synchronisation d'une entité
  */
@@ -77,23 +79,231 @@ export interface PersistenceTask<T = unknown> {
    * Utilisé pour implémenter le backoff exponentiel de manière non-bloquante
    */
   retryAt?: number
+  /**
+   * Délai du dernier retry planifié en ms (optionnel)
+   * Le jitter 'decorrelated' calcule le délai suivant à partir de celui-ci
+   */
+  retryDelay?: number
+  /**
+   * Identifiants des tâches dont celle-ci dépend (optionnel)
+   * La tâche ne sera traitée qu'une fois toutes ses dépendances terminées (retirées de la queue)
+   * Si une dépendance échoue définitivement, la tâche échoue aussi
+   */
+  dependsOn?: string[]
+  /**
+   * Conflit détecté lors de la persistance (optionnel)
+   * Tant que le conflit n'est pas résolu, la tâche reste en queue sans être traitée
+   */
+  conflict?: TaskConflict<T>
+  /**
+   * Version de l'entité avant la modification locale (optionnel, fournie par le store)
+   * Permet d'annuler la modification optimiste si la tâche échoue définitivement
+   * Absente pour un create : l'annulation retire l'entité du store
+   */
+  previous?: T
+  /**
+   * Identifiant de la transaction dont la tâche fait partie (optionnel, cf. PersistenceEventBus.transaction)
+   * Les tâches d'une transaction sont traitées dans l'ordre et échouent ou sont annulées ensemble
+   */
+  transactionId?: string
+  /**
+   * Clé d'idempotence, stable entre les tentatives (générée par createTask)
+   * Envoyée par les stratégies (ex: header Idempotency-Key) : le backend reconnaît une requête
+   * déjà appliquée lors d'une tentative précédente (ex: timeout après succès côté serveur)
+   */
+  idempotencyKey: string
+  /**
+   * Timestamp de la première tentative d'envoi (optionnel)
+   * Une tâche déjà tentée n'est plus modifiée par la compaction : son contenu doit rester
+   * celui associé à sa clé d'idempotence
+   */
+  attemptedAt?: number
+}
+
+/**
+ * Conflit entre la version locale d'une tâche et la version distante
+ */
+export interface TaskConflict<T = unknown> {
+  remote?: T
+  remoteVersion?: number
+  detectedAt: number
+}
+
+/**
+ * Choix de résolution d'un conflit
+ * - local : la version locale (ou data si fournie) écrase la version distante
+ * - remote : la version distante est conservée, la modification locale est abandonnée
+ */
+export type ConflictResolution = 'local' | 'remote'
+
+/**
+ * Raison de l'entrée d'une tâche dans la dead-letter queue
+ * - failed : plus de retry possible (erreur définitive, max retries, dépendance en échec)
+ * - expired : la tâche a dépassé son expiresAt
+ */
+export type DeadLetterReason = 'failed' | 'expired'
+
+/**
+ * Erreur sérialisable conservée avec une tâche en dead-letter (issue de analyzeError)
+ */
+export interface DeadLetterError {
+  code?: string
+  httpStatus?: number
+  message?: string
+}
+
+/**
+ * Tâche en échec définitif conservée pour inspection, correction et rejeu
+ */
+export interface DeadLetterEntry<T = unknown> {
+  task: PersistenceTask<T>
+  reason: DeadLetterReason
+  error?: DeadLetterError
+  failedAt: number
+  /**
+   * La modification locale a été annulée dans le store (cf. SyncAdapter.rollback)
+   */
+  rolledBack?: boolean
+}
+
+/**
+ * État de synchronisation d'une entité, conservé après la fin de ses tâches
+ * Tenu à jour par l'orchestrateur à chaque transition (en attente, en cours, synchronisée, erreur, conflit)
+ */
+export interface EntitySyncState {
+  entityType: string
+  frontId: string
+  syncStatus: SyncStatus
+  backendId?: string
+  lastSyncAt?: number
+  error?: DeadLetterError
+  /**
+   * La dernière tâche de l'entité a échoué définitivement (cf. dead-letter queue)
+   */
+  failedPermanently?: boolean
+  updatedAt: number
+}
+
+/**
+ * Résumé de l'état de synchronisation de toutes les entités suivies
+ */
+export interface SyncSummary {
+  total: number
+  pending: number
+  syncing: number
+  synced: number
+  error: number
+  conflict: number
+  failed: number
+  /**
+   * Aucune entité en attente, en erreur ou en conflit
+   */
+  isSynced: boolean
 }
 
+/**
+ * Changement d'une entité conservé dans l'historique d'annulation
+ * before absent : l'entité a été créée ; after absent : elle a été supprimée
+ */
+export interface HistoryChange<T = unknown> {
+  entityType: string
+  frontId: string
+  before?: T
+  after?: T
+}
+
+/**
+ * Étape de l'historique d'annulation (une action utilisateur, éventuellement une transaction)
+ */
+export interface HistoryStep<T = unknown> {
+  changes: HistoryChange<T>[]
+  recordedAt: number
+  /**
+   * Transaction qui a persisté la dernière application de l'étape (action, annulation ou rétablissement)
+   * Absent si l'étape ne contient qu'un événement : la compaction suffit à l'annuler
+   */
+  transactionId?: string
+}
+
+/**
+ * Référence vers une autre entité (ex: une note référence ses tags)
+ * Permet d'inférer les dépendances entre tâches
+ */
+export interface EntityReference {
+  entityType: string
+  frontId: string
+}
+
+/**
+ * Résultat de la persistance d'une tâche au sein d'un lot (persistBatch)
+ * - success : persisted est l'entité persistée (optionnelle, ex: pour un delete)
+ * - error : l'erreur propre à cette tâche (retentée ou en échec selon la politique de retry)
+ */
+export type BatchTaskResult<T = unknown> =
+  | { taskId: string; status: 'success'; persisted?: PersistableEntity<T> }
+  | { taskId: string; status: 'error'; error: unknown }
+
+/**
+ * Demande de persistance d'une entité créée
+ */
+export interface EntityCreatedPayload<T = unknown> {
+  entityType: string
+  data: T
+}
+
+/**
+ * Demande de persistance d'une entité modifiée (previous : version avant modification)
+ */
+export interface EntityUpdatedPayload<T = unknown> {
+  entityType: string
+  id: string
+  updates: Partial<T>
+  version?: number
+  previous?: T
+}
+
+/**
+ * Demande de persistance d'une entité supprimée (previous : version avant suppression)
+ */
+export interface EntityDeletedPayload<T = unknown> {
+  entityType: string
+  id: string
+  previous?: T
+}
+
+/**
+ * Événement d'entité regroupé dans une transaction
+ */
+export type TransactionEvent<T = unknown> =
+  | { event: 'entity:created'; payload: EntityCreatedPayload<T> }
+  | { event: 'entity:updated'; payload: EntityUpdatedPayload<T> }
+  | { event: 'entity:deleted'; payload: EntityDeletedPayload<T> }
+
 /**
  * Événements émis par le système de persistance
  * Générique pour supporter n'importe quel type d'entité
  */
 export type PersistenceEvents<T = unknown> = {
   // Événements émis par le store (demande de persistance)
-  'entity:created': { entityType: string; data: T }
-  'entity:updated': { entityType: string; id: string; updates: Partial<T> }
-  'entity:deleted': { entityType: string; id: string }
+  'entity:created': EntityCreatedPayload<T>
+  'entity:updated': EntityUpdatedPayload<T>
+  'entity:deleted': EntityDeletedPayload<T>
+  // reverts : transaction défaite par celle-ci (annulation ou rétablissement d'une étape de l'historique)
+  'entity:transaction': { transactionId: string; events: TransactionEvent<T>[]; reverts?: string }
+  'entity:resolve-conflict': { entityType: string; taskId: string; resolution: ConflictResolution; data?: T }
+  'entity:replay': { taskId: string; data?: Partial<T> }
+  'entity:reset': Record<string, never>
   
   // Événements émis par le système de persistance (résultats)
   'entity:persisted': { entityType: string; original: PersistableEntity<T>; persisted: PersistableEntity<T> }
   'entity:persist-error': { entityType: string; task: PersistenceTask<T>; error: unknown }
   'entity:update-error': { entityType: string; task: PersistenceTask<T>; error: unknown }
   'entity:delete-error': { entityType: string; task: PersistenceTask<T>; error: unknown }
+  'entity:conflict': { entityType: string; task: PersistenceTask<T>; local: T; remote?: T }
+  'entity:conflict-resolved': { entityType: string; task: PersistenceTask<T>; resolution: ConflictResolution; resolved?: T }
+  'entity:rolled-back': { entityType: string; task: PersistenceTask<T>; previous?: T }
+  // L'état de persistance a été vidé par l'onglet leader (cf. ENTITY_EVENTS.RESET)
+  'entity:state-reset': Record<string, never>
   
   // Événements de la queue
   'queue:task-enqueued': { task: PersistenceTask<T> }
@@ -102,35 +312,69 @@ export type PersistenceEvents<T = unknown> = {
   'queue:task-failed': { task: PersistenceTask<T>; error: unknown }
   'queue:task-failed-permanently': { task: PersistenceTask<T>; error: unknown }
   'queue:task-expired': { task: PersistenceTask<T> }
+
+  // Circuit breakers
+  'circuit:state-changed': CircuitStateChange
+}
+
+/**
+ * Contexte d'une requête de persistance, transmis aux stratégies
+ */
+export interface PersistContext {
+  /**
+   * Clé d'idempotence de la requête (identique à chaque nouvelle tentative de la même tâche)
+   */
+  idempotencyKey: string
 }
 
 /**
  * Interface pour les stratégies de persistance
  * Générique pour supporter n'importe quel type d'entité
+ *
+ * Une requête peut avoir été appliquée par le backend lors d'une tentative précédente
+ * (ex: timeout) : les stratégies doivent traiter une réponse « déjà appliquée » comme un succès
  */
 export interface PersistenceStrategy<T = unknown> {
   /**
    * Persiste la création d'une entité
    */
-  persistCreate(entity: PersistableEntity<T>): Promise<PersistableEntity<T>>
+  persistCreate(entity: PersistableEntity<T>, context?: PersistContext): Promise<PersistableEntity<T>>
 
   /**
    * Persiste la mise à jour d'une entité
    */
-  persistUpdate(entity: PersistableEntity<T>): Promise<PersistableEntity<T>>
+  persistUpdate(entity: PersistableEntity<T>, context?: PersistContext): Promise<PersistableEntity<T>>
 
   /**
    * Persiste la suppression d'une entité
    */
-  persistDelete(id: string, entityType: string): Promise<void>
+  persistDelete(id: string, entityType: string, context?: PersistContext): Promise<void>
+
+  /**
+   * Optionnel : persiste plusieurs tâches du même type d'entité en un seul appel
+   * La queue regroupe les tâches prêtes du même entityType (jusqu'à QUEUE_DEFAULTS.MAX_BATCH_SIZE)
+   * Doit retourner un résultat par tâche : une tâche sans résultat est considérée en erreur,
+   * un rejet de la promesse fait échouer toutes les tâches du lot
+   */
+  persistBatch?(tasks: PersistenceTask<T>[]): Promise<BatchTaskResult<T>[]>
+
+  /**
+   * Optionnel : retourne les entités référencées par une entité
+   * Les tâches en attente sur ces entités deviennent des dépendances de la tâche
+   * (ex: une note doit attendre la création de ses tags)
+   */
+  getReferences?(data: T | Partial<T>): EntityReference[]
 
   /**
    * Optionnel : fusionne deux versions d'une entité (pour CRDT)
+   * Utilisé par l'orchestrateur pour résoudre automatiquement un conflit si resolveConflict n'est pas défini
    */
   merge?(local: T, remote: T): T
 
   /**
    * Optionnel : résout un conflit entre deux versions (pour optimistic locking)
+   * Appelé par l'orchestrateur quand persistUpdate lève une ConflictError
+   * Sans resolveConflict ni merge, l'entité est marquée 'conflict' et l'utilisateur choisit
    */
   resolveConflict?(local: T, remote: T): T
 }
@@ -5,4 +5,11 @@
 export * from './core'
 export * from './usePersistence'
 export * from './queue'
+export * from './strategies'
 export * from './sync/syncAdapters'
+export * from './sync/pullSync'
+export * from './sync/connectivity'
+export * from './sync/store'
+export * from './sync/tabCoordinator'
+export * from './sync/storeRelay'
+export * from './sync/undoManager'
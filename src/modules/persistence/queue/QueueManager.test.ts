@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { VirtualClock, setClock } from '../core/clock'
+import { DEFAULT_RETRY_CONFIG } from '../core/retryManager'
+import { createTask } from '../core/taskHelpers'
+import { TaskPriority } from '../core/types'
+import { DependencyFailedError } from '../core/errors'
+import { PersistedQueueManager } from './QueueManager'
+
+/**
+ * Crée une file dont le processeur échoue toujours avec l'erreur donnée
+ */
+function failingQueue(error: unknown, online = true) {
+  const queue = new PersistedQueueManager({ ...DEFAULT_RETRY_CONFIG, maxRetries: 3 }, {}, false)
+  const processor = vi.fn(async () => { throw error })
+  queue.setProcessor(processor)
+  queue.setConnectivityCheck(async () => online)
+  queue.enqueue(createTask('create', 'note', { frontId: 'n1' }, 'n1', 3))
+  return { queue, processor }
+}
+
+describe('PersistedQueueManager retries', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('counts a failed attempt once', async () => {
+    const { queue, processor } = failingQueue({ response: { status: 500, headers: {} } })
+
+    await vi.waitFor(() => expect(processor).toHaveBeenCalledTimes(1))
+    await vi.waitFor(() => expect(queue.getPendingTasks()[0]?.retryAt).toBeDefined())
+
+    const [task] = queue.getPendingTasks()
+    expect(task?.payload.metadata.retryCount).toBe(1)
+    expect(queue.isPaused()).toBe(false)
+    queue.stop()
+  })
+
+  it('does not count an attempt made while offline', async () => {
+    const { queue } = failingQueue({ code: 'ERR_NETWORK' }, false)
+
+    await vi.waitFor(() => expect(queue.isPaused()).toBe(true))
+
+    expect(queue.getPendingTasks()[0]?.payload.metadata.retryCount).toBe(0)
+    queue.stop()
+  })
+
+  it('applies the retry policy of the entity type and operation', async () => {
+    const queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {
+      note: { operations: { create: { retryConfig: { policy: { nonRetryableStatuses: [503] } } } } }
+    }, false)
+    const failures: string[] = []
+    queue.setProcessor(async () => { throw { response: { status: 503, headers: {} } } })
+    queue.setFailureHandler(task => { failures.push(`${task.entityType}:${task.operation}`) })
+    queue.enqueue(createTask('create', 'note', { frontId: 'n1' }, 'n1', 3))
+    queue.enqueue(createTask('create', 'tag', { frontId: 't1' }, 't1', 3))
+
+    await vi.waitFor(() => expect(failures).toEqual(['note:create']))
+    await vi.waitFor(() => expect(queue.getPendingTasks()[0]?.retryAt).toBeDefined())
+
+    expect(queue.getPendingTasks().map(task => task.entityType)).toEqual(['tag'])
+    queue.stop()
+  })
+
+  it('sends the tasks held while offline as soon as the connection is back', async () => {
+    const queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {}, false)
+    const processor = vi.fn(async () => {})
+    queue.setProcessor(processor)
+    queue.pause('offline')
+    queue.enqueue(createTask('create', 'note', { frontId: 'n1' }, 'n1', 3))
+    await new Promise(resolve => setTimeout(resolve))
+    expect(processor).not.toHaveBeenCalled()
+
+    queue.resume('offline')
+
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+    expect(processor).toHaveBeenCalledOnce()
+    queue.stop()
+  })
+
+  it('does not count an attempt rejected for an expired session', async () => {
+    const { queue } = failingQueue({ response: { status: 401, headers: {} } })
+
+    await vi.waitFor(() => expect(queue.isPaused()).toBe(true))
+
+    expect(queue.getPendingTasks()[0]?.payload.metadata.retryCount).toBe(0)
+    queue.stop()
+  })
+})
+
+describe('PersistedQueueManager backoff', () => {
+  const MINUTE = 60_000
+  let clock: VirtualClock
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    clock = new VirtualClock(1_000_000)
+    setClock(clock)
+  })
+
+  afterEach(() => {
+    setClock()
+    vi.restoreAllMocks()
+  })
+
+  it('retries after 3min, 12min then 48min in virtual time', async () => {
+    const queue = new PersistedQueueManager({
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries: 4,
+      initialDelay: 3 * MINUTE,
+      multiplier: 4,
+      maxDelay: 60 * MINUTE,
+      jitter: 'none'
+    }, {}, false)
+    const attempts: number[] = []
+    queue.setProcessor(async () => {
+      attempts.push(clock.now())
+      throw { response: { status: 500, headers: {} } }
+    })
+    const start = clock.now()
+    queue.enqueue(createTask('create', 'note', { frontId: 'n1' }, 'n1', 4))
+
+    for (const [index, delay] of [3, 12, 48].entries()) {
+      const attemptedAt = clock.now()
+      await vi.waitFor(() => expect(queue.getPendingTasks()[0]?.retryAt).toBe(attemptedAt + delay * MINUTE))
+      // Aucune tentative avant l'échéance
+      await clock.advance(delay * MINUTE - 1)
+      expect(attempts).toHaveLength(index + 1)
+      await clock.advance(1)
+    }
+
+    expect(attempts.map(at => (at - start) / MINUTE)).toEqual([0, 3, 15, 63])
+    queue.stop()
+  })
+
+  it('bases each decorrelated delay on the delay applied to the previous retry', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+    const queue = new PersistedQueueManager({
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries: 4,
+      initialDelay: MINUTE,
+      multiplier: 2,
+      maxDelay: 60 * MINUTE,
+      jitter: 'decorrelated'
+    }, {}, false)
+    queue.setProcessor(async () => {
+      throw { response: { status: 500, headers: {} } }
+    })
+    queue.enqueue(createTask('create', 'note', { frontId: 'n1' }, 'n1', 4))
+
+    const delays: number[] = []
+    for (let retry = 0; retry < 3; retry++) {
+      const attemptedAt = clock.now()
+      await vi.waitFor(() => expect(queue.getPendingTasks()[0]?.retryAt).toBeGreaterThan(attemptedAt))
+      const { retryAt, retryDelay } = queue.getPendingTasks()[0]
+      expect(retryDelay).toBe(retryAt! - attemptedAt)
+      delays.push(retryDelay! / MINUTE)
+      await clock.advance(retryDelay!)
+    }
+
+    // 3 × le délai précédent (tirage maximal), et non le délai exponentiel (1, 2, 4 min)
+    expect(delays).toEqual([3, 9, 27])
+    queue.stop()
+  })
+})
+
+describe('PersistedQueueManager dependencies', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('processes a task only once its dependencies are done', async () => {
+    const queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {}, false)
+    const processed: string[] = []
+    let releaseTag = () => {}
+    queue.setProcessor(async task => {
+      if (task.entityType === 'tag') {
+        await new Promise<void>(resolve => { releaseTag = resolve })
+      }
+      processed.push(task.entityType)
+    })
+    const tag = queue.enqueue(createTask('create', 'tag', { frontId: 't1' }, 't1', 3))!
+    queue.enqueue(createTask('create', 'note', { frontId: 'n1' }, 'n1', 3, { priority: 100, dependsOn: [tag.id] }))
+
+    await vi.waitFor(() => expect(queue.size()).toBe(2))
+    expect(processed).toEqual([])
+
+    releaseTag()
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+    expect(processed).toEqual(['tag', 'note'])
+    queue.stop()
+  })
+
+  it('fails the dependents of a task that failed permanently', async () => {
+    const queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {}, false)
+    const failures: Array<[string, unknown]> = []
+    queue.setProcessor(async () => {
+      throw { response: { status: 400, headers: {} } }
+    })
+    queue.setFailureHandler((task, error) => { failures.push([task.entityType, error]) })
+    const tag = queue.enqueue(createTask('create', 'tag', { frontId: 't1' }, 't1', 3))!
+    const note = queue.enqueue(createTask('create', 'note', { frontId: 'n1' }, 'n1', 3, { dependsOn: [tag.id] }))!
+
+    await vi.waitFor(() => expect(failures).toHaveLength(2))
+
+    expect(queue.size()).toBe(0)
+    expect(failures.map(([entityType]) => entityType)).toEqual(['note', 'tag'])
+    expect(failures[0][1]).toBeInstanceOf(DependencyFailedError)
+    expect(failures[0][1]).toMatchObject({ taskId: note.id, dependencyId: tag.id })
+    queue.stop()
+  })
+})
+
+describe('PersistedQueueManager concurrency', () => {
+  let clock: VirtualClock
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    clock = new VirtualClock(1_000_000)
+    setClock(clock)
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  /**
+   * File dont le processeur attend qu'on libère chaque tâche
+   * inFlight liste les tâches en cours d'envoi (entité et opération)
+   */
+  function blockingQueue(maxConcurrent: number) {
+    const queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {}, false)
+    queue.setMaxConcurrent(maxConcurrent)
+    const inFlight = new Map<string, () => void>()
+    queue.setProcessor(task => new Promise<void>(resolve => {
+      const key = `${task.operation}:${task.payload.metadata.frontId}`
+      inFlight.set(key, () => {
+        inFlight.delete(key)
+        resolve()
+      })
+    }))
+    queue.pause('offline')
+    return { queue, inFlight }
+  }
+
+  it('sends up to maxConcurrent tasks of different entities at once', async () => {
+    const { queue, inFlight } = blockingQueue(2)
+    for (const frontId of ['n1', 'n2', 'n3']) {
+      queue.enqueue(createTask('create', 'note', { frontId }, frontId, 3))
+    }
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect([...inFlight.keys()]).toEqual(['create:n1', 'create:n2']))
+
+    inFlight.get('create:n2')!()
+    await vi.waitFor(() => expect([...inFlight.keys()]).toEqual(['create:n1', 'create:n3']))
+    queue.stop()
+  })
+
+  it('sends the tasks of an entity one at a time, in queue order', async () => {
+    const { queue, inFlight } = blockingQueue(3)
+    // Déjà tentée : la mise à jour n'est pas fusionnée dans la création (cf. compaction)
+    queue.enqueue({ ...createTask('create', 'note', { frontId: 'n1' }, 'n1', 3), attemptedAt: 999_000 })
+    await clock.advance(1)
+    // Plus prioritaire, elle est placée avant la création dans la queue
+    queue.enqueue(createTask('update', 'note', { frontId: 'n1' }, 'n1', 3, { priority: TaskPriority.HIGH }))
+    queue.enqueue(createTask('create', 'note', { frontId: 'n2' }, 'n2', 3))
+
+    queue.resume('offline')
+    await vi.waitFor(() => expect([...inFlight.keys()].sort()).toEqual(['create:n1', 'create:n2']))
+
+    inFlight.get('create:n1')!()
+    await vi.waitFor(() => expect([...inFlight.keys()].sort()).toEqual(['create:n2', 'update:n1']))
+    queue.stop()
+  })
+})
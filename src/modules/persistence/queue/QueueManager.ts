@@ -5,52 +5,164 @@
  */
 
 import type { PersistenceTask } from '../core/types'
-import { RetryManager, type RetryConfig } from '../core/retryManager'
-import { TIMING, QUEUE_DEFAULTS } from '../core/constants'
+import { RetryManager, isNetworkError, DEFAULT_RETRY_CONFIG, type RetryConfig } from '../core/retryManager'
+import { resolveTaskPolicy, type PersistencePolicies } from '../core/policies'
+import {
+  CircuitBreaker,
+  isBackendFailure,
+  type CircuitBreakerConfig,
+  type CircuitState,
+  type CircuitStateChange
+} from '../core/circuitBreaker'
+import { QUEUE_DEFAULTS } from '../core/constants'
+import { getClock, type TimerHandle } from '../core/clock'
 import { updateMetadataOnError } from '../core/metadata'
+import { DependencyFailedError } from '../core/errors'
 import { usePersistenceQueueStore } from './store'
+import { areDependenciesMet, findDependentTasks } from './utils/dependencies'
+import { PriorityHeap } from './utils/priorityHeap'
+import { getTaskEntityKey } from './utils/compaction'
 
 /**
  * Callback appelé quand une tâche est traitée
  */
 export type TaskProcessor<T = unknown> = (task: PersistenceTask<T>) => Promise<void>
 
+/**
+ * Callback appelé pour traiter un lot de tâches du même type d'entité
+ * Retourne les erreurs par identifiant de tâche (les tâches absentes ont été traitées)
+ */
+export type TaskBatchProcessor<T = unknown> = (tasks: PersistenceTask<T>[]) => Promise<Map<string, unknown>>
+
+/**
+ * Callback appelé quand une tâche échoue définitivement (plus de retry possible)
+ */
+export type TaskFailureHandler<T = unknown> = (task: PersistenceTask<T>, error: unknown) => void
+
+/**
+ * Callback appelé quand une tâche expire (expiresAt dépassé)
+ */
+export type TaskExpiredHandler<T = unknown> = (task: PersistenceTask<T>) => void
+
+/**
+ * Callback appelé quand le circuit d'un type d'entité change d'état
+ */
+export type CircuitStateHandler = (change: CircuitStateChange) => void
+
+/**
+ * Vérifie la connectivité après une erreur réseau
+ * Doit résoudre false si l'application est hors ligne
+ */
+export type ConnectivityCheck = () => Promise<boolean>
+
+/**
+ * Raison de suspension de la queue
+ * - offline : connexion perdue (reprise au retour du réseau)
+ * - auth : session expirée (reprise après reconnexion)
+ */
+export type QueuePauseReason = 'offline' | 'auth'
+
+/**
+ * Entrée du tas des tâches à envoyer
+ * sequence permet d'ignorer les entrées périmées (tâche ré-indexée depuis)
+ */
+interface ScheduledEntry {
+  taskId: string
+  priority: number
+  createdAt: number
+  sequence: number
+}
+
 /**
  * Helpers purs pour la logique de queue (testables facilement)
  */
 class QueueHelpers {
   /**
-   * Sélectionne les tâches prêtes à être traitées (PURE)
+   * Ordre de sortie du tas : priorité la plus haute, puis la plus ancienne (PURE)
+   */
+  static compareEntries(a: ScheduledEntry, b: ScheduledEntry): number {
+    return b.priority - a.priority || a.createdAt - b.createdAt || a.sequence - b.sequence
+  }
+
+  /**
+   * Retourne la plus ancienne tâche en queue de chaque entité (entityType:frontId) (PURE)
+   * Seule cette tâche peut être envoyée : les tâches d'une même entité passent une à une,
+   * dans l'ordre de création, quelle que soit leur priorité (la queue est triée par priorité)
+   */
+  static getEntityHeads<T>(pendingTasks: ReadonlyArray<PersistenceTask<T>>): Map<string, string> {
+    const heads = new Map<string, PersistenceTask<T>>()
+    for (const task of pendingTasks) {
+      const key = getTaskEntityKey(task)
+      const head = heads.get(key)
+      if (!head || task.createdAt < head.createdAt) {
+        heads.set(key, task)
+      }
+    }
+    return new Map([...heads].map(([key, task]) => [key, task.id]))
+  }
+
+  /**
+   * Vérifie si une tâche peut être envoyée maintenant (hors circuit breaker) (PURE)
    */
-  static getReadyTasks<T>(
-    sortedTasks: PersistenceTask<T>[],
+  static isDispatchable<T>(
+    task: PersistenceTask<T>,
+    pendingIds: ReadonlySet<string>,
+    entityHeads: ReadonlyMap<string, string>,
+    now: number
+  ): boolean {
+    // Une tâche précédente de la même entité est en queue (en cours, en retry ou en conflit)
+    if (entityHeads.get(getTaskEntityKey(task)) !== task.id) return false
+    // Les tâches en conflit attendent la résolution par l'utilisateur
+    if (QueueHelpers.isParked(task)) return false
+    // Attendre que toutes les dépendances soient terminées
+    if (!areDependenciesMet(task, pendingIds)) return false
+    return !task.retryAt || task.retryAt <= now
+  }
+
+  /**
+   * Complète une tâche prête avec les autres tâches prêtes du même type d'entité (PURE)
+   * Les tâches déjà réservées (claimed) ou en cours de traitement sont ignorées
+   */
+  static collectBatch<T>(
+    pendingTasks: PersistenceTask<T>[],
+    first: PersistenceTask<T>,
     processing: Set<string>,
-    maxConcurrent: number,
+    claimed: Set<string>,
+    maxBatchSize: number,
     now: number
   ): PersistenceTask<T>[] {
-    const ready: PersistenceTask<T>[] = []
-    
-    for (const task of sortedTasks) {
-      if (ready.length >= maxConcurrent || processing.size >= maxConcurrent) break
-      if (processing.has(task.id)) continue
-      
-      const isReady = !task.retryAt || task.retryAt <= now
-      if (isReady) {
-        ready.push(task)
+    const batch: PersistenceTask<T>[] = [first]
+    const pendingIds = new Set(pendingTasks.map(task => task.id))
+    const entityHeads = QueueHelpers.getEntityHeads(pendingTasks)
+
+    for (const task of pendingTasks) {
+      if (batch.length >= maxBatchSize) break
+      if (task.id === first.id || task.entityType !== first.entityType) continue
+      if (processing.has(task.id) || claimed.has(task.id)) continue
+      // Une tâche dont une dépendance est encore en queue (y compris dans ce lot) attend le lot suivant
+      if (QueueHelpers.isDispatchable(task, pendingIds, entityHeads, now)) {
+        batch.push(task)
       }
     }
-    
-    return ready
+
+    return batch
+  }
+
+  /**
+   * Vérifie si une tâche est mise en attente (conflit non résolu) (PURE)
+   */
+  static isParked<T>(task: PersistenceTask<T>): boolean {
+    return task.conflict !== undefined
   }
 
   /**
    * Calcule le prochain temps de retry (PURE)
    */
   static getNextRetryTime<T>(
-    sortedTasks: PersistenceTask<T>[],
+    tasks: ReadonlyArray<PersistenceTask<T>>,
     now: number
   ): number | null {
-    const retryTimes = sortedTasks
+    const retryTimes = tasks
       .filter(task => task.retryAt && task.retryAt > now)
       .map(task => task.retryAt!)
       .sort((a, b) => a - b)
@@ -101,18 +213,73 @@ export class PersistedQueueManager<T = unknown> {
   private processing: Set<string> = new Set()
   private maxConcurrent: number = QUEUE_DEFAULTS.MAX_CONCURRENT
   private maxQueueSize: number = QUEUE_DEFAULTS.MAX_QUEUE_SIZE
-  private retryManager: RetryManager
+  private maxBatchSize: number = QUEUE_DEFAULTS.MAX_BATCH_SIZE
+  private retryConfig: RetryConfig
+  private policies: PersistencePolicies
+  private retryManagers: Map<string, RetryManager> = new Map()
+  private circuitBreakerConfig: Partial<CircuitBreakerConfig> | false
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map()
+  private circuitStateHandler?: CircuitStateHandler
   private processor?: TaskProcessor<T>
-  private isRunning = false
-
-  constructor(retryConfig?: RetryConfig) {
-    // Initialiser le RetryManager avec la configuration
-    this.retryManager = new RetryManager(retryConfig)
+  private batchProcessor?: TaskBatchProcessor<T>
+  private canBatch: (entityType: string) => boolean = () => false
+  private failureHandler?: TaskFailureHandler<T>
+  private expiredHandler?: TaskExpiredHandler<T>
+  private connectivityCheck?: ConnectivityCheck
+  private readyHeap = new PriorityHeap<ScheduledEntry>(QueueHelpers.compareEntries)
+  private scheduledSequences: Map<string, number> = new Map()
+  private sequence = 0
+  private wakeScheduled = false
+  private timerId: TimerHandle | null = null
+  private pauseReasons: Set<QueuePauseReason> = new Set()
+
+  constructor(
+    retryConfig?: RetryConfig,
+    policies: PersistencePolicies = {},
+    circuitBreakerConfig: Partial<CircuitBreakerConfig> | false = {}
+  ) {
+    // Les RetryManager sont créés à la demande, un par couple (type d'entité, opération)
+    this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...(retryConfig || {}) }
+    this.policies = policies
+    // Les circuits sont créés à la demande, un par type d'entité (false = désactivés)
+    this.circuitBreakerConfig = circuitBreakerConfig
 
     // Ne pas appeler usePersistenceQueueStore() dans le constructeur
     // car Pinia n'est peut-être pas encore initialisé
   }
 
+  /**
+   * Retourne le RetryManager appliquant la politique de la tâche (type d'entité + opération)
+   * @private
+   */
+  private getRetryManager(task: PersistenceTask<T>): RetryManager {
+    const key = `${task.entityType}:${task.operation}`
+    let retryManager = this.retryManagers.get(key)
+    if (!retryManager) {
+      const { retryConfig } = resolveTaskPolicy(this.policies, this.retryConfig, task.entityType, task.operation)
+      retryManager = new RetryManager(retryConfig)
+      this.retryManagers.set(key, retryManager)
+    }
+    return retryManager
+  }
+
+  /**
+   * Retourne le circuit breaker d'un type d'entité (undefined si désactivé)
+   * @private
+   */
+  private getCircuitBreaker(entityType: string): CircuitBreaker | undefined {
+    if (this.circuitBreakerConfig === false) return undefined
+
+    let circuitBreaker = this.circuitBreakers.get(entityType)
+    if (!circuitBreaker) {
+      circuitBreaker = new CircuitBreaker(entityType, this.circuitBreakerConfig, change => {
+        this.circuitStateHandler?.(change)
+      })
+      this.circuitBreakers.set(entityType, circuitBreaker)
+    }
+    return circuitBreaker
+  }
+
   /**
    * Récupère le store (lazy loading pour éviter les erreurs avant l'init de Pinia)
    * @private
@@ -128,20 +295,80 @@ export class PersistedQueueManager<T = unknown> {
     this.processor = processor
   }
 
+  /**
+   * Définit le nombre maximum de tâches traitées en parallèle
+   * Les tâches d'une même entité restent traitées une à une, dans l'ordre de la queue
+   */
+  setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = Math.max(1, Math.floor(maxConcurrent))
+    this.wake()
+  }
+
+  /**
+   * Définit le processeur de lots
+   * @param canBatch - Indique si les tâches d'un type d'entité peuvent être regroupées
+   */
+  setBatchProcessor(processor: TaskBatchProcessor<T>, canBatch: (entityType: string) => boolean): void {
+    this.batchProcessor = processor
+    this.canBatch = canBatch
+  }
+
+  /**
+   * Définit le handler appelé quand une tâche échoue définitivement
+   */
+  setFailureHandler(handler: TaskFailureHandler<T>): void {
+    this.failureHandler = handler
+  }
+
+  /**
+   * Définit le handler appelé quand une tâche expire
+   */
+  setExpiredHandler(handler: TaskExpiredHandler<T>): void {
+    this.expiredHandler = handler
+  }
+
+  /**
+   * Définit le callback appelé à chaque changement d'état d'un circuit
+   */
+  setCircuitStateHandler(handler: CircuitStateHandler): void {
+    this.circuitStateHandler = handler
+  }
+
+  /**
+   * Retourne l'état du circuit d'un type d'entité
+   */
+  getCircuitState(entityType: string): CircuitState {
+    return this.getCircuitBreaker(entityType)?.getState() ?? 'closed'
+  }
+
+  /**
+   * Définit la vérification de connectivité appelée après une erreur réseau
+   * Hors ligne, la tentative n'est pas comptée et la queue est suspendue
+   */
+  setConnectivityCheck(check: ConnectivityCheck): void {
+    this.connectivityCheck = check
+  }
+
   /**
    * Ajoute une tâche à la queue (via le store, donc persistée)
+   * Les tâches d'une même entité sont compactées, sauf celles en cours de traitement
+   * @returns La tâche effectivement en queue, ou null si elle a annulé des tâches existantes
    */
-  enqueue(task: PersistenceTask<T>): void {
+  enqueue(task: PersistenceTask<T>): PersistenceTask<T> | null {
     const queueStore = this.getQueueStore()
     if (queueStore.queueSize >= this.maxQueueSize) {
       throw new Error(`Queue is full (max size: ${this.maxQueueSize})`)
     }
 
-    queueStore.enqueue(task)
+    const queued = queueStore.enqueue(task, this.processing) as PersistenceTask<T> | null
 
-    if (!this.isRunning && this.processor) {
-      this.startProcessing()
+    // Réveiller le scheduler : la tâche est envoyée sans attendre de polling
+    if (queued) {
+      this.schedule(queued)
     }
+    this.wake()
+
+    return queued
   }
 
   /**
@@ -151,6 +378,20 @@ export class PersistedQueueManager<T = unknown> {
     return this.getQueueStore().dequeue(taskId)
   }
 
+  /**
+   * Met à jour une tâche en attente (via le store)
+   */
+  updateTask(taskId: string, updates: Partial<PersistenceTask<T>>): boolean {
+    const updated = this.getQueueStore().updateTask(taskId, updates as Partial<PersistenceTask>)
+    const task = updated ? this.getPendingTasks().find(t => t.id === taskId) : undefined
+    if (task) {
+      // Ré-indexer la tâche (priorité, conflit levé, retryAt modifié)
+      this.schedule(task)
+      this.wake()
+    }
+    return updated
+  }
+
   /**
    * Retourne la taille de la queue
    */
@@ -180,83 +421,195 @@ export class PersistedQueueManager<T = unknown> {
   }
 
   /**
-   * Démarre le traitement de la queue
-   * Continue tant qu'il y a des tâches en queue ou en cours de traitement
+   * Indexe une tâche dans le tas des tâches à envoyer (remplace son entrée précédente)
    * @private
    */
-  private async startProcessing(): Promise<void> {
-    if (this.isRunning || !this.processor) return
+  private schedule(task: PersistenceTask<T>): void {
+    const sequence = ++this.sequence
+    this.scheduledSequences.set(task.id, sequence)
+    this.readyHeap.push({ taskId: task.id, priority: task.priority, createdAt: task.createdAt, sequence })
+  }
 
-    this.isRunning = true
+  /**
+   * Reconstruit le tas depuis le store (restauration, reprise après suspension)
+   * @private
+   */
+  private rebuildSchedule(): void {
+    this.scheduledSequences.clear()
+    const entries = this.getPendingTasks()
+      .filter(task => !this.processing.has(task.id))
+      .map((task): ScheduledEntry => {
+        const sequence = ++this.sequence
+        this.scheduledSequences.set(task.id, sequence)
+        return { taskId: task.id, priority: task.priority, createdAt: task.createdAt, sequence }
+      })
+    this.readyHeap = new PriorityHeap(QueueHelpers.compareEntries, entries)
+  }
 
-    try {
-      while (true) {
-        const queueStore = this.getQueueStore()
-        
-        // Sortir de la boucle uniquement si la queue est vide ET aucune tâche n'est en cours
-        if (queueStore.queueSize === 0 && this.processing.size === 0) {
-          break
-        }
+  /**
+   * Demande un passage du scheduler
+   * Les réveils rapprochés (plusieurs enqueue d'affilée) sont regroupés en un seul passage
+   * @private
+   */
+  private wake(): void {
+    if (this.wakeScheduled || !this.processor) return
+    this.wakeScheduled = true
+    queueMicrotask(() => {
+      this.wakeScheduled = false
+      this.dispatch()
+    })
+  }
 
-        const sortedTasks = queueStore.sortedTasks as PersistenceTask<T>[]
-        const now = Date.now()
-
-        // Utiliser helper pur pour sélectionner les tâches
-        const readyTasks = QueueHelpers.getReadyTasks(
-          sortedTasks,
-          this.processing,
-          this.maxConcurrent,
-          now
-        )
-
-        // Nettoyer retryAt des tâches prêtes (elles vont être traitées maintenant)
-        for (const task of readyTasks) {
-          if (task.retryAt) {
-            queueStore.updateTask(task.id, { retryAt: undefined })
-          }
-        }
+  /**
+   * Envoie les tâches prêtes (dans la limite de maxConcurrent) puis programme le prochain réveil
+   * Réveillé par : enqueue, updateTask, fin d'une tâche, timer (retryAt, réouverture de circuit),
+   * reprise après suspension (retour en ligne, reconnexion)
+   * @private
+   */
+  private dispatch(): void {
+    if (this.isPaused() || !this.processor) return
 
-        // Traiter les tâches en parallèle
-        if (readyTasks.length > 0) {
-          const promises = readyTasks.map(task => this.processTask(task))
-          await Promise.allSettled(promises)
-        }
+    const queueStore = this.getQueueStore()
+    const pendingTasks = queueStore.getPendingTasks() as PersistenceTask<T>[]
+    const tasksById = new Map(pendingTasks.map(task => [task.id, task]))
+    const pendingIds = new Set(tasksById.keys())
+    const entityHeads = QueueHelpers.getEntityHeads(pendingTasks)
+    const now = getClock().now()
+    const ready: PersistenceTask<T>[] = []
+    const blocked: PersistenceTask<T>[] = []
+
+    // maxConcurrent tâches au plus en vol, jamais deux pour la même entité (cf. getEntityHeads)
+    while (this.processing.size + ready.length < this.maxConcurrent) {
+      const entry = this.readyHeap.pop()
+      if (!entry) break
+      if (this.scheduledSequences.get(entry.taskId) !== entry.sequence) continue
+      this.scheduledSequences.delete(entry.taskId)
+
+      // Tâche retirée ou en cours : ré-indexée à la fin de son traitement si elle reste en queue
+      const task = tasksById.get(entry.taskId)
+      if (!task || this.processing.has(task.id)) continue
+
+      // Retry planifié : ré-indexée par le timer à son retryAt
+      if (task.retryAt && task.retryAt > now) continue
+
+      // Tâche précédente de la même entité, conflit, dépendances ou circuit ouvert :
+      // la tâche reste indexée pour le prochain passage
+      // (canDispatch en dernier : tryAcquire peut réserver la sonde d'un circuit half-open)
+      const canDispatch = QueueHelpers.isDispatchable(task, pendingIds, entityHeads, now)
+        && (this.getCircuitBreaker(task.entityType)?.tryAcquire(now) ?? true)
+      if (!canDispatch) {
+        blocked.push(task)
+        continue
+      }
+      ready.push(task)
+    }
+    blocked.forEach(task => this.schedule(task))
 
-        // Calculer le prochain retry (pour les tâches qui ont échoué et ont un retryAt futur)
-        const nextRetryAt = QueueHelpers.getNextRetryTime(sortedTasks, now)
-        
-        // Attendre selon la situation avant la prochaine itération
-        await this.waitForNextAction(nextRetryAt, queueStore.queueSize, readyTasks.length)
+    // Nettoyer retryAt des tâches prêtes (elles vont être traitées maintenant)
+    for (const task of ready) {
+      if (task.retryAt) {
+        queueStore.updateTask(task.id, { retryAt: undefined })
       }
-    } catch (error) {
-      console.error('[PersistedQueueManager] Error in processing loop:', error)
-      // Ne pas relancer l'erreur, mais s'assurer que isRunning est réinitialisé
-    } finally {
-      this.isRunning = false
     }
+
+    // Traiter les tâches en parallèle (regroupées par type d'entité si la stratégie le permet)
+    for (const group of this.groupReadyTasks(ready, pendingTasks, now)) {
+      const run = group.length > 1 ? this.processBatch(group) : this.processTask(group[0])
+      run
+        .catch(error => console.error('[PersistedQueueManager] Error while processing tasks:', error))
+        .finally(() => this.onTasksSettled(group))
+    }
+
+    this.armTimer(pendingTasks, now)
   }
 
   /**
-   * Attend jusqu'à la prochaine action (simplifié)
+   * Ré-indexe les tâches restées en queue après leur traitement, puis réveille le scheduler
    * @private
    */
-  private async waitForNextAction(
-    nextRetryAt: number | null,
-    queueSize: number,
-    readyTasksCount: number
-  ): Promise<void> {
-    const now = Date.now()
-    
-    if (nextRetryAt) {
-      const waitTime = Math.min(nextRetryAt - now, TIMING.POLLING_INTERVAL_MAX_WAIT)
-      if (waitTime > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitTime))
+  private onTasksSettled(tasks: PersistenceTask<T>[]): void {
+    const now = getClock().now()
+    const pendingTasks = this.getPendingTasks()
+    for (const { id } of tasks) {
+      const task = pendingTasks.find(t => t.id === id)
+      if (task && !(task.retryAt && task.retryAt > now)) {
+        this.schedule(task)
       }
-    } else if (queueSize === 0 && this.processing.size > 0) {
-      await new Promise(resolve => setTimeout(resolve, TIMING.POLLING_INTERVAL_SHORT))
-    } else if (queueSize > 0 && readyTasksCount === 0) {
-      await new Promise(resolve => setTimeout(resolve, TIMING.POLLING_INTERVAL_NORMAL))
     }
+    this.wake()
+  }
+
+  /**
+   * Programme un timer unique pour le prochain retryAt ou la prochaine réouverture de circuit
+   * @private
+   */
+  private armTimer(pendingTasks: ReadonlyArray<PersistenceTask<T>>, now: number): void {
+    this.clearTimer()
+
+    const pendingEntityTypes = new Set(pendingTasks.map(task => task.entityType))
+    const wakeTimes = [...this.circuitBreakers.values()]
+      .filter(circuit => circuit.getState() === 'open' && pendingEntityTypes.has(circuit.entityType))
+      .map(circuit => circuit.getReopenAt())
+    const nextRetryAt = QueueHelpers.getNextRetryTime(pendingTasks, now)
+    if (nextRetryAt !== null) {
+      wakeTimes.push(nextRetryAt)
+    }
+    if (wakeTimes.length === 0) return
+
+    const delay = Math.max(0, Math.min(...wakeTimes) - now)
+    this.timerId = getClock().setTimeout(() => this.onTimer(), delay)
+  }
+
+  /**
+   * Réveil du timer : indexe les tâches dont le retryAt est atteint
+   * @private
+   */
+  private onTimer(): void {
+    this.timerId = null
+    const now = getClock().now()
+    for (const task of this.getPendingTasks()) {
+      if (task.retryAt && task.retryAt <= now && !this.scheduledSequences.has(task.id)) {
+        this.schedule(task)
+      }
+    }
+    this.wake()
+  }
+
+  /**
+   * Annule le timer programmé
+   * @private
+   */
+  private clearTimer(): void {
+    if (this.timerId) {
+      getClock().clearTimeout(this.timerId)
+      this.timerId = null
+    }
+  }
+
+  /**
+   * Regroupe les tâches prêtes par lot du même type d'entité (si un processeur de lots l'accepte)
+   * @private
+   */
+  private groupReadyTasks(
+    readyTasks: PersistenceTask<T>[],
+    pendingTasks: PersistenceTask<T>[],
+    now: number
+  ): PersistenceTask<T>[][] {
+    const claimed = new Set<string>()
+    const groups: PersistenceTask<T>[][] = []
+
+    for (const task of readyTasks) {
+      if (claimed.has(task.id)) continue
+      // Circuit half-open : la sonde est envoyée seule
+      const isProbe = this.getCircuitState(task.entityType) === 'half-open'
+      const group = !isProbe && this.batchProcessor && this.canBatch(task.entityType)
+        ? QueueHelpers.collectBatch(pendingTasks, task, this.processing, claimed, this.maxBatchSize, now)
+        : [task]
+      group.forEach(t => claimed.add(t.id))
+      groups.push(group)
+    }
+
+    return groups
   }
 
   /**
@@ -268,25 +621,19 @@ export class PersistedQueueManager<T = unknown> {
 
     this.processing.add(task.id)
     const queueStore = this.getQueueStore()
-    const now = Date.now()
+    const now = getClock().now()
 
     try {
-      // Utiliser helper pur pour vérifier expiration
-      if (QueueHelpers.isTaskExpired(task, now)) {
-        queueStore.dequeue(task.id)
+      if (!this.prepareTask(task, queueStore, now)) {
+        this.getCircuitBreaker(task.entityType)?.release()
         return
       }
 
-      // Utiliser helper pur pour calculer expiresAt
-      const expiresAt = QueueHelpers.calculateExpiresAt(task)
-      if (expiresAt && expiresAt !== task.expiresAt) {
-        queueStore.updateTask(task.id, { expiresAt })
-      }
-
       // Appeler le processeur (callback)
       await this.processor(task)
-      
-      queueStore.dequeue(task.id)
+
+      this.getCircuitBreaker(task.entityType)?.recordSuccess()
+      this.completeTask(task, queueStore)
     } catch (error) {
       await this.handleTaskError(task, error, queueStore, now)
     } finally {
@@ -294,6 +641,94 @@ export class PersistedQueueManager<T = unknown> {
     }
   }
 
+  /**
+   * Traite un lot de tâches du même type d'entité
+   * Les résultats partiels sont répartis par tâche : succès, retry ou échec définitif
+   * @private
+   */
+  private async processBatch(tasks: PersistenceTask<T>[]): Promise<void> {
+    if (!this.batchProcessor) return
+
+    tasks.forEach(task => this.processing.add(task.id))
+    const queueStore = this.getQueueStore()
+    const now = getClock().now()
+
+    try {
+      const activeTasks = tasks.filter(task => this.prepareTask(task, queueStore, now))
+      if (activeTasks.length === 0) {
+        this.getCircuitBreaker(tasks[0].entityType)?.release()
+        return
+      }
+
+      let failures: Map<string, unknown>
+      try {
+        failures = await this.batchProcessor(activeTasks)
+      } catch (error) {
+        failures = new Map(activeTasks.map(task => [task.id, error]))
+      }
+
+      for (const task of activeTasks) {
+        if (failures.has(task.id)) {
+          await this.handleTaskError(task, failures.get(task.id), queueStore, now)
+        } else {
+          this.getCircuitBreaker(task.entityType)?.recordSuccess()
+          this.completeTask(task, queueStore)
+        }
+      }
+    } catch (error) {
+      console.error('[PersistedQueueManager] Error while processing batch:', error)
+    } finally {
+      tasks.forEach(task => this.processing.delete(task.id))
+    }
+  }
+
+  /**
+   * Vérifie l'expiration d'une tâche avant son traitement et marque sa première tentative
+   * La marque est enregistrée avant l'envoi : après un rechargement pendant la requête,
+   * la tâche est toujours considérée comme tentée (cf. compaction)
+   * @returns false si la tâche a expiré (retirée de la queue)
+   * @private
+   */
+  private prepareTask(
+    task: PersistenceTask<T>,
+    queueStore: ReturnType<typeof this.getQueueStore>,
+    now: number
+  ): boolean {
+    // Utiliser helper pur pour vérifier expiration
+    if (QueueHelpers.isTaskExpired(task, now)) {
+      this.expireTask(task, queueStore)
+      return false
+    }
+
+    // Utiliser helper pur pour calculer expiresAt
+    const expiresAt = QueueHelpers.calculateExpiresAt(task)
+    if (expiresAt && expiresAt !== task.expiresAt) {
+      queueStore.updateTask(task.id, { expiresAt })
+    }
+
+    if (task.attemptedAt === undefined) {
+      task.attemptedAt = now
+      queueStore.updateTask(task.id, { attemptedAt: now })
+    }
+    return true
+  }
+
+  /**
+   * Retire une tâche traitée de la queue
+   * Conflit détecté : la tâche reste en queue en attendant sa résolution
+   * @private
+   */
+  private completeTask(
+    task: PersistenceTask<T>,
+    queueStore: ReturnType<typeof this.getQueueStore>
+  ): void {
+    if (QueueHelpers.isParked(task)) {
+      queueStore.updateTask(task.id, { payload: task.payload, conflict: task.conflict })
+      return
+    }
+    queueStore.dequeue(task.id)
+  }
+
   /**
    * Gère les erreurs de tâche (simplifié)
    * @private
@@ -304,45 +739,149 @@ export class PersistedQueueManager<T = unknown> {
     queueStore: ReturnType<typeof this.getQueueStore>,
     now: number
   ): Promise<void> {
+    // Erreur réseau hors ligne : la tentative n'est pas comptée, la queue est suspendue
+    // jusqu'au retour de la connexion (resume)
+    const circuitBreaker = this.getCircuitBreaker(task.entityType)
+    if (isNetworkError(error) && this.connectivityCheck && !(await this.connectivityCheck())) {
+      circuitBreaker?.release()
+      this.pause('offline')
+      return
+    }
+
+    // Circuit breaker : seules les défaillances du backend (réseau, 5xx) rapprochent l'ouverture
+    if (isBackendFailure(error)) {
+      circuitBreaker?.recordFailure(now)
+    } else {
+      circuitBreaker?.recordSuccess()
+    }
+
     const metadata = task.payload.metadata
-    const shouldRetry = this.retryManager.shouldRetry(error, {
+    const decision = this.getRetryManager(task).decide(error, {
       ...task,
       retryCount: metadata.retryCount,
       maxRetries: metadata.maxRetries
-    })
+    }, now)
+
+    // Session expirée : la tâche reste en queue telle quelle jusqu'à la reconnexion
+    if (decision.action === 'pause-auth') {
+      this.pause('auth')
+      return
+    }
     
-    if (!shouldRetry) {
+    if (decision.action === 'fail') {
+      if (decision.reason === 'expired') {
+        this.expireTask(task, queueStore)
+        return
+      }
       queueStore.dequeue(task.id)
+      this.failDependents(task, error)
+      this.failureHandler?.(task, error)
       return
     }
 
-    // Mettre à jour métadonnées
+    // Compter la tentative : seulement ici, une fois écartés hors ligne, reconnexion et échec définitif
     const updatedMetadata = updateMetadataOnError(metadata, error)
     task.payload.metadata = updatedMetadata
     
-    // Utiliser helper pur pour calculer retryAt
-    const retryAt = QueueHelpers.calculateRetryAt(task, this.retryManager, now)
+    // Délai imposé par le serveur (Retry-After), sinon backoff exponentiel (helper pur)
+    const retryAt = decision.delay !== undefined
+      ? now + decision.delay
+      : QueueHelpers.calculateRetryAt(task, this.getRetryManager(task), now)
     
     queueStore.updateTask(task.id, { 
       payload: task.payload,
-      retryAt
+      retryAt,
+      retryDelay: retryAt - now
     })
   }
 
+  /**
+   * Retire une tâche expirée et fait échouer ses dépendants
+   * @private
+   */
+  private expireTask(
+    task: PersistenceTask<T>,
+    queueStore: ReturnType<typeof this.getQueueStore>
+  ): void {
+    queueStore.dequeue(task.id)
+    console.warn(`[PersistedQueueManager] Task ${task.id} expired`)
+    this.failDependents(task, new Error(`Task ${task.id} expired`))
+    this.expiredHandler?.(task)
+  }
+
+  /**
+   * Fait échouer définitivement les tâches qui dépendent d'une tâche en échec
+   * Les dépendants (directs et transitifs) sont retirés de la queue, puis signalés du plus récent
+   * au plus ancien, avant la tâche en échec elle-même : les annulations successives d'une même
+   * entité (cf. SyncAdapter.rollback) restaurent ainsi en dernier l'état le plus ancien
+   * @private
+   */
+  private failDependents(task: PersistenceTask<T>, error: unknown): void {
+    const queueStore = this.getQueueStore()
+    const pendingTasks = queueStore.getPendingTasks() as PersistenceTask<T>[]
+    const dependents = findDependentTasks(pendingTasks, task.id)
+      .filter(({ task: dependent }) => !this.processing.has(dependent.id))
+
+    dependents.forEach(({ task: dependent }) => queueStore.dequeue(dependent.id))
+    for (const { task: dependent, dependencyId } of dependents.reverse()) {
+      console.warn(`[PersistedQueueManager] Task ${dependent.id} failed: dependency ${dependencyId} failed permanently`)
+      this.failureHandler?.(dependent, new DependencyFailedError(dependent.id, dependencyId, error))
+    }
+  }
+
   /**
    * Arrête le traitement de la queue
+   * Les tâches en cours se terminent ; la queue reste en l'état jusqu'au prochain restart
    */
   stop(): void {
-    this.isRunning = false
+    this.clearTimer()
+    this.readyHeap.clear()
+    this.scheduledSequences.clear()
   }
 
   /**
    * Force le redémarrage du traitement (utile après restauration)
+   * Le tas est reconstruit depuis le store ; sans effet tant que la queue est suspendue
    */
   restart(): void {
-    if (!this.isRunning && this.processor) {
-      this.startProcessing()
+    this.rebuildSchedule()
+    this.wake()
+  }
+
+  /**
+   * Suspend le traitement pour une raison donnée (ex: hors ligne, session expirée)
+   * Les tâches en cours se terminent, les nouvelles tâches restent en queue
+   */
+  pause(reason: QueuePauseReason): void {
+    if (this.pauseReasons.has(reason)) return
+    this.pauseReasons.add(reason)
+    this.clearTimer()
+    console.log(`[PersistedQueueManager] Queue paused (${reason})`)
+  }
+
+  /**
+   * Lève une raison de suspension et reprend le traitement immédiatement s'il n'en reste aucune
+   * Les retryAt planifiés sont levés : les échecs étaient dus à la suspension
+   */
+  resume(reason: QueuePauseReason): void {
+    if (!this.pauseReasons.delete(reason)) return
+    console.log(`[PersistedQueueManager] Queue resumed (${reason})`)
+    if (this.isPaused()) return
+
+    const queueStore = this.getQueueStore()
+    for (const task of queueStore.getPendingTasks()) {
+      if (task.retryAt) {
+        queueStore.updateTask(task.id, { retryAt: undefined })
+      }
     }
+    this.restart()
+  }
+
+  /**
+   * Indique si le traitement est suspendu
+   */
+  isPaused(): boolean {
+    return this.pauseReasons.size > 0
   }
 }
 
@@ -3,5 +3,15 @@
  */
 
 export * from './store'
-export { PersistedQueueManager, type TaskProcessor } from './QueueManager'
+export {
+  PersistedQueueManager,
+  type TaskProcessor,
+  type TaskBatchProcessor,
+  type TaskFailureHandler,
+  type TaskExpiredHandler,
+  type ConnectivityCheck,
+  type QueuePauseReason,
+  type CircuitStateHandler
+} from './QueueManager'
 
+export * from './storage'
@@ -0,0 +1,8 @@
+/**
+ * Exports centralisés des backends de stockage de la queue
+ */
+
+export type { QueueStorage, StoredQueue } from './types'
+export { LocalStorageQueueStorage, LEGACY_QUEUE_STORAGE_KEY, readLocalStorageQueue } from './localStorageQueueStorage'
+export { IndexedDBQueueStorage, type IndexedDBQueueStorageOptions } from './indexedDBQueueStorage'
+export { MemoryQueueStorage } from './memoryQueueStorage'
@@ -0,0 +1,46 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createTask } from '../../core/taskHelpers'
+import { IndexedDBQueueStorage } from './indexedDBQueueStorage'
+
+let databaseIndex = 0
+
+describe('IndexedDBQueueStorage', () => {
+  let databaseName: string
+
+  beforeEach(() => {
+    localStorage.clear()
+    // Une base par test
+    databaseName = `queue-${databaseIndex++}`
+  })
+
+  it('saves, replaces and removes tasks one by one', async () => {
+    const storage = new IndexedDBQueueStorage({ databaseName })
+    const task = createTask('create', 'note', { frontId: 'n1' }, 'n1', 3)
+    const other = createTask('create', 'note', { frontId: 'n2' }, 'n2', 3)
+
+    await storage.save(task)
+    await storage.save(other)
+    await storage.save({ ...task, retryAt: 42 })
+    await storage.remove(other.id)
+
+    expect(await storage.load()).toEqual({ version: 1, tasks: [{ ...task, retryAt: 42 }] })
+  })
+
+  it('keeps the schema version of the stored tasks', async () => {
+    await new IndexedDBQueueStorage({ databaseName }).setVersion(3)
+
+    expect((await new IndexedDBQueueStorage({ databaseName }).load()).version).toBe(3)
+  })
+
+  it('migrates the localStorage queue once, with its version', async () => {
+    const task = createTask('create', 'note', { frontId: 'n1' }, 'n1', 3)
+    localStorage.setItem('persistenceQueue', JSON.stringify({ version: 2, pendingTasks: [task, { invalid: true }] }))
+
+    expect(await new IndexedDBQueueStorage({ databaseName }).load()).toEqual({ version: 2, tasks: [task] })
+    expect(localStorage.getItem('persistenceQueue')).toBeNull()
+
+    await new IndexedDBQueueStorage({ databaseName }).clear()
+    expect((await new IndexedDBQueueStorage({ databaseName }).load()).tasks).toEqual([])
+  })
+})
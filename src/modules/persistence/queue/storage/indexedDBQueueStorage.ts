@@ -0,0 +1,158 @@
+/**
+ * Stockage de la queue de persistance dans IndexedDB
+ * Asynchrone, sans limite de ~5MB, et chaque écriture ne touche qu'une seule tâche
+ * Migre automatiquement la queue historique stockée dans localStorage au premier lancement
+ */
+
+import type { PersistenceTask } from '../../core/types'
+import { SCHEMA_DEFAULTS } from '../../core/constants'
+import { promisifyRequest, promisifyTransaction } from '../../core/indexedDB'
+import type { QueueStorage, StoredQueue } from './types'
+import { LEGACY_QUEUE_STORAGE_KEY, readLocalStorageQueue } from './localStorageQueueStorage'
+
+/**
+ * Version de la base (2 : ajout de l'object store des métadonnées)
+ */
+const DATABASE_VERSION = 2
+
+/**
+ * Clé de la version du schéma des tâches dans l'object store des métadonnées
+ */
+const SCHEMA_VERSION_KEY = 'schemaVersion'
+
+/**
+ * Options du stockage IndexedDB
+ */
+export interface IndexedDBQueueStorageOptions {
+  /**
+   * Nom de la base (défaut: 'persistence')
+   */
+  databaseName?: string
+
+  /**
+   * Nom de l'object store (défaut: 'queue')
+   */
+  storeName?: string
+
+  /**
+   * Clé localStorage à migrer au premier lancement (défaut: 'persistenceQueue')
+   * null désactive la migration
+   */
+  migrateFromLocalStorageKey?: string | null
+}
+
+export class IndexedDBQueueStorage implements QueueStorage {
+  private readonly databaseName: string
+  private readonly storeName: string
+  private readonly metaStoreName: string
+  private readonly migrateFromLocalStorageKey: string | null
+  private database: Promise<IDBDatabase> | null = null
+
+  constructor(options: IndexedDBQueueStorageOptions = {}) {
+    this.databaseName = options.databaseName ?? 'persistence'
+    this.storeName = options.storeName ?? 'queue'
+    this.metaStoreName = `${this.storeName}Meta`
+    this.migrateFromLocalStorageKey = options.migrateFromLocalStorageKey === undefined
+      ? LEGACY_QUEUE_STORAGE_KEY
+      : options.migrateFromLocalStorageKey
+  }
+
+  /**
+   * Ouvre la base (une seule fois) et migre la queue localStorage si nécessaire
+   * @private
+   */
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = this.open().then(async database => {
+        await this.migrateFromLocalStorage(database)
+        return database
+      })
+    }
+    return this.database
+  }
+
+  /**
+   * Ouvre la base et crée les object stores manquants (tâches, métadonnées)
+   * @private
+   */
+  private open(): Promise<IDBDatabase> {
+    const request = indexedDB.open(this.databaseName, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(this.storeName)) {
+        request.result.createObjectStore(this.storeName, { keyPath: 'id' })
+      }
+      if (!request.result.objectStoreNames.contains(this.metaStoreName)) {
+        request.result.createObjectStore(this.metaStoreName)
+      }
+    }
+    return promisifyRequest(request)
+  }
+
+  /**
+   * Copie les tâches de la queue localStorage (et leur version) dans IndexedDB puis supprime la clé
+   * La suppression de la clé garantit que la migration n'a lieu qu'une seule fois
+   * @private
+   */
+  private async migrateFromLocalStorage(database: IDBDatabase): Promise<void> {
+    const key = this.migrateFromLocalStorageKey
+    if (!key || localStorage.getItem(key) === null) return
+
+    const legacyQueue = readLocalStorageQueue(key)
+    const legacyTasks = legacyQueue.tasks
+      .filter(task => typeof (task as Partial<PersistenceTask>)?.id === 'string')
+
+    const transaction = database.transaction([this.storeName, this.metaStoreName], 'readwrite')
+    const objectStore = transaction.objectStore(this.storeName)
+    legacyTasks.forEach(task => objectStore.put(task))
+    transaction.objectStore(this.metaStoreName).put(legacyQueue.version, SCHEMA_VERSION_KEY)
+    await promisifyTransaction(transaction)
+
+    localStorage.removeItem(key)
+    console.log(`[IndexedDBQueueStorage] Migrated ${legacyTasks.length} task(s) from localStorage key '${key}'`)
+  }
+
+  /**
+   * Exécute une écriture dans une transaction readwrite
+   * @private
+   */
+  private async write(operation: (objectStore: IDBObjectStore) => void): Promise<void> {
+    const database = await this.getDatabase()
+    const transaction = database.transaction(this.storeName, 'readwrite')
+    operation(transaction.objectStore(this.storeName))
+    await promisifyTransaction(transaction)
+  }
+
+  async load(): Promise<StoredQueue> {
+    const database = await this.getDatabase()
+    const transaction = database.transaction([this.storeName, this.metaStoreName], 'readonly')
+    const [tasks, version] = await Promise.all([
+      promisifyRequest(transaction.objectStore(this.storeName).getAll()),
+      promisifyRequest(transaction.objectStore(this.metaStoreName).get(SCHEMA_VERSION_KEY))
+    ])
+    return {
+      version: Number.isInteger(version) ? version : SCHEMA_DEFAULTS.UNVERSIONED,
+      tasks
+    }
+  }
+
+  async setVersion(version: number): Promise<void> {
+    const database = await this.getDatabase()
+    const transaction = database.transaction(this.metaStoreName, 'readwrite')
+    transaction.objectStore(this.metaStoreName).put(version, SCHEMA_VERSION_KEY)
+    await promisifyTransaction(transaction)
+  }
+
+  async save(task: PersistenceTask): Promise<void> {
+    // Les objets réactifs (Proxy Vue) ne sont pas clonables : on stocke une copie brute
+    const plainTask = JSON.parse(JSON.stringify(task))
+    await this.write(objectStore => objectStore.put(plainTask))
+  }
+
+  async remove(taskId: string): Promise<void> {
+    await this.write(objectStore => objectStore.delete(taskId))
+  }
+
+  async clear(): Promise<void> {
+    await this.write(objectStore => objectStore.clear())
+  }
+}
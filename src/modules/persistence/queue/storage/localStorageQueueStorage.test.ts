@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createTask } from '../../core/taskHelpers'
+import { LocalStorageQueueStorage } from './localStorageQueueStorage'
+
+describe('LocalStorageQueueStorage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('reads the unversioned historical format as version 1', async () => {
+    const task = createTask('create', 'note', { frontId: 'n1' }, 'n1', 3)
+    localStorage.setItem('persistenceQueue', JSON.stringify({ pendingTasks: [task] }))
+
+    expect(await new LocalStorageQueueStorage().load()).toEqual({ version: 1, tasks: [task] })
+  })
+
+  it('keeps the stored tasks when writing before the first load', async () => {
+    const stored = createTask('create', 'note', { frontId: 'n1' }, 'n1', 3)
+    const added = createTask('create', 'note', { frontId: 'n2' }, 'n2', 3)
+    localStorage.setItem('persistenceQueue', JSON.stringify({ version: 2, pendingTasks: [stored] }))
+
+    await new LocalStorageQueueStorage().save(added)
+
+    expect(JSON.parse(localStorage.getItem('persistenceQueue')!)).toEqual({ version: 2, pendingTasks: [stored, added] })
+  })
+
+  it('ignores invalid content', async () => {
+    localStorage.setItem('persistenceQueue', '{')
+
+    expect(await new LocalStorageQueueStorage().load()).toEqual({ version: 1, tasks: [] })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Stockage de la queue de persistance dans localStorage
+ * Format : { version, pendingTasks: [...] } sous la clé 'persistenceQueue'
+ * (le format historique sans version est lu comme la version 1)
+ * Limité à ~5MB et synchrone : chaque écriture réécrit tout le tableau
+ */
+
+import type { PersistenceTask } from '../../core/types'
+import { SCHEMA_DEFAULTS } from '../../core/constants'
+import type { QueueStorage, StoredQueue } from './types'
+
+/**
+ * Clé historique de la queue dans localStorage
+ */
+export const LEGACY_QUEUE_STORAGE_KEY = 'persistenceQueue'
+
+/**
+ * Lit la queue stockée sous une clé localStorage (format { version, pendingTasks: [...] })
+ * Retourne une queue vide si la clé n'existe pas ou si le contenu est invalide
+ */
+export function readLocalStorageQueue(key: string): StoredQueue {
+  const empty: StoredQueue = { version: SCHEMA_DEFAULTS.UNVERSIONED, tasks: [] }
+  try {
+    const raw = localStorage.getItem(key)
+    if (!raw) return empty
+    const parsed = JSON.parse(raw)
+    return {
+      version: Number.isInteger(parsed?.version) ? parsed.version : SCHEMA_DEFAULTS.UNVERSIONED,
+      tasks: Array.isArray(parsed?.pendingTasks) ? parsed.pendingTasks : []
+    }
+  } catch (error) {
+    console.warn(`[LocalStorageQueueStorage] Invalid content for key ${key}, ignoring`, error)
+    return empty
+  }
+}
+
+export class LocalStorageQueueStorage implements QueueStorage {
+  private readonly key: string
+  private tasks: Map<string, unknown> | null = null
+  private version: number = SCHEMA_DEFAULTS.UNVERSIONED
+
+  constructor(key: string = LEGACY_QUEUE_STORAGE_KEY) {
+    this.key = key
+  }
+
+  /**
+   * Cache des tâches, chargé à la première utilisation
+   * Garantit qu'une écriture avant load() ne supprime pas les tâches déjà stockées
+   * @private
+   */
+  private getTasks(): Map<string, unknown> {
+    if (!this.tasks) {
+      const stored = readLocalStorageQueue(this.key)
+      this.version = stored.version
+      this.tasks = new Map(
+        stored.tasks.map((task, index) => [
+          (task as Partial<PersistenceTask>)?.id ?? `invalid-${index}`,
+          task
+        ])
+      )
+    }
+    return this.tasks
+  }
+
+  /**
+   * Écrit tout le tableau dans localStorage
+   * @private
+   */
+  private flush(): void {
+    const pendingTasks = [...this.getTasks().values()]
+    localStorage.setItem(this.key, JSON.stringify({ version: this.version, pendingTasks }))
+  }
+
+  async load(): Promise<StoredQueue> {
+    const tasks = [...this.getTasks().values()]
+    return { version: this.version, tasks }
+  }
+
+  async setVersion(version: number): Promise<void> {
+    this.getTasks()
+    this.version = version
+    this.flush()
+  }
+
+  async save(task: PersistenceTask): Promise<void> {
+    this.getTasks().set(task.id, task)
+    this.flush()
+  }
+
+  async remove(taskId: string): Promise<void> {
+    if (this.getTasks().delete(taskId)) {
+      this.flush()
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.tasks = new Map()
+    localStorage.removeItem(this.key)
+  }
+}
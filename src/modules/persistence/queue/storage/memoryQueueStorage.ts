@@ -0,0 +1,33 @@
+/**
+ * Stockage en mémoire de la queue de persistance
+ * Non persistant : utile pour les tests ou quand aucun stockage navigateur n'est disponible
+ */
+
+import type { PersistenceTask } from '../../core/types'
+import { SCHEMA_DEFAULTS } from '../../core/constants'
+import type { QueueStorage, StoredQueue } from './types'
+
+export class MemoryQueueStorage implements QueueStorage {
+  private tasks = new Map<string, PersistenceTask>()
+  private version: number = SCHEMA_DEFAULTS.UNVERSIONED
+
+  async load(): Promise<StoredQueue> {
+    return { version: this.version, tasks: [...this.tasks.values()] }
+  }
+
+  async setVersion(version: number): Promise<void> {
+    this.version = version
+  }
+
+  async save(task: PersistenceTask): Promise<void> {
+    this.tasks.set(task.id, task)
+  }
+
+  async remove(taskId: string): Promise<void> {
+    this.tasks.delete(taskId)
+  }
+
+  async clear(): Promise<void> {
+    this.tasks.clear()
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Interface de stockage de la queue de persistance
+ * Permet de brancher différents backends (localStorage, IndexedDB, mémoire)
+ * Code pur, respecte le principe SOC
+ */
+
+import type { PersistenceTask } from '../../core/types'
+
+/**
+ * Contenu brut du stockage de la queue
+ */
+export interface StoredQueue {
+  /**
+   * Version du schéma des tâches stockées (1 si le stockage est antérieur au versioning)
+   */
+  version: number
+  /**
+   * Tâches stockées (données brutes, non validées)
+   */
+  tasks: unknown[]
+}
+
+/**
+ * Backend de stockage de la queue
+ * Les écritures sont unitaires (une tâche à la fois) pour éviter de réécrire toute la queue
+ * La migration et la validation des tâches chargées sont faites par le store (initPersistenceQueueStore)
+ */
+export interface QueueStorage {
+  /**
+   * Charge toutes les tâches stockées et la version de leur schéma
+   */
+  load(): Promise<StoredQueue>
+
+  /**
+   * Enregistre la version du schéma des tâches stockées
+   * Appelé une fois les tâches migrées : les tâches écrites ensuite sont à cette version
+   */
+  setVersion(version: number): Promise<void>
+
+  /**
+   * Ajoute ou remplace une tâche (clé : task.id)
+   */
+  save(task: PersistenceTask): Promise<void>
+
+  /**
+   * Supprime une tâche
+   */
+  remove(taskId: string): Promise<void>
+
+  /**
+   * Supprime toutes les tâches
+   */
+  clear(): Promise<void>
+}
@@ -0,0 +1,96 @@
+/**
+ * Store Pinia pour la dead-letter queue
+ * Conserve les tâches en échec définitif ou expirées pour inspection, correction et rejeu
+ * Persisté dans localStorage : les modifications de l'utilisateur ne sont jamais perdues silencieusement
+ * Code pur, respecte le principe SOC
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { DeadLetterEntry, PersistenceTask } from '../../core/types'
+import { createVersionedSerializer } from '../../core/migrations'
+
+/**
+ * Store pour gérer les tâches en échec définitif
+ */
+export const usePersistenceDeadLetterStore = defineStore('persistenceDeadLetters', () => {
+  // État : tâches en échec définitif, de la plus ancienne à la plus récente
+  const entries = ref<DeadLetterEntry[]>([])
+
+  // Computed : nombre de tâches en échec
+  const count = computed(() => entries.value.length)
+
+  /**
+   * Ajoute une tâche en échec (remplace l'entrée existante de la même tâche)
+   */
+  function add(entry: DeadLetterEntry): void {
+    entries.value = [
+      ...entries.value.filter(e => e.task.id !== entry.task.id),
+      entry
+    ]
+  }
+
+  /**
+   * Retourne l'entrée d'une tâche
+   */
+  function get(taskId: string): DeadLetterEntry | undefined {
+    return entries.value.find(e => e.task.id === taskId)
+  }
+
+  /**
+   * Modifie les données d'une tâche en échec avant son rejeu
+   * @returns true si la tâche a été trouvée
+   */
+  function updateData(taskId: string, data: Partial<unknown>): boolean {
+    const entry = get(taskId)
+    if (!entry) return false
+
+    const task: PersistenceTask = {
+      ...entry.task,
+      payload: {
+        ...entry.task.payload,
+        data: { ...(entry.task.payload.data as object), ...(data as object) }
+      }
+    }
+    entries.value = entries.value.map(e => e.task.id === taskId ? { ...e, task } : e)
+    return true
+  }
+
+  /**
+   * Retire une tâche de la dead-letter queue
+   * @returns true si la tâche a été trouvée
+   */
+  function remove(taskId: string): boolean {
+    const before = entries.value.length
+    entries.value = entries.value.filter(e => e.task.id !== taskId)
+    return entries.value.length !== before
+  }
+
+  /**
+   * Vide la dead-letter queue
+   */
+  function clear(): void {
+    entries.value = []
+  }
+
+  return {
+    // État
+    entries,
+    // Computed
+    count,
+    // Méthodes
+    add,
+    get,
+    updateData,
+    remove,
+    clear
+  }
+}, {
+  // Configuration de persistance Pinia
+  persist: {
+    key: 'persistenceDeadLetters',
+    storage: localStorage,
+    pick: ['entries'],
+    serializer: createVersionedSerializer('persistenceDeadLetters')
+  }
+})
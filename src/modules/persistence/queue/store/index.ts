@@ -4,3 +4,8 @@
 
 export { usePersistenceQueueStore, initPersistenceQueueStore } from './queueStore'
 
+export { usePersistenceDeadLetterStore } from './deadLetterStore'
+
+export { usePersistenceTransactionStore } from './transactionStore'
+
+export { usePersistenceUnmigratedTaskStore } from './unmigratedTaskStore'
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { VirtualClock, setClock } from '../../core/clock'
+import { createTask } from '../../core/taskHelpers'
+import { MemoryQueueStorage } from '../storage/memoryQueueStorage'
+import { initPersistenceQueueStore, usePersistenceQueueStore } from './queueStore'
+import { usePersistenceUnmigratedTaskStore } from './unmigratedTaskStore'
+
+describe('initPersistenceQueueStore', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('migrates the stored tasks and rewrites the storage at the current version', async () => {
+    const storage = new MemoryQueueStorage()
+    const { idempotencyKey: _, ...legacy } = createTask('create', 'note', { frontId: 'n1' }, 'n1', 3)
+    await storage.save(legacy as ReturnType<typeof createTask>)
+
+    const failures = await initPersistenceQueueStore(storage)
+
+    const stored = await storage.load()
+    expect(failures).toEqual([])
+    expect(stored.version).toBe(2)
+    expect(stored.tasks).toMatchObject([{ id: legacy.id, idempotencyKey: legacy.id }])
+    expect(usePersistenceQueueStore().getPendingTasks()[0].idempotencyKey).toBe(legacy.id)
+  })
+
+  it('sets aside the tasks that cannot be migrated', async () => {
+    const storage = new MemoryQueueStorage()
+    const valid = createTask('create', 'note', { frontId: 'n1' }, 'n1', 3)
+    await storage.save(valid)
+    await storage.save({ ...valid, id: undefined } as unknown as typeof valid)
+
+    const failures = await initPersistenceQueueStore(storage)
+
+    expect(failures).toHaveLength(1)
+    expect(usePersistenceUnmigratedTaskStore().count).toBe(1)
+    expect(usePersistenceQueueStore().getPendingTasks().map(task => task.id)).toEqual([valid.id])
+    expect((await storage.load()).tasks).toHaveLength(1)
+  })
+
+  it('retries the restored tasks immediately after a refresh', async () => {
+    const storage = new MemoryQueueStorage()
+    await storage.setVersion(2)
+    await storage.save({ ...createTask('create', 'note', { frontId: 'n1' }, 'n1', 3), retryAt: 1_060_000 })
+
+    await initPersistenceQueueStore(storage)
+
+    expect(usePersistenceQueueStore().getPendingTasks()[0].retryAt).toBeUndefined()
+  })
+})
@@ -1,22 +1,32 @@
 /**
  * Store Pinia pour la queue de persistance
- * Gère l'état de la queue et la persiste automatiquement dans localStorage
+ * Gère l'état réactif de la queue et le répercute dans un backend de stockage (QueueStorage)
  * Code pur, respecte le principe SOC
  */
 
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import type { PersistenceTask } from '../../core/types'
-import { filterValidTasks } from '../utils/serialization'
+import { getClock } from '../../core/clock'
+import { SCHEMA_DEFAULTS } from '../../core/constants'
+import { migrationRegistry, type MigrationFailure } from '../../core/migrations'
+import { migrateTasks } from '../utils/serialization'
+import { compactTask } from '../utils/compaction'
+import type { QueueStorage } from '../storage/types'
+import { LocalStorageQueueStorage } from '../storage/localStorageQueueStorage'
+import { usePersistenceUnmigratedTaskStore } from './unmigratedTaskStore'
 
 /**
  * Store pour gérer la queue de persistance
- * Les tâches sont automatiquement persistées dans localStorage via Pinia
+ * Chaque mutation est répercutée tâche par tâche dans le backend de stockage attaché
  */
 export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
   // État : liste des tâches en attente de traitement
   const pendingTasks = ref<PersistenceTask[]>([])
 
+  // Backend de stockage (hors état réactif, attaché par initPersistenceQueueStore)
+  let storage: QueueStorage | null = null
+
   // Computed : taille de la queue
   const queueSize = computed(() => pendingTasks.value.length)
 
@@ -28,15 +38,51 @@ export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
     return [...pendingTasks.value].sort((a, b) => b.priority - a.priority)
   })
 
+  /**
+   * Attache le backend de stockage dans lequel les mutations sont répercutées
+   */
+  function attachStorage(queueStorage: QueueStorage): void {
+    storage = queueStorage
+  }
+
+  /**
+   * Répercute une écriture dans le backend de stockage (asynchrone, erreurs loguées)
+   * @private
+   */
+  function persist(write: (queueStorage: QueueStorage) => Promise<void>): void {
+    if (!storage) return
+    write(storage).catch(error => {
+      console.error('[PersistenceQueueStore] Storage write failed:', error)
+    })
+  }
+
+  /**
+   * Ajoute les tâches restaurées depuis le stockage
+   * Les tâches ajoutées avant la restauration (déjà persistées) sont conservées après elles
+   */
+  function hydrate(restoredTasks: PersistenceTask[]): void {
+    const restoredIds = new Set(restoredTasks.map(t => t.id))
+    const merged = [
+      ...restoredTasks,
+      ...pendingTasks.value.filter(t => !restoredIds.has(t.id))
+    ]
+    // Tri stable : priorité décroissante, puis ordre d'arrivée
+    pendingTasks.value = merged.sort((a, b) => b.priority - a.priority)
+  }
+
   /**
    * Ajoute une tâche à la queue
-   * Évite les doublons et insère selon la priorité
+   * Évite les doublons, compacte les tâches d'une même entité et insère selon la priorité
+   *
+   * @param task - Tâche à ajouter
+   * @param lockedTaskIds - Tâches en cours de traitement (jamais modifiées par la compaction)
+   * @returns La tâche effectivement en queue (fusionnée ou ajoutée), ou null si annulée
    */
-  function enqueue(task: PersistenceTask): void {
+  function enqueue(task: PersistenceTask, lockedTaskIds?: ReadonlySet<string>): PersistenceTask | null {
     // Éviter les doublons
     if (pendingTasks.value.some(t => t.id === task.id)) {
       console.warn(`[PersistenceQueueStore] Task ${task.id} already exists in queue, skipping`)
-      return
+      return null
     }
 
     console.log('[PersistenceQueueStore] enqueue called:', {
@@ -46,7 +92,36 @@ export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
       currentSize: pendingTasks.value.length
     })
 
-    // Insérer selon la priorité (plus haute priorité en premier)
+    const result = compactTask(pendingTasks.value, task, lockedTaskIds)
+
+    switch (result.type) {
+      case 'merge': {
+        const index = pendingTasks.value.findIndex(t => t.id === result.targetId)
+        pendingTasks.value[index] = result.task
+        persist(queueStorage => queueStorage.save(result.task))
+        return result.task
+      }
+      case 'drop':
+        pendingTasks.value = pendingTasks.value.filter(t => !result.removedIds.includes(t.id))
+        result.removedIds.forEach(id => persist(queueStorage => queueStorage.remove(id)))
+        return null
+      case 'replace':
+        pendingTasks.value = pendingTasks.value.filter(t => !result.removedIds.includes(t.id))
+        result.removedIds.forEach(id => persist(queueStorage => queueStorage.remove(id)))
+        insertByPriority(result.task)
+        return result.task
+      default:
+        insertByPriority(result.task)
+        console.log('[PersistenceQueueStore] Task added, new size:', pendingTasks.value.length)
+        return result.task
+    }
+  }
+
+  /**
+   * Insère une tâche selon la priorité (plus haute priorité en premier)
+   * @private
+   */
+  function insertByPriority(task: PersistenceTask): void {
     const insertIndex = pendingTasks.value.findIndex(
       t => t.priority < task.priority
     )
@@ -56,8 +131,7 @@ export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
     } else {
       pendingTasks.value.splice(insertIndex, 0, task)
     }
-    
-    console.log('[PersistenceQueueStore] Task added, new size:', pendingTasks.value.length)
+    persist(queueStorage => queueStorage.save(task))
   }
 
   /**
@@ -67,6 +141,7 @@ export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
     const index = pendingTasks.value.findIndex(t => t.id === taskId)
     if (index !== -1) {
       pendingTasks.value.splice(index, 1)
+      persist(queueStorage => queueStorage.remove(taskId))
       return true
     }
     return false
@@ -77,6 +152,7 @@ export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
    */
   function clear(): void {
     pendingTasks.value = []
+    persist(queueStorage => queueStorage.clear())
   }
 
   /**
@@ -92,10 +168,12 @@ export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
   function updateTask(taskId: string, updates: Partial<PersistenceTask>): boolean {
     const index = pendingTasks.value.findIndex(t => t.id === taskId)
     if (index !== -1) {
-      pendingTasks.value[index] = {
+      const updated = {
         ...pendingTasks.value[index],
         ...updates
       }
+      pendingTasks.value[index] = updated
+      persist(queueStorage => queueStorage.save(updated))
       return true
     }
     return false
@@ -109,52 +187,73 @@ export const usePersistenceQueueStore = defineStore('persistenceQueue', () => {
     isEmpty,
     sortedTasks,
     // Méthodes
+    attachStorage,
+    hydrate,
     enqueue,
     dequeue,
     clear,
     getPendingTasks,
     updateTask
   }
-}, {
-  // Configuration de persistance Pinia
-  persist: {
-    key: 'persistenceQueue',
-    storage: localStorage,
-    // Ne persister que les tâches en attente
-    pick: ['pendingTasks']
-  }
 })
 
 /**
- * Initialise et valide le store après que Pinia soit prêt
- * Doit être appelé après l'initialisation de Pinia (dans usePersistence)
+ * Initialise le store : attache le backend de stockage, restaure, migre et valide les tâches
+ * Doit être appelé après l'initialisation de Pinia (dans usePersistence),
+ * une fois les migrations de la queue enregistrées (registerMigration('persistenceQueue', ...))
+ *
+ * Les tâches qui ne peuvent pas être migrées sont retirées de la queue et mises de côté
+ * dans usePersistenceUnmigratedTaskStore (jamais supprimées)
+ *
+ * @param storage - Backend de stockage de la queue (défaut: localStorage)
+ * @returns Les tâches qui n'ont pas pu être migrées
  */
-export function initPersistenceQueueStore(): void {
+export async function initPersistenceQueueStore(
+  storage: QueueStorage = new LocalStorageQueueStorage()
+): Promise<MigrationFailure[]> {
   const store = usePersistenceQueueStore()
-  
-  // Nettoyer les tâches invalides après restauration depuis localStorage
-  if (store.pendingTasks && Array.isArray(store.pendingTasks) && store.pendingTasks.length > 0) {
-    const validTasks = filterValidTasks(store.pendingTasks)
-    if (validTasks.length !== store.pendingTasks.length) {
-      // Remplacer par les tâches validées si certaines étaient invalides
-      store.pendingTasks = validTasks
-      console.log(`[PersistenceQueueStore] Filtered ${store.pendingTasks.length - validTasks.length} invalid tasks`)
-    }
-    
-    // Réinitialiser les retryAt des tâches restaurées
-    // Après un refresh, on veut réessayer immédiatement (le back pourrait être up maintenant)
-    // plutôt que d'attendre le retryAt calculé avant le refresh
-    const now = Date.now()
-    let resetCount = 0
-    for (const task of validTasks) {
-      if (task.retryAt && task.retryAt > now) {
-        store.updateTask(task.id, { retryAt: undefined })
-        resetCount++
-      }
-    }
-    if (resetCount > 0) {
-      console.log(`[PersistenceQueueStore] Reset ${resetCount} task retryAt for immediate retry after page refresh`)
+  store.attachStorage(storage)
+
+  const stored = await storage.load()
+  const currentVersion = migrationRegistry.getVersion(SCHEMA_DEFAULTS.QUEUE_KEY)
+
+  // Les tâches ajoutées pendant la restauration sont déjà à la version courante
+  const pendingIds = new Set(store.getPendingTasks().map(task => task.id))
+  const storedTasks = stored.tasks.filter(task => !pendingIds.has((task as Partial<PersistenceTask>)?.id ?? ''))
+
+  const { tasks: validTasks, failures } = migrateTasks(storedTasks, stored.version)
+  if (stored.version !== currentVersion) {
+    console.log(`[PersistenceQueueStore] Migrated ${validTasks.length} task(s) from version ${stored.version} to ${currentVersion}`)
+  }
+
+  if (failures.length > 0) {
+    console.warn(`[PersistenceQueueStore] ${failures.length} task(s) could not be migrated, moved to unmigrated tasks`)
+    usePersistenceUnmigratedTaskStore().add(failures)
+  }
+
+  if (stored.version !== currentVersion || failures.length > 0) {
+    // Réécrire le stockage avec les tâches migrées (en conservant celles ajoutées pendant la restauration)
+    await storage.clear()
+    await storage.setVersion(currentVersion)
+    await Promise.all([...validTasks, ...store.getPendingTasks()].map(task => storage.save(task)))
+  }
+
+  // Réinitialiser les retryAt des tâches restaurées
+  // Après un refresh, on veut réessayer immédiatement (le back pourrait être up maintenant)
+  // plutôt que d'attendre le retryAt calculé avant le refresh
+  const now = getClock().now()
+  let resetCount = 0
+  const restoredTasks = validTasks.map(task => {
+    if (task.retryAt && task.retryAt > now) {
+      resetCount++
+      return { ...task, retryAt: undefined }
     }
+    return task
+  })
+  if (resetCount > 0) {
+    console.log(`[PersistenceQueueStore] Reset ${resetCount} task retryAt for immediate retry after page refresh`)
   }
-}
 
+  store.hydrate(restoredTasks)
+  return failures
+}
@@ -0,0 +1,74 @@
+/**
+ * Store Pinia pour les transactions en cours
+ * Conserve les tâches déjà persistées de chaque transaction tant que les autres ne sont pas terminées :
+ * si une tâche de la transaction échoue définitivement, elles sont compensées (opération inverse)
+ * Persisté dans localStorage : une transaction interrompue par un rechargement reste compensable
+ * Code pur, respecte le principe SOC
+ */
+
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { PersistenceTask } from '../../core/types'
+import { createVersionedSerializer } from '../../core/migrations'
+
+/**
+ * Store pour suivre les tâches persistées des transactions en cours
+ */
+export const usePersistenceTransactionStore = defineStore('persistenceTransactions', () => {
+  // État : tâches persistées indexées par transaction, dans l'ordre de persistance
+  const completed = ref<Record<string, PersistenceTask[]>>({})
+
+  /**
+   * Enregistre une tâche persistée d'une transaction
+   */
+  function recordCompleted(transactionId: string, task: PersistenceTask): void {
+    completed.value = {
+      ...completed.value,
+      [transactionId]: [...(completed.value[transactionId] ?? []), task]
+    }
+  }
+
+  /**
+   * Retire une transaction et retourne ses tâches persistées
+   */
+  function take(transactionId: string): PersistenceTask[] {
+    const tasks = completed.value[transactionId] ?? []
+    remove(transactionId)
+    return tasks
+  }
+
+  /**
+   * Retire une transaction (toutes ses tâches sont terminées)
+   */
+  function remove(transactionId: string): void {
+    if (!(transactionId in completed.value)) return
+    const next = { ...completed.value }
+    delete next[transactionId]
+    completed.value = next
+  }
+
+  /**
+   * Vide le store
+   */
+  function clear(): void {
+    completed.value = {}
+  }
+
+  return {
+    // État
+    completed,
+    // Méthodes
+    recordCompleted,
+    take,
+    remove,
+    clear
+  }
+}, {
+  // Configuration de persistance Pinia
+  persist: {
+    key: 'persistenceTransactions',
+    storage: localStorage,
+    pick: ['completed'],
+    serializer: createVersionedSerializer('persistenceTransactions')
+  }
+})
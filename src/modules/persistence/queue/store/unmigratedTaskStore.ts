@@ -0,0 +1,65 @@
+/**
+ * Store Pinia pour les tâches de la queue qui n'ont pas pu être migrées
+ * Alimenté par initPersistenceQueueStore : une tâche stockée par une version de l'application
+ * dont le schéma ne peut pas être migré est mise de côté ici (données brutes), jamais supprimée
+ * Persisté dans localStorage : une migration corrigée dans une version ultérieure peut les reprendre
+ * Code pur, respecte le principe SOC
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { MigrationFailure } from '../../core/migrations'
+import { createVersionedSerializer } from '../../core/migrations'
+
+/**
+ * Store pour conserver les tâches non migrées
+ */
+export const usePersistenceUnmigratedTaskStore = defineStore('persistenceUnmigratedTasks', () => {
+  // État : tâches non migrées (données brutes et raison de l'échec)
+  const failures = ref<MigrationFailure[]>([])
+
+  // Computed : nombre de tâches non migrées
+  const count = computed(() => failures.value.length)
+
+  /**
+   * Met de côté des tâches non migrées
+   */
+  function add(newFailures: MigrationFailure[]): void {
+    failures.value = [...failures.value, ...newFailures]
+  }
+
+  /**
+   * Retire et retourne toutes les tâches non migrées (ex: pour les migrer à nouveau)
+   */
+  function take(): MigrationFailure[] {
+    const taken = failures.value
+    failures.value = []
+    return taken
+  }
+
+  /**
+   * Vide le store
+   */
+  function clear(): void {
+    failures.value = []
+  }
+
+  return {
+    // État
+    failures,
+    // Computed
+    count,
+    // Méthodes
+    add,
+    take,
+    clear
+  }
+}, {
+  // Configuration de persistance Pinia
+  persist: {
+    key: 'persistenceUnmigratedTasks',
+    storage: localStorage,
+    pick: ['failures'],
+    serializer: createVersionedSerializer('persistenceUnmigratedTasks')
+  }
+})
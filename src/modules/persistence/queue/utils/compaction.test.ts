@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import type { PersistenceOperation, PersistenceTask } from '../../core/types'
+import { createTask } from '../../core/taskHelpers'
+import { compactTask } from './compaction'
+
+interface Note {
+  frontId: string
+  contentMd?: string
+}
+
+let sequence = 0
+
+/**
+ * Crée une tâche de test (identifiant unique, sans passer par l'horloge)
+ */
+function task(
+  operation: PersistenceOperation,
+  frontId: string,
+  data: Partial<Note> = {},
+  overrides: Partial<PersistenceTask<Note>> = {}
+): PersistenceTask<Note> {
+  const created = createTask<Note>(operation, 'note', { frontId, ...data }, frontId, 3)
+  return { ...created, id: `task-${++sequence}`, ...overrides }
+}
+
+describe('compactTask', () => {
+  it('appends the first task of an entity', () => {
+    const create = task('create', 'n1', { contentMd: 'a' })
+
+    expect(compactTask([], create)).toEqual({ type: 'append', task: create })
+  })
+
+  it('merges an update into the pending create', () => {
+    const create = task('create', 'n1', { contentMd: 'a' })
+    const update = task('update', 'n1', { contentMd: 'b' })
+
+    const result = compactTask([create], update)
+
+    expect(result.type).toBe('merge')
+    if (result.type !== 'merge') return
+    expect(result.targetId).toBe(create.id)
+    expect(result.task.operation).toBe('create')
+    expect(result.task.payload.data).toEqual({ frontId: 'n1', contentMd: 'b' })
+  })
+
+  it('drops an update that restores the state before the pending update', () => {
+    const update = task('update', 'n1', { contentMd: 'b' }, { previous: { frontId: 'n1', contentMd: 'a' } })
+    const revert = task('update', 'n1', { contentMd: 'a' })
+
+    expect(compactTask([update], revert)).toEqual({ type: 'drop', removedIds: [update.id] })
+  })
+
+  it('drops a create and its updates when the entity is deleted before being sent', () => {
+    const create = task('create', 'n1', { contentMd: 'a' })
+    const update = task('update', 'n1', { contentMd: 'b' })
+    const remove = task('delete', 'n1')
+
+    expect(compactTask([create, update], remove)).toEqual({
+      type: 'drop',
+      removedIds: [create.id, update.id]
+    })
+  })
+
+  it('keeps a deleted create that tasks of other entities depend on', () => {
+    const tagCreate: PersistenceTask<Note> = { ...task('create', 't1'), entityType: 'tag' }
+    const noteCreate = task('create', 'n1', {}, { dependsOn: [tagCreate.id] })
+    const tagDelete: PersistenceTask<Note> = { ...task('delete', 't1'), entityType: 'tag' }
+
+    expect(compactTask([tagCreate, noteCreate], tagDelete)).toEqual({ type: 'append', task: tagDelete })
+  })
+
+  it('replaces pending updates with the delete and keeps the first previous version', () => {
+    const previous = { frontId: 'n1', contentMd: 'a' }
+    const update = task('update', 'n1', { contentMd: 'b' }, { previous })
+    const remove = task('delete', 'n1', {}, { dependsOn: [update.id] })
+
+    const result = compactTask([update], remove)
+
+    expect(result.type).toBe('replace')
+    if (result.type !== 'replace') return
+    expect(result.removedIds).toEqual([update.id])
+    expect(result.task.previous).toEqual(previous)
+    expect(result.task.dependsOn).toBeUndefined()
+  })
+
+  it('turns a create after a pending delete into an update of the changed fields', () => {
+    const previous = { frontId: 'n1', contentMd: 'a' }
+    const remove = task('delete', 'n1', {}, { previous })
+    const recreate = task('create', 'n1', { contentMd: 'b' })
+
+    const result = compactTask([remove], recreate)
+
+    expect(result.type).toBe('replace')
+    if (result.type !== 'replace') return
+    expect(result.task.operation).toBe('update')
+    expect(result.task.previous).toEqual(previous)
+  })
+
+  it('never merges into a locked or already attempted task', () => {
+    const locked = task('update', 'n1', { contentMd: 'a' })
+    const attempted = task('update', 'n2', { contentMd: 'a' }, { attemptedAt: 1 })
+
+    expect(compactTask([locked], task('update', 'n1', { contentMd: 'b' }), new Set([locked.id])).type).toBe('append')
+    expect(compactTask([attempted], task('update', 'n2', { contentMd: 'b' })).type).toBe('append')
+  })
+
+  it('never compacts transaction tasks', () => {
+    const create = task('create', 'n1', { contentMd: 'a' }, { transactionId: 'tx-1' })
+
+    expect(compactTask([create], task('delete', 'n1')).type).toBe('append')
+  })
+})
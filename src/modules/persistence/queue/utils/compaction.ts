@@ -0,0 +1,197 @@
+/**
+ * Helpers pour la compaction des tâches de persistance
+ * Fusionne les tâches en attente d'une même entité (entityType + frontId)
+ * Code pur, sans dépendances externes
+ */
+
+import type { PersistenceTask, PersistenceMetadata } from '../../core/types'
+
+/**
+ * Résultat de la compaction d'une nouvelle tâche avec la queue existante
+ * - append : la tâche est ajoutée telle quelle
+ * - merge : la tâche est fusionnée dans une tâche existante (targetId)
+ * - drop : la tâche annule des tâches existantes et n'est pas ajoutée (create + delete, retour à l'état précédent)
+ * - replace : des tâches existantes sont retirées et la nouvelle tâche est ajoutée (update + delete, delete + create)
+ */
+export type CompactionResult<T = unknown> =
+  | { type: 'append'; task: PersistenceTask<T> }
+  | { type: 'merge'; targetId: string; task: PersistenceTask<T> }
+  | { type: 'drop'; removedIds: string[] }
+  | { type: 'replace'; removedIds: string[]; task: PersistenceTask<T> }
+
+/**
+ * Retourne la clé de compaction d'une tâche (entityType + frontId)
+ */
+export function getTaskEntityKey(task: Pick<PersistenceTask, 'entityType' | 'payload'>): string {
+  return `${task.entityType}:${task.payload.metadata.frontId}`
+}
+
+/**
+ * Fusionne les métadonnées de deux tâches compactées (PURE)
+ * - L'historique de retry de la tâche existante est conservé (pas de contournement du backoff)
+ * - maxRetries prend la valeur la plus permissive des deux tâches
+ * - retryCount est borné par maxRetries pour rester cohérent
+ */
+export function mergeTaskMetadata(
+  target: PersistenceMetadata,
+  incoming: PersistenceMetadata
+): PersistenceMetadata {
+  const maxRetries = Math.max(target.maxRetries, incoming.maxRetries)
+  return {
+    ...target,
+    backendId: target.backendId || incoming.backendId,
+    version: target.version ?? incoming.version,
+    retryCount: Math.min(target.retryCount, maxRetries),
+    maxRetries
+  }
+}
+
+/**
+ * Fusionne les dépendances de deux tâches en excluant les identifiants donnés (PURE)
+ */
+function mergeDependencies(
+  excludedIds: ReadonlyArray<string>,
+  ...lists: Array<string[] | undefined>
+): string[] | undefined {
+  const merged = new Set(lists.flatMap(list => list ?? []))
+  excludedIds.forEach(id => merged.delete(id))
+  return merged.size > 0 ? [...merged] : undefined
+}
+
+/**
+ * Indique si des tâches d'autres entités dépendent des tâches données (PURE)
+ */
+function hasExternalDependents<T>(
+  pendingTasks: ReadonlyArray<PersistenceTask<T>>,
+  taskIds: ReadonlyArray<string>,
+  key: string
+): boolean {
+  return pendingTasks.some(t =>
+    getTaskEntityKey(t) !== key && (t.dependsOn ?? []).some(id => taskIds.includes(id))
+  )
+}
+
+/**
+ * Indique si des données ramènent une entité à sa version précédente (PURE)
+ * Seuls les champs présents dans data sont comparés
+ */
+function restoresPrevious<T>(data: T | Partial<T>, previous: T): boolean {
+  const fields = Object.entries(data as Record<string, unknown>)
+  return fields.every(([key, value]) =>
+    JSON.stringify(value) === JSON.stringify((previous as Record<string, unknown>)[key])
+  )
+}
+
+/**
+ * Fusionne une tâche entrante dans une tâche existante (PURE)
+ * Les données de la tâche entrante écrasent celles de la tâche existante
+ */
+function mergeTasks<T>(
+  target: PersistenceTask<T>,
+  incoming: PersistenceTask<T>
+): PersistenceTask<T> {
+  return {
+    ...target,
+    priority: Math.max(target.priority, incoming.priority) as PersistenceTask<T>['priority'],
+    dependsOn: mergeDependencies([target.id], target.dependsOn, incoming.dependsOn),
+    payload: {
+      data: { ...target.payload.data, ...incoming.payload.data } as T,
+      metadata: mergeTaskMetadata(target.payload.metadata, incoming.payload.metadata)
+    }
+  }
+}
+
+/**
+ * Calcule la compaction d'une nouvelle tâche avec les tâches en attente (PURE)
+ *
+ * Règles appliquées sur la dernière tâche en attente de la même entité :
+ * - update + update → un seul update (données fusionnées)
+ * - create + update → un seul create (données fusionnées)
+ * - create + delete → les deux tâches disparaissent, sauf si des tâches d'autres entités dépendent
+ *   des tâches retirées (ex: note créée avec ce tag) : la suppression est alors ajoutée après le create
+ * - update + delete → les updates sont retirés, seul le delete est conservé
+ * - update + update qui ramène l'entité à son état d'avant l'update en attente → les deux disparaissent
+ * - delete + create (ex: annulation d'une suppression) → le delete est retiré ; le create devient
+ *   un update des champs modifiés depuis, ou disparaît si l'entité est identique
+ *
+ * La version précédente (previous) de la première tâche est conservée :
+ * c'est l'état à restaurer si la tâche compactée échoue définitivement
+ *
+ * Les tâches verrouillées (en cours de traitement) ne sont jamais modifiées :
+ * la nouvelle tâche est alors simplement ajoutée après elles.
+ * Il en va de même des tâches déjà tentées (attemptedAt) : le backend a pu appliquer
+ * la requête, et une nouvelle tentative doit envoyer le même contenu sous la même clé d'idempotence.
+ * Les tâches d'une transaction ne sont jamais compactées : une fusion ferait entrer
+ * ou sortir une modification de l'unité (et pourrait créer un cycle de dépendances).
+ *
+ * @param pendingTasks - Tâches actuellement en queue (dans l'ordre de la queue)
+ * @param task - Nouvelle tâche à ajouter
+ * @param lockedTaskIds - Identifiants des tâches en cours de traitement
+ */
+export function compactTask<T>(
+  pendingTasks: ReadonlyArray<PersistenceTask<T>>,
+  task: PersistenceTask<T>,
+  lockedTaskIds: ReadonlySet<string> = new Set()
+): CompactionResult<T> {
+  const key = getTaskEntityKey(task)
+  const sameEntity = pendingTasks.filter(t => getTaskEntityKey(t) === key)
+  const last = sameEntity[sameEntity.length - 1]
+  const isFrozen = (t: PersistenceTask<T>) => lockedTaskIds.has(t.id) || t.attemptedAt !== undefined
+
+  if (!last || isFrozen(last) || task.transactionId || sameEntity.some(t => t.transactionId)) {
+    return { type: 'append', task }
+  }
+
+  if (task.operation === 'update') {
+    if (last.operation === 'update' || last.operation === 'create') {
+      const merged = mergeTasks(last, task)
+      // La modification en attente est entièrement défaite : rien à envoyer
+      if (last.operation === 'update' && last.previous !== undefined && restoresPrevious(merged.payload.data, last.previous)) {
+        return { type: 'drop', removedIds: [last.id] }
+      }
+      return { type: 'merge', targetId: last.id, task: merged }
+    }
+    return { type: 'append', task }
+  }
+
+  if (task.operation === 'create' && last.operation === 'delete' && last.previous !== undefined) {
+    // La suppression n'a pas été envoyée : l'entité existe toujours côté backend
+    if (restoresPrevious(task.payload.data, last.previous)) {
+      return { type: 'drop', removedIds: [last.id] }
+    }
+    return {
+      type: 'replace',
+      removedIds: [last.id],
+      task: { ...task, operation: 'update', previous: last.previous }
+    }
+  }
+
+  if (task.operation === 'delete') {
+    // Toutes les tâches non verrouillées et jamais tentées de l'entité sont retirées
+    const removable = sameEntity.filter(t => !isFrozen(t))
+    const removedIds = removable.map(t => t.id)
+
+    // Si un create encore non envoyé est retiré, l'entité n'a jamais existé côté backend
+    // Une tâche d'une autre entité qui en dépend serait envoyée avec une référence qui n'existera jamais :
+    // le create est alors conservé et la suppression ajoutée après lui
+    if (removable.some(t => t.operation === 'create')) {
+      if (hasExternalDependents(pendingTasks, removedIds, key)) {
+        return { type: 'append', task }
+      }
+      return { type: 'drop', removedIds }
+    }
+    if (last.operation === 'update') {
+      return {
+        type: 'replace',
+        removedIds,
+        task: {
+          ...task,
+          dependsOn: mergeDependencies(removedIds, task.dependsOn),
+          previous: removable[0].previous ?? task.previous
+        }
+      }
+    }
+  }
+
+  return { type: 'append', task }
+}
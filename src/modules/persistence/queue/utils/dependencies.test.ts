@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { createTask } from '../../core/taskHelpers'
+import type { PersistenceTask } from '../../core/types'
+import { areDependenciesMet, findDependentTasks, inferTaskDependencies } from './dependencies'
+
+/**
+ * Tâche de test avec un identifiant lisible
+ */
+function task(id: string, operation: PersistenceTask['operation'], entityType: string, frontId: string, dependsOn?: string[]): PersistenceTask {
+  return { ...createTask(operation, entityType, { frontId }, frontId, 3, { dependsOn }), id }
+}
+
+describe('inferTaskDependencies', () => {
+  it('depends on pending tasks of the same entity and of the referenced entities', () => {
+    const pending = [
+      task('create-tag', 'create', 'tag', 't1'),
+      task('create-other-tag', 'create', 'tag', 't2'),
+      task('create-note', 'create', 'note', 'n1')
+    ]
+    const update = task('update-note', 'update', 'note', 'n1', ['explicit'])
+
+    expect(inferTaskDependencies(pending, update, [{ entityType: 'tag', frontId: 't1' }])).toEqual([
+      'explicit',
+      'create-tag',
+      'create-note'
+    ])
+  })
+})
+
+describe('areDependenciesMet', () => {
+  it('waits until every dependency has left the queue', () => {
+    const note = task('create-note', 'create', 'note', 'n1', ['create-tag'])
+
+    expect(areDependenciesMet(note, new Set(['create-tag', 'create-note']))).toBe(false)
+    expect(areDependenciesMet(note, new Set(['create-note']))).toBe(true)
+  })
+})
+
+describe('findDependentTasks', () => {
+  it('returns the direct and transitive dependents of a task', () => {
+    const pending = [
+      task('create-tag', 'create', 'tag', 't1'),
+      task('create-note', 'create', 'note', 'n1', ['create-tag']),
+      task('update-note', 'update', 'note', 'n1', ['create-note']),
+      task('create-other-note', 'create', 'note', 'n2')
+    ]
+
+    expect(findDependentTasks(pending, 'create-tag').map(({ task, dependencyId }) => [task.id, dependencyId])).toEqual([
+      ['create-note', 'create-tag'],
+      ['update-note', 'create-note']
+    ])
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Helpers pour les dépendances entre tâches de persistance
+ * Code pur, sans dépendances externes
+ */
+
+import type { PersistenceTask, EntityReference } from '../../core/types'
+import { getTaskEntityKey } from './compaction'
+
+/**
+ * Infère les dépendances d'une nouvelle tâche à partir des tâches en attente (PURE)
+ * - Une tâche dépend des tâches en attente sur la même entité (ex: update après create)
+ * - Une tâche dépend des tâches en attente sur les entités qu'elle référence (ex: note → tags)
+ * Les dépendances déclarées explicitement sur la tâche sont conservées
+ *
+ * @param pendingTasks - Tâches actuellement en queue
+ * @param task - Nouvelle tâche
+ * @param references - Entités référencées par la tâche
+ */
+export function inferTaskDependencies<T>(
+  pendingTasks: ReadonlyArray<PersistenceTask<T>>,
+  task: PersistenceTask<T>,
+  references: ReadonlyArray<EntityReference> = []
+): string[] {
+  const keys = new Set([
+    getTaskEntityKey(task),
+    ...references.map(ref => `${ref.entityType}:${ref.frontId}`)
+  ])
+
+  const dependsOn = new Set(task.dependsOn ?? [])
+  for (const pending of pendingTasks) {
+    if (pending.id !== task.id && keys.has(getTaskEntityKey(pending))) {
+      dependsOn.add(pending.id)
+    }
+  }
+
+  return [...dependsOn]
+}
+
+/**
+ * Vérifie si toutes les dépendances d'une tâche sont terminées (PURE)
+ * Une dépendance est terminée dès qu'elle n'est plus dans la queue
+ */
+export function areDependenciesMet<T>(
+  task: PersistenceTask<T>,
+  pendingIds: ReadonlySet<string>
+): boolean {
+  return !task.dependsOn || task.dependsOn.every(id => !pendingIds.has(id))
+}
+
+/**
+ * Retourne les tâches qui dépendent (directement ou transitivement) d'une tâche (PURE)
+ * Utilisé pour faire échouer les dépendants quand une tâche échoue définitivement
+ */
+export function findDependentTasks<T>(
+  pendingTasks: ReadonlyArray<PersistenceTask<T>>,
+  taskId: string
+): Array<{ task: PersistenceTask<T>; dependencyId: string }> {
+  const result: Array<{ task: PersistenceTask<T>; dependencyId: string }> = []
+  const failed = [taskId]
+  const seen = new Set<string>([taskId])
+
+  while (failed.length > 0) {
+    const dependencyId = failed.shift()!
+    for (const pending of pendingTasks) {
+      if (!seen.has(pending.id) && pending.dependsOn?.includes(dependencyId)) {
+        seen.add(pending.id)
+        result.push({ task: pending, dependencyId })
+        failed.push(pending.id)
+      }
+    }
+  }
+
+  return result
+}
@@ -3,4 +3,6 @@
  */
 
 export * from './serialization'
-
+export * from './compaction'
+export * from './dependencies'
+export * from './priorityHeap'
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { PriorityHeap } from './priorityHeap'
+
+interface Entry {
+  id: string
+  priority: number
+  sequence: number
+}
+
+/**
+ * Ordre du scheduler : priorité la plus haute, puis ordre d'arrivée
+ */
+const compare = (a: Entry, b: Entry) => b.priority - a.priority || a.sequence - b.sequence
+
+/**
+ * Vide le tas et retourne les identifiants dans l'ordre de sortie
+ */
+function drain(heap: PriorityHeap<Entry>): string[] {
+  const ids: string[] = []
+  for (let entry = heap.pop(); entry; entry = heap.pop()) {
+    ids.push(entry.id)
+  }
+  return ids
+}
+
+const entries: Entry[] = [
+  { id: 'low', priority: 0, sequence: 0 },
+  { id: 'high-1', priority: 2, sequence: 1 },
+  { id: 'normal', priority: 1, sequence: 2 },
+  { id: 'high-2', priority: 2, sequence: 3 },
+  { id: 'low-2', priority: 0, sequence: 4 }
+]
+
+describe('PriorityHeap', () => {
+  it('pops pushed items by priority, then in arrival order', () => {
+    const heap = new PriorityHeap(compare)
+    entries.forEach(entry => heap.push(entry))
+
+    expect(heap.size()).toBe(5)
+    expect(heap.peek()?.id).toBe('high-1')
+    expect(drain(heap)).toEqual(['high-1', 'high-2', 'normal', 'low', 'low-2'])
+    expect(heap.pop()).toBeUndefined()
+  })
+
+  it('heapifies initial items without mutating them', () => {
+    const initial = [...entries].reverse()
+    const heap = new PriorityHeap(compare, initial)
+
+    expect(drain(heap)).toEqual(['high-1', 'high-2', 'normal', 'low', 'low-2'])
+    expect(initial.map(entry => entry.id)).toEqual(['low-2', 'high-2', 'normal', 'high-1', 'low'])
+  })
+
+  it('keeps its order when pushes and pops are interleaved', () => {
+    const heap = new PriorityHeap(compare, entries.slice(0, 2))
+
+    expect(heap.pop()?.id).toBe('high-1')
+    heap.push(entries[3])
+    heap.push(entries[2])
+
+    expect(drain(heap)).toEqual(['high-2', 'normal', 'low'])
+  })
+
+  it('clears all items', () => {
+    const heap = new PriorityHeap(compare, entries)
+    heap.clear()
+
+    expect(heap.size()).toBe(0)
+    expect(heap.peek()).toBeUndefined()
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Tas binaire (file de priorité) générique
+ * Utilisé par le scheduler de la queue pour extraire la prochaine tâche sans retrier toute la queue
+ * Code pur, sans dépendances externes
+ */
+
+/**
+ * Fonction de comparaison : négative si a doit sortir avant b
+ */
+export type HeapComparator<T> = (a: T, b: T) => number
+
+/**
+ * Tas binaire : push et pop en O(log n), construction initiale en O(n)
+ */
+export class PriorityHeap<T> {
+  private items: T[]
+  private compare: HeapComparator<T>
+
+  constructor(compare: HeapComparator<T>, items: ReadonlyArray<T> = []) {
+    this.compare = compare
+    this.items = [...items]
+    for (let i = Math.floor(this.items.length / 2) - 1; i >= 0; i--) {
+      this.siftDown(i)
+    }
+  }
+
+  /**
+   * Ajoute un élément
+   */
+  push(item: T): void {
+    this.items.push(item)
+    this.siftUp(this.items.length - 1)
+  }
+
+  /**
+   * Retire et retourne l'élément prioritaire
+   */
+  pop(): T | undefined {
+    const top = this.items[0]
+    const last = this.items.pop()
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last
+      this.siftDown(0)
+    }
+    return top
+  }
+
+  /**
+   * Retourne l'élément prioritaire sans le retirer
+   */
+  peek(): T | undefined {
+    return this.items[0]
+  }
+
+  /**
+   * Retourne le nombre d'éléments
+   */
+  size(): number {
+    return this.items.length
+  }
+
+  /**
+   * Vide le tas
+   */
+  clear(): void {
+    this.items = []
+  }
+
+  /**
+   * Remonte un élément jusqu'à sa place
+   * @private
+   */
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = Math.floor((index - 1) / 2)
+      if (this.compare(this.items[index], this.items[parent]) >= 0) break
+      this.swap(index, parent)
+      index = parent
+    }
+  }
+
+  /**
+   * Descend un élément jusqu'à sa place
+   * @private
+   */
+  private siftDown(index: number): void {
+    const length = this.items.length
+    while (true) {
+      const left = 2 * index + 1
+      const right = left + 1
+      let first = index
+      if (left < length && this.compare(this.items[left], this.items[first]) < 0) first = left
+      if (right < length && this.compare(this.items[right], this.items[first]) < 0) first = right
+      if (first === index) break
+      this.swap(index, first)
+      index = first
+    }
+  }
+
+  /**
+   * Échange deux éléments
+   * @private
+   */
+  private swap(i: number, j: number): void {
+    const tmp = this.items[i]
+    this.items[i] = this.items[j]
+    this.items[j] = tmp
+  }
+}
@@ -4,7 +4,9 @@
  */
 
 import type { PersistenceTask } from '../../core/types'
-import { TASK_LIFETIME } from '../../core/constants'
+import { SCHEMA_DEFAULTS, TASK_LIFETIME } from '../../core/constants'
+import { getClock } from '../../core/clock'
+import { migrationRegistry, type MigrationFailure, type MigrationRegistry } from '../../core/migrations'
 
 /**
  * Vérifie si une tâche est valide (structure correcte)
@@ -25,7 +27,8 @@ export function isValidTask(task: unknown): task is PersistenceTask {
     typeof t.payload !== 'object' ||
     t.payload === null ||
     typeof t.priority !== 'number' ||
-    typeof t.createdAt !== 'number'
+    typeof t.createdAt !== 'number' ||
+    typeof t.idempotencyKey !== 'string'
   ) {
     return false
   }
@@ -53,12 +56,58 @@ export function filterValidTasks(tasks: unknown[]): PersistenceTask[] {
   return tasks.filter(isValidTask)
 }
 
+/**
+ * Résultat de la migration des tâches stockées
+ */
+export interface TaskMigrationResult {
+  /**
+   * Tâches migrées vers la version courante et valides
+   */
+  tasks: PersistenceTask[]
+  /**
+   * Tâches qui n'ont pas pu être migrées (ou invalides après migration), signalées au registre
+   */
+  failures: MigrationFailure[]
+}
+
+/**
+ * Migre des tâches stockées vers la version courante du schéma de la queue, puis les valide
+ * Aucune tâche n'est ignorée : chacune est soit migrée, soit retournée dans failures
+ *
+ * @param tasks - Tâches brutes
+ * @param fromVersion - Version du schéma des tâches stockées
+ * @param registry - Registre de migrations (défaut: registre global)
+ */
+export function migrateTasks(
+  tasks: unknown[],
+  fromVersion: number,
+  registry: MigrationRegistry = migrationRegistry
+): TaskMigrationResult {
+  const result: TaskMigrationResult = { tasks: [], failures: [] }
+  for (const task of tasks) {
+    const migration = registry.migrate(SCHEMA_DEFAULTS.QUEUE_KEY, task, fromVersion)
+    if (!migration.ok) {
+      result.failures.push(migration.failure)
+    } else if (!isValidTask(migration.data)) {
+      result.failures.push(registry.reportFailure({
+        key: SCHEMA_DEFAULTS.QUEUE_KEY,
+        version: fromVersion,
+        data: task,
+        error: `Invalid task shape for version ${migration.version}`
+      }))
+    } else {
+      result.tasks.push(migration.data)
+    }
+  }
+  return result
+}
+
 /**
  * Vérifie si une tâche est expirée (optionnel, pour nettoyer les vieilles tâches)
  * Utilise TASK_LIFETIME.DEFAULT_MAX_AGE_MS par défaut
  */
 export function isTaskExpired(task: PersistenceTask, maxAge: number = TASK_LIFETIME.DEFAULT_MAX_AGE_MS): boolean {
-  const age = Date.now() - task.createdAt
+  const age = getClock().now() - task.createdAt
   return age > maxAge
 }
 
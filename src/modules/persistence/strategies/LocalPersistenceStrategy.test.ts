@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createMetadata } from '../core/metadata'
+import { isConflictError } from '../core/errors'
+import { LocalPersistenceStrategy } from './LocalPersistenceStrategy'
+
+interface Tag {
+  _id?: string
+  frontId: string
+  title: string
+  version?: number
+}
+
+let databaseIndex = 0
+
+describe('LocalPersistenceStrategy', () => {
+  let strategy: LocalPersistenceStrategy<Tag>
+
+  beforeEach(() => {
+    // Une base par test
+    strategy = new LocalPersistenceStrategy<Tag>({ entityType: 'tag', databaseName: `local-${databaseIndex++}` })
+  })
+
+  /**
+   * Crée un tag enregistré en version 1
+   */
+  const createTag = (frontId: string, title: string) => strategy.persistCreate({
+    data: { frontId, title },
+    metadata: createMetadata(frontId)
+  }, { idempotencyKey: `create-${frontId}` })
+
+  it('creates an entity with a local backend id, once', async () => {
+    const created = await createTag('t1', 'a')
+    const retried = await createTag('t1', 'changed')
+
+    expect(created.metadata).toMatchObject({ version: 1, syncStatus: 'synced' })
+    expect(created.metadata.backendId).toMatch(/^local_/)
+    expect(retried.data).toEqual(created.data)
+    expect(await strategy.getAll()).toEqual([{ frontId: 't1', title: 'a', _id: created.metadata.backendId, version: 1 }])
+  })
+
+  it('merges an update sent with the stored version and increments it', async () => {
+    const created = await createTag('t1', 'a')
+
+    const updated = await strategy.persistUpdate({
+      data: { title: 'b' } as Tag,
+      metadata: createMetadata('t1', { backendId: created.metadata.backendId, version: 1 })
+    }, { idempotencyKey: 'update-1' })
+
+    expect(updated.metadata.version).toBe(2)
+    expect(updated.data).toMatchObject({ frontId: 't1', title: 'b', version: 2 })
+  })
+
+  it('rejects an update sent with a stale version', async () => {
+    await createTag('t1', 'a')
+    await strategy.persistUpdate({ data: { title: 'b' } as Tag, metadata: createMetadata('t1', { version: 1 }) }, { idempotencyKey: 'update-1' })
+
+    const error = await strategy.persistUpdate({
+      data: { title: 'c' } as Tag,
+      metadata: createMetadata('t1', { version: 1 })
+    }, { idempotencyKey: 'update-2' }).catch(caught => caught)
+
+    expect(isConflictError<Tag>(error)).toBe(true)
+    expect(error.remoteVersion).toBe(2)
+    expect(error.remote.title).toBe('b')
+    expect((await strategy.getAll())[0].title).toBe('b')
+  })
+
+  it('recognizes an update already applied by a previous attempt', async () => {
+    await createTag('t1', 'a')
+    const update = { data: { title: 'b' } as Tag, metadata: createMetadata('t1', { version: 1 }) }
+
+    await strategy.persistUpdate(update, { idempotencyKey: 'update-1' })
+    const retried = await strategy.persistUpdate(update, { idempotencyKey: 'update-1' })
+
+    expect(retried.metadata.version).toBe(2)
+  })
+
+  it('deletes and clears only its entity type', async () => {
+    const notes = new LocalPersistenceStrategy<Tag>({ entityType: 'note', databaseName: `local-${databaseIndex - 1}` })
+    await createTag('t1', 'a')
+    await createTag('t2', 'b')
+    await notes.persistCreate({ data: { frontId: 'n1', title: 'n' }, metadata: createMetadata('n1') })
+
+    await strategy.persistDelete('t1')
+    expect((await strategy.getAll()).map(tag => tag.frontId)).toEqual(['t2'])
+
+    await strategy.clear()
+    expect(await strategy.getAll()).toEqual([])
+    expect(await notes.getAll()).toHaveLength(1)
+  })
+})
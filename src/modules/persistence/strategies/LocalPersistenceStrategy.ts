@@ -0,0 +1,333 @@
+/**
+ * Stratégie de persistance locale : les entités sont enregistrées dans IndexedDB, sans backend
+ * Joue le rôle du backend pour un type d'entité (mode hors ligne, carnet local) :
+ * attribue des identifiants backend synthétiques ('local_…') et incrémente la version à chaque écriture,
+ * si bien que les sync adapters et l'optimistic locking fonctionnent comme avec l'API REST :
+ * une mise à jour portant une version obsolète est refusée (ConflictError)
+ * Chaque opération s'exécute dans une seule transaction IndexedDB, sans attente entre ses requêtes
+ * Toutes les entités locales partagent un object store, indexé par type d'entité
+ * fetchChanges permet de l'utiliser comme source de pull (restauration des stores depuis IndexedDB)
+ */
+
+import type {
+  PersistenceStrategy,
+  PersistableEntity,
+  PersistContext,
+  EntityReference
+} from '../core/types'
+import type { PullChanges } from '../sync/pullSync'
+import { LOCAL_PERSISTENCE_DEFAULTS } from '../core/constants'
+import { getClock } from '../core/clock'
+import { createIdempotencyKey } from '../core/taskHelpers'
+import { ConflictError } from '../core/errors'
+import { promisifyRequest, promisifyTransaction } from '../core/indexedDB'
+
+/**
+ * Version de la base des entités locales
+ */
+const DATABASE_VERSION = 1
+
+/**
+ * Nom de l'index des entités par type
+ */
+const ENTITY_TYPE_INDEX = 'entityType'
+
+/**
+ * Entité telle qu'enregistrée dans IndexedDB
+ */
+interface LocalRecord {
+  /**
+   * Clé primaire : `${entityType}:${frontId}`
+   */
+  key: string
+  entityType: string
+  frontId: string
+  backendId: string
+  version: number
+  /**
+   * Timestamp de la dernière écriture (curseur de fetchChanges)
+   */
+  updatedAt: number
+  /**
+   * Clé d'idempotence de la dernière écriture (reconnaît une écriture déjà appliquée)
+   */
+  idempotencyKey?: string
+  data: Record<string, unknown>
+}
+
+/**
+ * Options de la stratégie locale
+ */
+export interface LocalPersistenceStrategyOptions<T = unknown> {
+  /**
+   * Type d'entité persisté par cette stratégie (ex: 'note')
+   */
+  entityType: string
+
+  /**
+   * Nom de la base (défaut: LOCAL_PERSISTENCE_DEFAULTS.DATABASE_NAME)
+   */
+  databaseName?: string
+
+  /**
+   * Optionnel : entités référencées (cf. PersistenceStrategy.getReferences)
+   */
+  getReferences?: (data: T | Partial<T>) => EntityReference[]
+}
+
+/**
+ * Bases ouvertes, partagées par les stratégies de tous les types d'entité
+ */
+const databases = new Map<string, Promise<IDBDatabase>>()
+
+/**
+ * Ouvre une base des entités locales (une seule fois par nom)
+ */
+function openDatabase(databaseName: string): Promise<IDBDatabase> {
+  let database = databases.get(databaseName)
+  if (!database) {
+    const request = indexedDB.open(databaseName, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(LOCAL_PERSISTENCE_DEFAULTS.STORE_NAME)) {
+        request.result
+          .createObjectStore(LOCAL_PERSISTENCE_DEFAULTS.STORE_NAME, { keyPath: 'key' })
+          .createIndex(ENTITY_TYPE_INDEX, 'entityType')
+      }
+    }
+    database = promisifyRequest(request)
+    // Une ouverture en échec peut être retentée par l'écriture suivante
+    database.catch(() => databases.delete(databaseName))
+    databases.set(databaseName, database)
+  }
+  return database
+}
+
+export class LocalPersistenceStrategy<T = unknown> implements PersistenceStrategy<T> {
+  private readonly entityType: string
+  private readonly databaseName: string
+  readonly getReferences?: (data: T | Partial<T>) => EntityReference[]
+
+  constructor(options: LocalPersistenceStrategyOptions<T>) {
+    this.entityType = options.entityType
+    this.databaseName = options.databaseName ?? LOCAL_PERSISTENCE_DEFAULTS.DATABASE_NAME
+    this.getReferences = options.getReferences
+  }
+
+  /**
+   * Enregistre une création
+   * Une entité déjà enregistrée (tentative précédente interrompue) est retournée telle quelle
+   */
+  async persistCreate(entity: PersistableEntity<T>, context?: PersistContext): Promise<PersistableEntity<T>> {
+    const record = await this.readWrite(entity.metadata.frontId, existing =>
+      existing ?? this.toRecord(entity.metadata.frontId, this.createBackendId(), 1, this.toPlain(entity.data), context)
+    )
+    return this.toPersisted(entity, record)
+  }
+
+  /**
+   * Enregistre une mise à jour (données partielles fusionnées dans l'entité enregistrée)
+   * - une version connue différente de la version enregistrée est refusée (ConflictError),
+   *   sauf si l'écriture enregistrée est cette mise à jour (tentative précédente interrompue)
+   * - une entité absente (ex: créée avant le passage en mode local) est créée à partir des données reçues
+   */
+  async persistUpdate(entity: PersistableEntity<T>, context?: PersistContext): Promise<PersistableEntity<T>> {
+    const { frontId, version } = entity.metadata
+    const record = await this.readWrite(frontId, existing => {
+      if (existing && context && existing.idempotencyKey === context.idempotencyKey) {
+        return existing
+      }
+      if (existing && version !== undefined && version !== existing.version) {
+        throw new ConflictError(this.toData(existing), existing.version)
+      }
+      return this.toRecord(
+        frontId,
+        existing?.backendId ?? entity.metadata.backendId ?? this.createBackendId(),
+        (existing?.version ?? version ?? 0) + 1,
+        { ...existing?.data, ...this.toPlain(entity.data) },
+        context
+      )
+    })
+    return this.toPersisted(entity, record)
+  }
+
+  /**
+   * Supprime une entité (sans effet si elle n'existe pas ou plus)
+   */
+  async persistDelete(id: string): Promise<void> {
+    await this.runTransaction('readwrite', objectStore => {
+      objectStore.delete(this.keyOf(id))
+      return () => undefined
+    })
+  }
+
+  /**
+   * Retourne toutes les entités enregistrées pour ce type d'entité (avec _id et version)
+   */
+  async getAll(): Promise<T[]> {
+    const records = await this.getAllRecords()
+    return records.map(record => this.toData(record))
+  }
+
+  /**
+   * Retourne les entités modifiées depuis un curseur (undefined = toutes), au format du pull sync
+   * Les suppressions ne sont pas tracées : une synchronisation complète les détecte (listSyncedFrontIds)
+   */
+  async fetchChanges(since?: number): Promise<PullChanges<T>> {
+    const cursor = getClock().now()
+    const records = await this.getAllRecords()
+    return {
+      items: records
+        .filter(record => since === undefined || record.updatedAt > since)
+        .map(record => this.toData(record)),
+      deletedIds: [],
+      cursor
+    }
+  }
+
+  /**
+   * Supprime toutes les entités enregistrées pour ce type d'entité
+   */
+  async clear(): Promise<void> {
+    await this.runTransaction('readwrite', objectStore => {
+      const request = objectStore.index(ENTITY_TYPE_INDEX).getAllKeys(this.entityType)
+      request.onsuccess = () => request.result.forEach(key => objectStore.delete(key))
+      return () => undefined
+    })
+  }
+
+  /**
+   * Lit toutes les entités enregistrées pour ce type d'entité
+   * @private
+   */
+  private getAllRecords(): Promise<LocalRecord[]> {
+    return this.runTransaction('readonly', objectStore => {
+      const request = objectStore.index(ENTITY_TYPE_INDEX).getAll(this.entityType)
+      return () => request.result
+    })
+  }
+
+  /**
+   * Lit puis écrit une entité dans une même transaction
+   * Une erreur levée par update annule la transaction et est propagée
+   * @private
+   */
+  private readWrite(
+    frontId: string,
+    update: (existing: LocalRecord | undefined) => LocalRecord
+  ): Promise<LocalRecord> {
+    return this.runTransaction('readwrite', (objectStore, abort) => {
+      let record: LocalRecord
+      const request = objectStore.get(this.keyOf(frontId))
+      request.onsuccess = () => {
+        const existing: LocalRecord | undefined = request.result
+        try {
+          record = update(existing)
+        } catch (error) {
+          abort(error)
+          return
+        }
+        if (record !== existing) {
+          objectStore.put(record)
+        }
+      }
+      return () => record
+    })
+  }
+
+  /**
+   * Exécute une opération dans une seule transaction de l'object store
+   * L'opération lance ses requêtes de façon synchrone (les suivantes dans les callbacks des précédentes) :
+   * une attente entre deux requêtes laisserait la transaction se terminer
+   * Elle retourne la lecture de son résultat, appelée une fois la transaction terminée
+   * @private
+   */
+  private async runTransaction<R>(
+    mode: IDBTransactionMode,
+    operation: (objectStore: IDBObjectStore, abort: (error: unknown) => void) => () => R
+  ): Promise<R> {
+    const database = await openDatabase(this.databaseName)
+    const transaction = database.transaction(LOCAL_PERSISTENCE_DEFAULTS.STORE_NAME, mode)
+    const completed = promisifyTransaction(transaction)
+    let failure: { error: unknown } | undefined
+    const result = operation(transaction.objectStore(LOCAL_PERSISTENCE_DEFAULTS.STORE_NAME), error => {
+      failure = { error }
+      transaction.abort()
+    })
+    try {
+      await completed
+    } catch (error) {
+      throw failure ? failure.error : error
+    }
+    return result()
+  }
+
+  /**
+   * Construit l'entité persistée, comme le ferait la réponse du backend
+   * @private
+   */
+  private toPersisted(entity: PersistableEntity<T>, record: LocalRecord): PersistableEntity<T> {
+    return {
+      data: this.toData(record),
+      metadata: {
+        ...entity.metadata,
+        backendId: record.backendId,
+        version: record.version,
+        syncStatus: 'synced',
+        lastSyncAt: getClock().now()
+      }
+    }
+  }
+
+  /**
+   * Données d'une entité enregistrée, avec son identifiant backend et sa version
+   * @private
+   */
+  private toData(record: LocalRecord): T {
+    return { ...record.data, _id: record.backendId, version: record.version } as T
+  }
+
+  /**
+   * @private
+   */
+  private toRecord(
+    frontId: string,
+    backendId: string,
+    version: number,
+    data: Record<string, unknown>,
+    context?: PersistContext
+  ): LocalRecord {
+    return {
+      key: this.keyOf(frontId),
+      entityType: this.entityType,
+      frontId,
+      backendId,
+      version,
+      updatedAt: getClock().now(),
+      idempotencyKey: context?.idempotencyKey,
+      data
+    }
+  }
+
+  /**
+   * Copie brute des données : les objets réactifs (Proxy Vue) ne sont pas clonables
+   * @private
+   */
+  private toPlain(data: T | Partial<T>): Record<string, unknown> {
+    return JSON.parse(JSON.stringify(data ?? {}))
+  }
+
+  /**
+   * @private
+   */
+  private keyOf(frontId: string): string {
+    return `${this.entityType}:${frontId}`
+  }
+
+  /**
+   * Identifiant backend synthétique (UUID préfixé)
+   * @private
+   */
+  private createBackendId(): string {
+    return `${LOCAL_PERSISTENCE_DEFAULTS.ID_PREFIX}${createIdempotencyKey()}`
+  }
+}
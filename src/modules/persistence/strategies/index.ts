@@ -0,0 +1,5 @@
+/**
+ * Exports centralisés des stratégies de persistance fournies par le module
+ */
+
+export { LocalPersistenceStrategy, type LocalPersistenceStrategyOptions } from './LocalPersistenceStrategy'
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { VirtualClock, setClock } from '../core/clock'
+import { ConnectivityMonitor } from './connectivity'
+import { useConnectivityStore } from './store'
+
+describe('ConnectivityMonitor', () => {
+  let clock: VirtualClock
+  let monitor: ConnectivityMonitor
+  let browserOnline: boolean
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    clock = new VirtualClock(1_000_000)
+    setClock(clock)
+    browserOnline = true
+    vi.spyOn(navigator, 'onLine', 'get').mockImplementation(() => browserOnline)
+  })
+
+  afterEach(() => {
+    monitor.stop()
+    setClock()
+    vi.restoreAllMocks()
+  })
+
+  /**
+   * Démarre un moniteur et enregistre ses changements d'état
+   */
+  const start = (heartbeat?: () => Promise<boolean>) => {
+    monitor = new ConnectivityMonitor({ heartbeat, heartbeatIntervalMs: 30_000 })
+    const changes: boolean[] = []
+    monitor.onChange(online => changes.push(online))
+    monitor.start()
+    return changes
+  }
+
+  /**
+   * Simule un changement de connexion signalé par le navigateur
+   */
+  const setBrowserOnline = (online: boolean) => {
+    browserOnline = online
+    window.dispatchEvent(new Event(online ? 'online' : 'offline'))
+  }
+
+  it('follows the online and offline events of the browser', async () => {
+    const changes = start()
+
+    setBrowserOnline(false)
+    expect(monitor.isOnline()).toBe(false)
+
+    setBrowserOnline(true)
+    await vi.waitFor(() => expect(changes).toEqual([false, true]))
+    expect(useConnectivityStore().isOnline).toBe(true)
+  })
+
+  it('stays offline until the heartbeat reaches the backend', async () => {
+    let reachable = false
+    const changes = start(async () => reachable)
+    await vi.waitFor(() => expect(changes).toEqual([false]))
+
+    setBrowserOnline(true)
+    await monitor.check()
+    expect(monitor.isOnline()).toBe(false)
+
+    reachable = true
+    await clock.advance(30_000)
+    await vi.waitFor(() => expect(changes).toEqual([false, true]))
+  })
+
+  it('goes offline when the heartbeat fails', async () => {
+    const changes = start(async () => { throw new Error('Network Error') })
+
+    await vi.waitFor(() => expect(changes).toEqual([false]))
+    expect(monitor.isOnline()).toBe(false)
+  })
+
+  it('shares a running check', async () => {
+    const heartbeat = vi.fn(async () => true)
+    start(heartbeat)
+
+    await Promise.all([monitor.check(), monitor.check()])
+
+    // Les deux appels rejoignent la vérification lancée au démarrage
+    expect(heartbeat).toHaveBeenCalledOnce()
+  })
+})
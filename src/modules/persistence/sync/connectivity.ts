@@ -0,0 +1,140 @@
+/**
+ * Surveillance de la connectivité réseau
+ * Combine navigator.onLine (événements online/offline) et un heartbeat optionnel vers le backend
+ * Permet de suspendre la queue hors ligne au lieu de consommer les retries des tâches
+ */
+
+import { CONNECTIVITY_DEFAULTS } from '../core/constants'
+import { getClock, type TimerHandle } from '../core/clock'
+import { useConnectivityStore } from './store'
+
+/**
+ * Options du moniteur de connectivité
+ */
+export interface ConnectivityOptions {
+  /**
+   * Vérifie que le backend est joignable (optionnel)
+   * Doit résoudre true si le backend répond ; un rejet ou false signifie hors ligne
+   * Sans heartbeat, seul navigator.onLine est utilisé
+   */
+  heartbeat?: () => Promise<boolean>
+
+  /**
+   * Intervalle entre deux heartbeats en ms (défaut: CONNECTIVITY_DEFAULTS.HEARTBEAT_INTERVAL_MS)
+   */
+  heartbeatIntervalMs?: number
+}
+
+/**
+ * Moniteur de connectivité
+ * - Hors ligne dès l'événement 'offline' ou l'échec du heartbeat
+ * - En ligne dès l'événement 'online' (confirmé par le heartbeat s'il est configuré)
+ * L'état est exposé dans useConnectivityStore et notifié via onChange
+ */
+export class ConnectivityMonitor {
+  private heartbeat?: () => Promise<boolean>
+  private heartbeatIntervalMs: number
+  private intervalId: TimerHandle | null = null
+  private currentCheck: Promise<boolean> | null = null
+  private listeners = new Set<(online: boolean) => void>()
+  private readonly handleOnline = () => {
+    this.check().catch(() => {})
+  }
+  private readonly handleOffline = () => {
+    this.update(false)
+  }
+
+  constructor(options: ConnectivityOptions = {}) {
+    this.heartbeat = options.heartbeat
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? CONNECTIVITY_DEFAULTS.HEARTBEAT_INTERVAL_MS
+  }
+
+  /**
+   * Démarre la surveillance (événements du navigateur et heartbeat périodique)
+   */
+  start(): void {
+    window.addEventListener('online', this.handleOnline)
+    window.addEventListener('offline', this.handleOffline)
+
+    this.update(navigator.onLine)
+    if (this.heartbeat) {
+      this.check().catch(() => {})
+      if (this.heartbeatIntervalMs > 0 && !this.intervalId) {
+        this.intervalId = getClock().setInterval(() => this.check().catch(() => {}), this.heartbeatIntervalMs)
+      }
+    }
+  }
+
+  /**
+   * Arrête la surveillance
+   */
+  stop(): void {
+    window.removeEventListener('online', this.handleOnline)
+    window.removeEventListener('offline', this.handleOffline)
+    if (this.intervalId) {
+      getClock().clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+  }
+
+  /**
+   * Retourne le dernier état connu
+   */
+  isOnline(): boolean {
+    return useConnectivityStore().isOnline
+  }
+
+  /**
+   * Vérifie immédiatement la connectivité (heartbeat si configuré)
+   * Si une vérification est déjà en cours, retourne la même promesse
+   * @returns true si en ligne
+   */
+  check(): Promise<boolean> {
+    if (!this.currentCheck) {
+      this.currentCheck = this.runCheck().finally(() => {
+        this.currentCheck = null
+      })
+    }
+    return this.currentCheck
+  }
+
+  /**
+   * Écoute les changements d'état (true = retour en ligne, false = perte de connexion)
+   * @returns Une fonction pour se désabonner
+   */
+  onChange(listener: (online: boolean) => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /**
+   * Exécute la vérification
+   * @private
+   */
+  private async runCheck(): Promise<boolean> {
+    if (!navigator.onLine || !this.heartbeat) {
+      return this.update(navigator.onLine)
+    }
+
+    let reachable = false
+    try {
+      reachable = await this.heartbeat()
+    } catch {
+      reachable = false
+    }
+    return this.update(reachable && navigator.onLine)
+  }
+
+  /**
+   * Met à jour l'état et notifie les listeners en cas de changement
+   * @private
+   */
+  private update(online: boolean): boolean {
+    const changed = useConnectivityStore().setOnline(online)
+    if (changed) {
+      console.log(`[ConnectivityMonitor] Connectivity changed: ${online ? 'online' : 'offline'}`)
+      this.listeners.forEach(listener => listener(online))
+    }
+    return online
+  }
+}
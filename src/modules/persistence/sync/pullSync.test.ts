@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { DEFAULT_RETRY_CONFIG } from '../core/retryManager'
+import { createTask } from '../core/taskHelpers'
+import { PersistedQueueManager } from '../queue/QueueManager'
+import { PullSyncManager, resolvePullCursor, type PullChanges, type PullSource } from './pullSync'
+import { usePullSyncStore } from './store'
+
+interface Tag {
+  frontId: string
+  title: string
+  updatedAt: number
+  synced?: boolean
+}
+
+/**
+ * Source de tags en mémoire : fetch renvoie les modifications fournies par le test
+ */
+function createSource(initial: Tag[] = []) {
+  const tags = new Map(initial.map(tag => [tag.frontId, tag]))
+  const requests: Array<number | undefined> = []
+  let respond: (since?: number) => Promise<PullChanges<Tag>> = async () => ({ items: [], deletedIds: [] })
+
+  const source: PullSource<Tag> = {
+    entityType: 'tag',
+    fetchChanges: since => {
+      requests.push(since)
+      return respond(since)
+    },
+    getFrontId: tag => tag.frontId,
+    upsert: tag => { tags.set(tag.frontId, { ...tag, synced: true }) },
+    remove: frontId => { tags.delete(frontId) },
+    listSyncedFrontIds: () => [...tags.values()].filter(tag => tag.synced).map(tag => tag.frontId),
+    getUpdatedAt: tag => tag.updatedAt
+  }
+
+  return {
+    source,
+    tags,
+    requests,
+    respondWith: (handler: typeof respond) => { respond = handler }
+  }
+}
+
+const tag = (frontId: string, updatedAt: number, synced = true): Tag => ({ frontId, title: frontId, updatedAt, synced })
+
+describe('resolvePullCursor', () => {
+  it('advances to the server cursor when nothing was skipped', () => {
+    expect(resolvePullCursor(10, 20, [])).toBe(20)
+    expect(resolvePullCursor(10, undefined, [])).toBe(10)
+  })
+
+  it('holds the cursor before the oldest skipped entity', () => {
+    expect(resolvePullCursor(10, 20, [15, 18])).toBe(14)
+    expect(resolvePullCursor(10, 20, [15, undefined])).toBe(10)
+  })
+})
+
+describe('PullSyncManager', () => {
+  let queue: PersistedQueueManager
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {}, false)
+    queue.pause('offline')
+  })
+
+  it('removes synced entities missing from a full sync, then pulls from the cursor', async () => {
+    const { source, tags, requests, respondWith } = createSource([tag('t1', 1), tag('t2', 1), tag('draft', 1, false)])
+    const manager = new PullSyncManager([source], queue, { intervalMs: 0 })
+    respondWith(async () => ({ items: [tag('t1', 5)], deletedIds: [], cursor: 5 }))
+
+    await manager.pullNow()
+    await manager.pullNow()
+
+    expect([...tags.keys()]).toEqual(['t1', 'draft'])
+    expect(requests).toEqual([undefined, 5])
+  })
+
+  it('keeps an entity synced while the full sync request was running', async () => {
+    const { source, tags, respondWith } = createSource([tag('t1', 1)])
+    const manager = new PullSyncManager([source], queue, { intervalMs: 0 })
+    respondWith(async () => {
+      // Créée localement et persistée pendant la requête : absente de la réponse
+      tags.set('t2', tag('t2', 6))
+      return { items: [tag('t1', 5)], deletedIds: [], cursor: 5 }
+    })
+
+    await manager.pullNow()
+
+    expect([...tags.keys()]).toEqual(['t1', 't2'])
+  })
+
+  it('does not overwrite entities with pending tasks and holds the cursor before them', async () => {
+    const { source, tags, respondWith } = createSource([tag('t1', 1)])
+    const manager = new PullSyncManager([source], queue, { intervalMs: 0 })
+    queue.enqueue(createTask('update', 'tag', { title: 'local' }, 't1', 3))
+    respondWith(async () => ({ items: [{ ...tag('t1', 8), title: 'remote' }, tag('t2', 9)], deletedIds: [], cursor: 9 }))
+
+    await manager.pullNow()
+
+    expect(tags.get('t1')?.title).toBe('t1')
+    expect(tags.has('t2')).toBe(true)
+    expect(usePullSyncStore().getCursor('tag')).toBe(7)
+  })
+
+  it('drops the results of a pull started before the cursors were reset', async () => {
+    const { source, tags, respondWith } = createSource()
+    const manager = new PullSyncManager([source], queue, { intervalMs: 0 })
+    respondWith(async () => {
+      usePullSyncStore().resetCursors()
+      return { items: [tag('t1', 5)], deletedIds: [], cursor: 5 }
+    })
+
+    await manager.pullNow()
+
+    expect(tags.size).toBe(0)
+    expect(usePullSyncStore().getCursor('tag')).toBeUndefined()
+  })
+})
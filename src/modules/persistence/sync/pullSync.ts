@@ -0,0 +1,251 @@
+/**
+ * Synchronisation descendante (pull) des entités depuis le backend
+ * Complète la queue de persistance (push) : récupère les modifications faites
+ * sur d'autres appareils depuis le dernier curseur et les applique aux stores
+ */
+
+import type { PersistedQueueManager } from '../queue/QueueManager'
+import { getTaskEntityKey } from '../queue/utils/compaction'
+import { PULL_SYNC_DEFAULTS } from '../core/constants'
+import { getClock, type TimerHandle } from '../core/clock'
+import { usePullSyncStore } from './store'
+
+/**
+ * Modifications renvoyées par une source depuis un curseur
+ */
+export interface PullChanges<T = unknown> {
+  items: T[]
+  deletedIds: string[]
+  /**
+   * Curseur fourni par le serveur (jamais l'horloge du client : décalage d'horloge)
+   * undefined : le curseur n'avance pas
+   */
+  cursor?: number
+}
+
+/**
+ * Source de synchronisation pour un type d'entité
+ * Fait le lien entre l'API du projet (fetchChanges) et le store (upsert/remove)
+ * upsert et remove ne doivent PAS émettre d'événements d'entité (pas de boucle de persistance)
+ */
+export interface PullSource<T = unknown> {
+  /**
+   * Type d'entité géré par cette source
+   */
+  entityType: string
+
+  /**
+   * Récupère les modifications depuis un curseur (undefined = synchronisation complète)
+   */
+  fetchChanges(since?: number): Promise<PullChanges<T>>
+
+  /**
+   * Retourne le frontId d'une entité distante
+   */
+  getFrontId(entity: T): string
+
+  /**
+   * Applique une entité distante dans le store (création ou mise à jour)
+   */
+  upsert(entity: T): void
+
+  /**
+   * Retire une entité supprimée côté serveur du store
+   */
+  remove(frontId: string): void
+
+  /**
+   * Optionnel : frontId des entités locales déjà synchronisées avec le backend
+   * Permet de détecter les suppressions lors d'une synchronisation complète (lu avant la requête)
+   */
+  listSyncedFrontIds?(): string[]
+
+  /**
+   * Optionnel : date de dernière modification d'une entité distante, dans l'unité du curseur
+   * Une entité ignorée (tâche locale en attente) retient le curseur juste avant cette date,
+   * pour être récupérée au pull suivant ; sans cette date, le curseur n'avance pas
+   */
+  getUpdatedAt?(entity: T): number | undefined
+}
+
+/**
+ * Options du gestionnaire de pull sync
+ */
+export interface PullSyncOptions {
+  /**
+   * Intervalle entre deux synchronisations automatiques en ms (défaut: PULL_SYNC_DEFAULTS.INTERVAL_MS)
+   * 0 désactive la synchronisation périodique
+   */
+  intervalMs?: number
+
+  /**
+   * Condition pour autoriser un pull (ex: utilisateur connecté)
+   */
+  shouldPull?: () => boolean
+
+  /**
+   * Espace synchronisé (ex: identifiant de l'utilisateur connecté)
+   * Les curseurs appartiennent à cet espace : quand il change, ils sont réinitialisés
+   * (synchronisation complète) ; null/undefined (ex: utilisateur pas encore chargé) ne change rien
+   */
+  scope?: () => string | null | undefined
+}
+
+/**
+ * Calcule le curseur à enregistrer après un pull (PURE)
+ * Le curseur n'avance pas au-delà d'une entité ignorée : il est retenu juste avant la plus ancienne
+ * (ou au curseur précédent si sa date est inconnue, ex: suppression)
+ *
+ * @param since - Curseur du pull
+ * @param cursor - Curseur fourni par le serveur
+ * @param skippedAt - Dates de modification des entités ignorées (undefined si inconnue)
+ */
+export function resolvePullCursor(
+  since: number | undefined,
+  cursor: number | undefined,
+  skippedAt: ReadonlyArray<number | undefined>
+): number | undefined {
+  if (cursor === undefined || skippedAt.length === 0) {
+    return cursor ?? since
+  }
+  if (skippedAt.some(time => time === undefined)) {
+    return since
+  }
+  return Math.min(cursor, Math.min(...(skippedAt as number[])) - 1)
+}
+
+/**
+ * Gestionnaire de synchronisation descendante
+ * - Au démarrage, périodiquement et à la demande
+ * - Les sources sont synchronisées dans l'ordre (ex: tags avant notes)
+ * - Les entités ayant des tâches locales en attente sont ignorées (la version locale prime)
+ */
+export class PullSyncManager {
+  private sources: PullSource[]
+  private queue: PersistedQueueManager
+  private intervalMs: number
+  private shouldPull: () => boolean
+  private scope: () => string | null | undefined
+  private intervalId: TimerHandle | null = null
+  private currentPull: Promise<void> | null = null
+
+  constructor(sources: PullSource[], queue: PersistedQueueManager, options: PullSyncOptions = {}) {
+    this.sources = sources
+    this.queue = queue
+    this.intervalMs = options.intervalMs ?? PULL_SYNC_DEFAULTS.INTERVAL_MS
+    this.shouldPull = options.shouldPull ?? (() => true)
+    this.scope = options.scope ?? (() => undefined)
+  }
+
+  /**
+   * Démarre la synchronisation : un pull immédiat puis un pull périodique
+   */
+  start(): void {
+    // Les erreurs sont déjà loguées et exposées dans le store : on ne les propage pas ici
+    this.pullNow().catch(() => {})
+    if (this.intervalMs > 0 && !this.intervalId) {
+      this.intervalId = getClock().setInterval(() => this.pullNow().catch(() => {}), this.intervalMs)
+    }
+  }
+
+  /**
+   * Arrête la synchronisation périodique
+   */
+  stop(): void {
+    if (this.intervalId) {
+      getClock().clearInterval(this.intervalId)
+      this.intervalId = null
+    }
+  }
+
+  /**
+   * Lance une synchronisation immédiate
+   * Si un pull est déjà en cours, retourne la même promesse (pas de pulls concurrents)
+   */
+  pullNow(): Promise<void> {
+    if (!this.currentPull) {
+      this.currentPull = this.pull().finally(() => {
+        this.currentPull = null
+      })
+    }
+    return this.currentPull
+  }
+
+  /**
+   * Synchronise toutes les sources
+   * @private
+   */
+  private async pull(): Promise<void> {
+    if (!this.shouldPull()) return
+
+    const store = usePullSyncStore()
+    store.setScope(this.scope())
+    store.isPulling = true
+    store.lastError = null
+
+    try {
+      for (const source of this.sources) {
+        await this.pullSource(source)
+      }
+      store.lastPullAt = getClock().now()
+    } catch (error) {
+      console.warn('[PullSyncManager] Pull failed:', error)
+      store.lastError = error
+      throw error
+    } finally {
+      store.isPulling = false
+    }
+  }
+
+  /**
+   * Synchronise une source depuis son curseur
+   * @private
+   */
+  private async pullSource(source: PullSource): Promise<void> {
+    const store = usePullSyncStore()
+    const since = store.getCursor(source.entityType)
+    const generation = store.generation
+    // Synchronisation complète : entités synchronisées avant la requête
+    // Une entité synchronisée pendant la requête peut en être absente sans avoir été supprimée
+    const syncedBeforeFetch = since === undefined ? source.listSyncedFrontIds?.() : undefined
+    const changes = await source.fetchChanges(since)
+
+    // Curseurs réinitialisés pendant la requête (ex: changement de compte) : résultats obsolètes
+    if (store.generation !== generation) return
+
+    // Les entités avec des tâches locales en attente ne sont pas écrasées
+    const pendingKeys = new Set(this.queue.getPendingTasks().map(getTaskEntityKey))
+    const isPending = (frontId: string) => pendingKeys.has(`${source.entityType}:${frontId}`)
+
+    // Dates des entités ignorées : le curseur ne doit pas les dépasser
+    const skippedAt: Array<number | undefined> = []
+
+    for (const item of changes.items) {
+      if (isPending(source.getFrontId(item))) {
+        skippedAt.push(source.getUpdatedAt?.(item))
+        continue
+      }
+      source.upsert(item)
+    }
+
+    // Synchronisation complète : les entités synchronisées absentes du serveur ont été supprimées
+    const deletedIds = [...changes.deletedIds]
+    if (syncedBeforeFetch) {
+      const remoteIds = new Set(changes.items.map(item => source.getFrontId(item)))
+      deletedIds.push(...syncedBeforeFetch.filter(frontId => !remoteIds.has(frontId)))
+    }
+
+    for (const frontId of deletedIds) {
+      if (isPending(frontId)) {
+        skippedAt.push(undefined)
+        continue
+      }
+      source.remove(frontId)
+    }
+
+    const cursor = resolvePullCursor(since, changes.cursor, skippedAt)
+    if (cursor !== undefined && cursor !== since) {
+      store.setCursor(source.entityType, cursor)
+    }
+  }
+}
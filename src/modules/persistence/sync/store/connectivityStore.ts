@@ -0,0 +1,44 @@
+/**
+ * Store Pinia pour l'état de connectivité (non persisté)
+ * Alimenté par le ConnectivityMonitor, lu par l'UI via useConnectivity()
+ * Code pur, respecte le principe SOC
+ */
+
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { getClock } from '../../core/clock'
+
+/**
+ * Store pour exposer l'état de connectivité de manière réactive
+ */
+export const useConnectivityStore = defineStore('persistenceConnectivity', () => {
+  // État : application en ligne (réseau disponible et backend joignable si heartbeat configuré)
+  const isOnline = ref(typeof navigator === 'undefined' ? true : navigator.onLine)
+
+  // État : timestamp du dernier changement d'état
+  const lastChangeAt = ref<number | null>(null)
+
+  // État : timestamp de la dernière vérification (heartbeat)
+  const lastCheckAt = ref<number | null>(null)
+
+  /**
+   * Met à jour l'état de connectivité
+   * @returns true si l'état a changé
+   */
+  function setOnline(online: boolean): boolean {
+    lastCheckAt.value = getClock().now()
+    if (isOnline.value === online) return false
+    isOnline.value = online
+    lastChangeAt.value = getClock().now()
+    return true
+  }
+
+  return {
+    // État
+    isOnline,
+    lastChangeAt,
+    lastCheckAt,
+    // Méthodes
+    setOnline
+  }
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createApp } from 'vue'
+import { createPinia, setActivePinia } from 'pinia'
+import piniaPluginPersistedstate from 'pinia-plugin-persistedstate'
+import { VirtualClock, setClock } from '../../core/clock'
+import { ENTITY_EVENTS } from '../../core/events'
+import { PersistenceEventBus } from '../../core/persistenceEventBus'
+import { PersistenceOrchestrator } from '../../core/orchestrator'
+import { DEFAULT_RETRY_CONFIG } from '../../core/retryManager'
+import type { PersistenceStrategy } from '../../core/types'
+import { PersistedQueueManager } from '../../queue/QueueManager'
+import { usePersistenceEntitySyncStore } from './entitySyncStore'
+
+/**
+ * Persistance complète dont la stratégie attend qu'on libère chaque requête
+ */
+function setup() {
+  const eventBus = new PersistenceEventBus()
+  const queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {}, false)
+  const orchestrator = new PersistenceOrchestrator(eventBus, queue)
+  const releases: Array<() => void> = []
+  const send = <R>(result: R) => new Promise<R>(resolve => releases.push(() => resolve(result)))
+  const strategy: PersistenceStrategy<unknown> = {
+    persistCreate: entity => send(entity),
+    persistUpdate: entity => send(entity),
+    persistDelete: () => send(undefined)
+  }
+  orchestrator.registerStrategy('note', strategy)
+  orchestrator.initializeProcessor()
+
+  /**
+   * Libère la prochaine requête envoyée
+   */
+  const release = async () => {
+    await vi.waitFor(() => expect(releases).toHaveLength(1))
+    releases.shift()!()
+  }
+
+  return { eventBus, queue, release }
+}
+
+describe('usePersistenceEntitySyncStore', () => {
+  let clock: VirtualClock
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    clock = new VirtualClock(1_000_000)
+    setClock(clock)
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('removes an entity once it is synced', async () => {
+    const { eventBus, queue, release } = setup()
+    const store = usePersistenceEntitySyncStore()
+
+    eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'note', data: { frontId: 'n1' } })
+    await vi.waitFor(() => expect(store.get('note', 'n1')?.syncStatus).toBe('syncing'))
+
+    await release()
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(store.get('note', 'n1')).toBeUndefined()
+    expect(store.summary).toMatchObject({ total: 0, isSynced: true })
+  })
+
+  it('keeps an entity pending while another of its tasks is queued', async () => {
+    const { eventBus, queue, release } = setup()
+    const store = usePersistenceEntitySyncStore()
+
+    eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'note', data: { frontId: 'n1' } })
+    await clock.advance(1)
+    // Modifiée pendant l'envoi de sa création
+    eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'note', id: 'n1', updates: { frontId: 'n1' } })
+
+    await release()
+    await vi.waitFor(() => expect(queue.size()).toBe(1))
+    expect(store.get('note', 'n1')?.syncStatus).toBe('syncing')
+
+    await release()
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+    expect(store.get('note', 'n1')).toBeUndefined()
+  })
+
+  it('drops synced entities left by a previous version on rehydration', () => {
+    const entity = (frontId: string, syncStatus: string) => ({ entityType: 'note', frontId, syncStatus, updatedAt: 1 })
+    localStorage.setItem('persistenceEntitySync', JSON.stringify({
+      version: 1,
+      data: { entities: { 'note:n1': entity('n1', 'synced'), 'note:n2': entity('n2', 'error') } }
+    }))
+    const pinia = createPinia()
+    pinia.use(piniaPluginPersistedstate)
+    // Les plugins ne s'appliquent qu'une fois Pinia installé dans une application
+    createApp({}).use(pinia)
+    setActivePinia(pinia)
+
+    expect(Object.keys(usePersistenceEntitySyncStore().entities)).toEqual(['note:n2'])
+    localStorage.clear()
+  })
+})
@@ -0,0 +1,129 @@
+/**
+ * Store Pinia pour l'état de synchronisation de chaque entité
+ * Registre alimenté par l'orchestrateur, lu par l'UI via useEntitySyncStatus() et useSyncSummary()
+ * Ne contient que les entités ayant des modifications locales non synchronisées :
+ * une entité synchronisée sans tâche en attente en est retirée
+ * Persisté dans localStorage : l'état survit au rechargement (ex: note toujours en erreur)
+ * Code pur, respecte le principe SOC
+ */
+
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { EntitySyncState, SyncSummary } from '../../core/types'
+import { getClock } from '../../core/clock'
+import { createVersionedSerializer } from '../../core/migrations'
+
+/**
+ * Retourne la clé d'une entité dans le registre
+ */
+function getEntityKey(entityType: string, frontId: string): string {
+  return `${entityType}:${frontId}`
+}
+
+/**
+ * Retire les entités synchronisées d'un registre restauré (PURE)
+ * Les versions précédentes du registre conservaient les entités une fois synchronisées
+ */
+function pruneSynced(state: Record<string, unknown>): Record<string, unknown> {
+  const entities = state.entities as Record<string, EntitySyncState> | undefined
+  if (!entities) return state
+  return {
+    ...state,
+    entities: Object.fromEntries(Object.entries(entities).filter(([, entity]) => entity.syncStatus !== 'synced'))
+  }
+}
+
+/**
+ * Store pour suivre l'état de synchronisation par entité
+ */
+export const usePersistenceEntitySyncStore = defineStore('persistenceEntitySync', () => {
+  // État : états de synchronisation indexés par entityType:frontId
+  const entities = ref<Record<string, EntitySyncState>>({})
+
+  // Computed : résumé pour l'UI (badge global)
+  const summary = computed<SyncSummary>(() => {
+    const states = Object.values(entities.value)
+    const count = (status: EntitySyncState['syncStatus']) => states.filter(s => s.syncStatus === status).length
+    const result = {
+      total: states.length,
+      pending: count('pending'),
+      syncing: count('syncing'),
+      synced: count('synced'),
+      error: count('error'),
+      conflict: count('conflict'),
+      failed: states.filter(s => s.failedPermanently).length
+    }
+    return { ...result, isSynced: result.total === result.synced }
+  })
+
+  /**
+   * Retourne l'état d'une entité (undefined si elle n'a pas de modification locale non synchronisée)
+   */
+  function get(entityType: string, frontId: string): EntitySyncState | undefined {
+    return entities.value[getEntityKey(entityType, frontId)]
+  }
+
+  /**
+   * Met à jour l'état d'une entité
+   * Les champs absents de update sont conservés, sauf l'erreur qui est effacée hors statut 'error'
+   */
+  function set(
+    entityType: string,
+    frontId: string,
+    update: Partial<Omit<EntitySyncState, 'entityType' | 'frontId' | 'updatedAt'>>
+  ): void {
+    const key = getEntityKey(entityType, frontId)
+    const previous = entities.value[key]
+    const next: EntitySyncState = {
+      ...previous,
+      ...update,
+      entityType,
+      frontId,
+      syncStatus: update.syncStatus ?? previous?.syncStatus ?? 'pending',
+      updatedAt: getClock().now()
+    }
+    if (next.syncStatus !== 'error') {
+      next.error = undefined
+      next.failedPermanently = undefined
+    }
+    entities.value = { ...entities.value, [key]: next }
+  }
+
+  /**
+   * Retire une entité du registre (entité synchronisée ou supprimée)
+   */
+  function remove(entityType: string, frontId: string): void {
+    const key = getEntityKey(entityType, frontId)
+    if (!(key in entities.value)) return
+    const next = { ...entities.value }
+    delete next[key]
+    entities.value = next
+  }
+
+  /**
+   * Vide le registre
+   */
+  function clear(): void {
+    entities.value = {}
+  }
+
+  return {
+    // État
+    entities,
+    // Computed
+    summary,
+    // Méthodes
+    get,
+    set,
+    remove,
+    clear
+  }
+}, {
+  // Configuration de persistance Pinia
+  persist: {
+    key: 'persistenceEntitySync',
+    storage: localStorage,
+    pick: ['entities'],
+    serializer: createVersionedSerializer('persistenceEntitySync', { validate: pruneSynced })
+  }
+})
@@ -0,0 +1,8 @@
+/**
+ * Exports centralisés du store de synchronisation
+ */
+
+export { usePullSyncStore } from './pullSyncStore'
+export { useConnectivityStore } from './connectivityStore'
+export { usePersistenceEntitySyncStore } from './entitySyncStore'
+export { useUndoHistoryStore } from './undoHistoryStore'
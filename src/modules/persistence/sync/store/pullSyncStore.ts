@@ -0,0 +1,90 @@
+/**
+ * Store Pinia pour l'état de la synchronisation descendante (pull)
+ * Persiste les curseurs par type d'entité dans localStorage, avec l'espace (utilisateur) auquel ils appartiennent
+ * Code pur, respecte le principe SOC
+ */
+
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { createVersionedSerializer } from '../../core/migrations'
+
+/**
+ * Store pour gérer l'état du pull sync
+ * Seuls les curseurs et la date du dernier pull sont persistés
+ */
+export const usePullSyncStore = defineStore('persistencePullSync', () => {
+  // État : curseur de la dernière synchronisation réussie, par type d'entité
+  const cursors = ref<Record<string, number>>({})
+
+  // État : espace synchronisé auquel appartiennent les curseurs (ex: identifiant de l'utilisateur)
+  const scope = ref<string | null>(null)
+
+  // État : timestamp du dernier pull complet réussi
+  const lastPullAt = ref<number | null>(null)
+
+  // État : pull en cours (non persisté)
+  const isPulling = ref(false)
+
+  // État : dernière erreur de pull (non persistée)
+  const lastError = ref<unknown>(null)
+
+  // État : incrémenté à chaque réinitialisation des curseurs (non persisté)
+  // Un pull démarré avant une réinitialisation (ex: déconnexion) n'applique pas ses résultats
+  const generation = ref(0)
+
+  /**
+   * Retourne le curseur d'un type d'entité (undefined = synchronisation complète)
+   */
+  function getCursor(entityType: string): number | undefined {
+    return cursors.value[entityType]
+  }
+
+  /**
+   * Enregistre le curseur d'un type d'entité après une synchronisation réussie
+   */
+  function setCursor(entityType: string, cursor: number): void {
+    cursors.value = { ...cursors.value, [entityType]: cursor }
+  }
+
+  /**
+   * Associe les curseurs à un espace synchronisé
+   * Les curseurs d'un autre espace sont réinitialisés ; sans espace (null/undefined), rien ne change
+   */
+  function setScope(newScope: string | null | undefined): void {
+    if (newScope === null || newScope === undefined || newScope === scope.value) return
+    resetCursors()
+    scope.value = newScope
+  }
+
+  /**
+   * Réinitialise les curseurs (la prochaine synchronisation sera complète)
+   */
+  function resetCursors(): void {
+    cursors.value = {}
+    lastPullAt.value = null
+    generation.value++
+  }
+
+  return {
+    // État
+    cursors,
+    scope,
+    lastPullAt,
+    isPulling,
+    lastError,
+    generation,
+    // Méthodes
+    getCursor,
+    setCursor,
+    setScope,
+    resetCursors
+  }
+}, {
+  // Configuration de persistance Pinia
+  persist: {
+    key: 'persistencePullSync',
+    storage: localStorage,
+    pick: ['cursors', 'scope', 'lastPullAt'],
+    serializer: createVersionedSerializer('persistencePullSync')
+  }
+})
@@ -0,0 +1,89 @@
+/**
+ * Store Pinia pour l'historique d'annulation (non persisté)
+ * Alimenté par l'UndoManager, lu par l'UI via useUndoRedo()
+ * Code pur, respecte le principe SOC
+ */
+
+import { defineStore } from 'pinia'
+import { shallowRef, computed } from 'vue'
+import type { HistoryStep } from '../../core/types'
+
+/**
+ * Store pour exposer l'historique d'annulation de manière réactive
+ * Les piles sont des shallowRef : les versions d'entités conservées ne deviennent pas réactives
+ */
+export const useUndoHistoryStore = defineStore('persistenceUndoHistory', () => {
+  // État : étapes annulables (la plus récente en dernier)
+  const undoStack = shallowRef<HistoryStep[]>([])
+
+  // État : étapes annulées pouvant être rétablies (la plus récente en dernier)
+  const redoStack = shallowRef<HistoryStep[]>([])
+
+  // Computed : disponibilité des actions
+  const canUndo = computed(() => undoStack.value.length > 0)
+  const canRedo = computed(() => redoStack.value.length > 0)
+
+  /**
+   * Enregistre une nouvelle étape : les étapes annulées ne peuvent plus être rétablies
+   */
+  function record(step: HistoryStep, maxSteps: number): void {
+    pushUndo(step, maxSteps)
+    redoStack.value = []
+  }
+
+  /**
+   * Ajoute une étape annulable (les plus anciennes sont oubliées au-delà de maxSteps)
+   */
+  function pushUndo(step: HistoryStep, maxSteps: number): void {
+    undoStack.value = [...undoStack.value, step].slice(-maxSteps)
+  }
+
+  /**
+   * Ajoute une étape annulée
+   */
+  function pushRedo(step: HistoryStep): void {
+    redoStack.value = [...redoStack.value, step]
+  }
+
+  /**
+   * Retire et retourne la dernière étape annulable
+   */
+  function popUndo(): HistoryStep | undefined {
+    const step = undoStack.value[undoStack.value.length - 1]
+    undoStack.value = undoStack.value.slice(0, -1)
+    return step
+  }
+
+  /**
+   * Retire et retourne la dernière étape annulée
+   */
+  function popRedo(): HistoryStep | undefined {
+    const step = redoStack.value[redoStack.value.length - 1]
+    redoStack.value = redoStack.value.slice(0, -1)
+    return step
+  }
+
+  /**
+   * Vide l'historique
+   */
+  function clear(): void {
+    undoStack.value = []
+    redoStack.value = []
+  }
+
+  return {
+    // État
+    undoStack,
+    redoStack,
+    // Computed
+    canUndo,
+    canRedo,
+    // Méthodes
+    record,
+    pushUndo,
+    pushRedo,
+    popUndo,
+    popRedo,
+    clear
+  }
+})
@@ -0,0 +1,31 @@
+/**
+ * Synchronisation d'un store Pinia persisté entre onglets
+ * S'appuie sur l'événement 'storage' : quand un autre onglet écrit la clé du store,
+ * le store local est ré-hydraté depuis localStorage (pinia-plugin-persistedstate)
+ */
+
+/**
+ * Store Pinia persisté via pinia-plugin-persistedstate
+ */
+export interface HydratableStore {
+  $id: string
+  $hydrate: (options?: { runHooks?: boolean }) => void
+}
+
+/**
+ * Ré-hydrate le store à chaque modification de sa clé par un autre onglet
+ * Les stores ne ré-émettent pas d'événements d'entité : pas de boucle de persistance
+ *
+ * @param store - Store persisté à synchroniser
+ * @param storageKey - Clé localStorage du store (défaut: $id du store)
+ * @returns Une fonction pour arrêter la synchronisation
+ */
+export function syncStoreAcrossTabs(store: HydratableStore, storageKey: string = store.$id): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.storageArea === localStorage && event.key === storageKey) {
+      store.$hydrate({ runHooks: false })
+    }
+  }
+  window.addEventListener('storage', onStorage)
+  return () => window.removeEventListener('storage', onStorage)
+}
@@ -5,7 +5,7 @@
  */
 
 import type { EventBus } from '../core/eventBus'
-import type { PersistenceEvents } from '../core/types'
+import type { PersistenceEvents, PersistenceOperation } from '../core/types'
 import { PERSISTENCE_EVENTS } from '../core/events'
 
 /**
@@ -31,6 +31,64 @@ export interface SyncAdapter<T = unknown> {
    * @param entity - L'entité concernée
    */
   onError?: (error: unknown, entity: T) => void
+
+  /**
+   * Fonction optionnelle appelée quand un conflit attend le choix de l'utilisateur
+   * @param conflict - Les deux versions de l'entité et la tâche concernée
+   */
+  onConflict?: (conflict: EntityConflict<T>) => void
+
+  /**
+   * Fonction optionnelle appelée quand un conflit est résolu
+   * Permet d'appliquer la version retenue (distante ou fusionnée) dans le store
+   * @param resolved - La version retenue de l'entité
+   */
+  applyResolved?: (resolved: T) => void
+
+  /**
+   * Fonction optionnelle appelée quand une tâche échoue définitivement
+   * Doit annuler la modification optimiste dans le store, sans émettre d'événement :
+   * retirer l'entité pour un create, restaurer previous pour un update ou un delete
+   * @param rollback - L'opération annulée et la version précédente de l'entité
+   */
+  rollback?: (rollback: EntityRollback<T>) => void
+
+  /**
+   * Fonction optionnelle retournant l'entité courante du store (historique d'annulation)
+   * @param frontId - Identifiant front de l'entité
+   */
+  find?: (frontId: string) => T | undefined
+
+  /**
+   * Fonction optionnelle remplaçant une entité du store sans émettre d'événement (historique d'annulation)
+   * Les champs attribués par le backend (_id, version) de l'entité courante doivent être conservés
+   * @param frontId - Identifiant front de l'entité
+   * @param entity - La version à restaurer, ou undefined pour retirer l'entité
+   */
+  restore?: (frontId: string, entity: T | undefined) => void
+}
+
+/**
+ * Conflit en attente de résolution, tel que transmis aux adapters
+ */
+export interface EntityConflict<T = unknown> {
+  taskId: string
+  entityType: string
+  frontId: string
+  local: T
+  remote?: T
+}
+
+/**
+ * Annulation d'une modification optimiste, telle que transmise aux adapters
+ * previous est absent pour un create (l'entité n'existe pas côté backend)
+ */
+export interface EntityRollback<T = unknown> {
+  taskId: string
+  entityType: string
+  frontId: string
+  operation: PersistenceOperation
+  previous?: T
 }
 
 /**
@@ -54,6 +112,13 @@ export class SyncAdaptersManager {
     console.log(`[SyncAdaptersManager] Adapter registered for entity type: ${adapter.entityType}`)
   }
   
+  /**
+   * Retourne l'adapter d'un type d'entité
+   */
+  get(entityType: string): SyncAdapter | undefined {
+    return this.adapters.get(entityType)
+  }
+
   /**
    * Enregistre plusieurs adapters
    */
@@ -93,6 +158,58 @@ export class SyncAdaptersManager {
         console.warn(`[SyncAdaptersManager] Persistence error for ${entityType}:`, task.payload.metadata.frontId, error)
       }
     })
+
+    // Écouter les conflits en attente de résolution
+    this.eventBus.on(PERSISTENCE_EVENTS.CONFLICT, ({ entityType, task, local, remote }) => {
+      const adapter = this.adapters.get(entityType)
+      if (adapter?.onConflict) {
+        try {
+          adapter.onConflict({
+            taskId: task.id,
+            entityType,
+            frontId: task.payload.metadata.frontId,
+            local,
+            remote
+          })
+        } catch (error) {
+          console.error(`[SyncAdaptersManager] Error in conflict handler for ${entityType}:`, error)
+        }
+      } else {
+        console.warn(`[SyncAdaptersManager] Unhandled conflict for ${entityType}:`, task.payload.metadata.frontId)
+      }
+    })
+
+    // Écouter les résolutions de conflit pour appliquer la version retenue
+    this.eventBus.on(PERSISTENCE_EVENTS.CONFLICT_RESOLVED, ({ entityType, resolved }) => {
+      const adapter = this.adapters.get(entityType)
+      if (adapter?.applyResolved && resolved !== undefined) {
+        try {
+          adapter.applyResolved(resolved)
+        } catch (error) {
+          console.error(`[SyncAdaptersManager] Error applying resolved entity for ${entityType}:`, error)
+        }
+      }
+    })
+
+    // Écouter les annulations de modifications optimistes (tâche en échec définitif)
+    this.eventBus.on(PERSISTENCE_EVENTS.ROLLED_BACK, ({ entityType, task, previous }) => {
+      const adapter = this.adapters.get(entityType)
+      if (adapter?.rollback) {
+        try {
+          adapter.rollback({
+            taskId: task.id,
+            entityType,
+            frontId: task.payload.metadata.frontId,
+            operation: task.operation,
+            previous
+          })
+        } catch (error) {
+          console.error(`[SyncAdaptersManager] Error in rollback handler for ${entityType}:`, error)
+        }
+      } else {
+        console.warn(`[SyncAdaptersManager] No rollback handler for ${entityType}:`, task.payload.metadata.frontId)
+      }
+    })
   }
 }
 
@@ -0,0 +1,162 @@
+/**
+ * Coordination entre onglets d'une même application
+ * - Élection d'un onglet leader via la Web Locks API (le verrou est libéré à la fermeture de l'onglet)
+ * - Échange de messages entre onglets via BroadcastChannel
+ * Code générique, sans connaissance du système de persistance
+ */
+
+import { TAB_COORDINATION_DEFAULTS } from '../core/constants'
+import { getClock } from '../core/clock'
+
+/**
+ * Options du coordinateur d'onglets
+ */
+export interface TabCoordinatorOptions {
+  /**
+   * Nom du BroadcastChannel (défaut: TAB_COORDINATION_DEFAULTS.CHANNEL_NAME)
+   */
+  channelName?: string
+
+  /**
+   * Nom du verrou d'élection (défaut: TAB_COORDINATION_DEFAULTS.LOCK_NAME)
+   */
+  lockName?: string
+}
+
+/**
+ * Coordinateur d'onglets
+ * Un seul onglet détient le verrou (leader) ; les autres attendent en file.
+ * Quand le leader se ferme, le navigateur libère le verrou et l'onglet suivant prend le relais.
+ */
+export class TabCoordinator<M = unknown> {
+  readonly tabId: string = `${getClock().now()}-${Math.random().toString(36).slice(2)}`
+  private readonly channelName: string
+  private readonly lockName: string
+  private channel: BroadcastChannel | null = null
+  private leader = false
+  private releaseLock: (() => void) | null = null
+  private abortController: AbortController | null = null
+  private messageListeners = new Set<(message: M) => void>()
+  private leadershipListeners = new Set<() => void>()
+
+  constructor(options: TabCoordinatorOptions = {}) {
+    this.channelName = options.channelName ?? TAB_COORDINATION_DEFAULTS.CHANNEL_NAME
+    this.lockName = options.lockName ?? TAB_COORDINATION_DEFAULTS.LOCK_NAME
+  }
+
+  /**
+   * Indique si le navigateur supporte BroadcastChannel et la Web Locks API
+   */
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined'
+      && typeof navigator !== 'undefined'
+      && 'locks' in navigator
+  }
+
+  /**
+   * Ouvre le canal et tente de devenir leader
+   * Si le verrou est déjà détenu, l'onglet se met en file et sera notifié via onLeadershipAcquired
+   * @returns true si l'onglet est leader dès le démarrage
+   */
+  async start(): Promise<boolean> {
+    this.channel = new BroadcastChannel(this.channelName)
+    this.channel.onmessage = (event: MessageEvent<M>) => {
+      this.messageListeners.forEach(listener => listener(event.data))
+    }
+
+    const acquired = await this.requestLeadership(true)
+    if (acquired) {
+      console.log(`[TabCoordinator] Tab ${this.tabId} elected leader`)
+    } else {
+      this.requestLeadership(false)
+    }
+    return acquired
+  }
+
+  /**
+   * Demande le verrou d'élection et le conserve jusqu'à stop() ou la fermeture de l'onglet
+   * @param ifAvailable - true : échoue immédiatement si le verrou est détenu ; false : attend sa libération
+   * @private
+   */
+  private requestLeadership(ifAvailable: boolean): Promise<boolean> {
+    // Un signal d'annulation n'est pas compatible avec ifAvailable
+    if (!ifAvailable) {
+      this.abortController = new AbortController()
+    }
+    const options: LockOptions = ifAvailable
+      ? { ifAvailable: true }
+      : { signal: this.abortController!.signal }
+
+    return new Promise(resolve => {
+      navigator.locks.request(this.lockName, options, lock => {
+        if (!lock) {
+          resolve(false)
+          return
+        }
+        this.leader = true
+        resolve(true)
+        if (!ifAvailable) {
+          console.log(`[TabCoordinator] Tab ${this.tabId} took over leadership`)
+          this.leadershipListeners.forEach(listener => listener())
+        }
+        // Le verrou est conservé tant que cette promesse n'est pas résolue
+        return new Promise<void>(release => {
+          this.releaseLock = release
+        })
+      }).catch(error => {
+        if ((error as Error)?.name !== 'AbortError') {
+          console.error('[TabCoordinator] Leader election failed:', error)
+        }
+        resolve(false)
+      })
+    })
+  }
+
+  /**
+   * Indique si cet onglet est le leader
+   */
+  isLeader(): boolean {
+    return this.leader
+  }
+
+  /**
+   * Écoute la prise de leadership d'un onglet qui était suiveur (départ du leader précédent)
+   * @returns Une fonction pour se désabonner
+   */
+  onLeadershipAcquired(listener: () => void): () => void {
+    this.leadershipListeners.add(listener)
+    return () => this.leadershipListeners.delete(listener)
+  }
+
+  /**
+   * Écoute les messages des autres onglets
+   * @returns Une fonction pour se désabonner
+   */
+  onMessage(listener: (message: M) => void): () => void {
+    this.messageListeners.add(listener)
+    return () => this.messageListeners.delete(listener)
+  }
+
+  /**
+   * Envoie un message aux autres onglets (pas à l'onglet émetteur)
+   * Le message doit être clonable (structured clone : pas de Proxy Vue)
+   */
+  post(message: M): void {
+    this.channel?.postMessage(message)
+  }
+
+  /**
+   * Libère le leadership et ferme le canal
+   */
+  stop(): void {
+    this.abortController?.abort()
+    this.abortController = null
+    this.releaseLock?.()
+    this.releaseLock = null
+    this.leader = false
+    this.channel?.close()
+    this.channel = null
+    this.messageListeners.clear()
+    this.leadershipListeners.clear()
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, type Mock } from 'vitest'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS } from '../core/events'
+import { PersistenceEventBus } from '../core/persistenceEventBus'
+import { createTask } from '../core/taskHelpers'
+import type { PersistenceOrchestrator } from '../core/orchestrator'
+import type { PersistenceEvents } from '../core/types'
+import type { TabCoordinator } from './tabCoordinator'
+import { PersistenceTabRelay, type TabMessage } from './tabRelay'
+
+interface Tab {
+  name: string
+  state: { leader: boolean }
+  eventBus: PersistenceEventBus
+  orchestrator: { handleEntityEvent: Mock; emitPendingConflicts: Mock }
+  onPullRequested: Mock
+  relay: PersistenceTabRelay
+  receive: (message: TabMessage) => void
+}
+
+/**
+ * Onglets reliés par un canal en mémoire : un message posté est reçu par tous les autres onglets
+ * Comme avec BroadcastChannel, la réception est asynchrone et suit l'ordre d'envoi
+ * Le leader est désigné par le test (pas de verrou)
+ */
+function createTabs() {
+  const tabs: Tab[] = []
+
+  function openTab(name: string, leader: boolean): Tab {
+    const listeners = new Set<(message: TabMessage) => void>()
+    const state = { leader }
+    const coordinator = {
+      tabId: name,
+      start: async () => state.leader,
+      isLeader: () => state.leader,
+      onMessage: (listener: (message: TabMessage) => void) => {
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+      },
+      post: (message: TabMessage) => {
+        tabs.filter(tab => tab.name !== name).forEach(tab => queueMicrotask(() => tab.receive(message)))
+      }
+    }
+    const eventBus = new PersistenceEventBus()
+    const orchestrator = {
+      handleEntityEvent: vi.fn(),
+      emitPendingConflicts: vi.fn()
+    }
+    const onPullRequested = vi.fn()
+    const relay = new PersistenceTabRelay(
+      coordinator as unknown as TabCoordinator<TabMessage>,
+      eventBus,
+      orchestrator as unknown as PersistenceOrchestrator,
+      onPullRequested
+    )
+    const tab: Tab = {
+      name,
+      state,
+      eventBus,
+      orchestrator,
+      onPullRequested,
+      relay,
+      receive: (message: TabMessage) => listeners.forEach(listener => listener(message))
+    }
+    tabs.push(tab)
+    return tab
+  }
+
+  /**
+   * Ferme un onglet : il ne reçoit plus de messages
+   */
+  const closeTab = (tab: Tab) => {
+    tab.relay.stop()
+    tabs.splice(tabs.indexOf(tab), 1)
+  }
+
+  return { openTab, closeTab }
+}
+
+/**
+ * Attend la réception de tous les messages postés
+ */
+const deliver = () => new Promise(resolve => setTimeout(resolve))
+
+const created = { entityType: 'note', data: { frontId: 'n1' } }
+
+describe('PersistenceTabRelay', () => {
+  it('forwards the entity events of a follower to the leader', async () => {
+    const { openTab } = createTabs()
+    const leader = openTab('leader', true)
+    const follower = openTab('follower', false)
+    await leader.relay.start()
+    await follower.relay.start()
+
+    follower.eventBus.emit(ENTITY_EVENTS.CREATED, created)
+    leader.eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'note', id: 'n1', updates: {} })
+    await deliver()
+
+    expect(leader.orchestrator.handleEntityEvent).toHaveBeenCalledExactlyOnceWith(ENTITY_EVENTS.CREATED, created)
+    expect(follower.orchestrator.handleEntityEvent).not.toHaveBeenCalled()
+  })
+
+  it('replays the events left unacknowledged by a closed leader once a follower takes over', async () => {
+    const { openTab, closeTab } = createTabs()
+    const leader = openTab('leader', true)
+    const follower = openTab('follower', false)
+    const next = openTab('next', false)
+    await Promise.all([leader, follower, next].map(tab => tab.relay.start()))
+
+    follower.eventBus.emit(ENTITY_EVENTS.CREATED, created)
+    await deliver()
+    closeTab(leader)
+    follower.eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'note', id: 'n1' })
+    await deliver()
+
+    next.state.leader = true
+    next.relay.replayUnacknowledged()
+    await deliver()
+
+    expect(next.orchestrator.handleEntityEvent.mock.calls).toEqual([
+      [ENTITY_EVENTS.DELETED, { entityType: 'note', id: 'n1' }]
+    ])
+
+    // Acquitté par le nouveau leader : l'onglet émetteur ne le rejoue pas s'il devient leader à son tour
+    follower.state.leader = true
+    next.state.leader = false
+    follower.relay.replayUnacknowledged()
+    expect(follower.orchestrator.handleEntityEvent).not.toHaveBeenCalled()
+  })
+
+  it('sends the conflicts of the leader to the followers', async () => {
+    const { openTab } = createTabs()
+    const leader = openTab('leader', true)
+    const follower = openTab('follower', false)
+    await leader.relay.start()
+    const conflicts: Array<PersistenceEvents['entity:conflict']> = []
+    follower.eventBus.on(PERSISTENCE_EVENTS.CONFLICT, payload => { conflicts.push(payload) })
+
+    await follower.relay.start()
+    await deliver()
+    expect(leader.orchestrator.emitPendingConflicts).toHaveBeenCalledOnce()
+
+    const task = createTask('update', 'note', { title: 'a' }, 'n1', 3)
+    const conflict = { entityType: 'note', task, local: { title: 'a' }, remote: { title: 'b' } }
+    leader.eventBus.emit(PERSISTENCE_EVENTS.CONFLICT, conflict)
+    await deliver()
+
+    expect(conflicts).toEqual([conflict])
+  })
+
+  it('asks the leader for a pull sync', async () => {
+    const { openTab } = createTabs()
+    const leader = openTab('leader', true)
+    const follower = openTab('follower', false)
+    await Promise.all([leader.relay.start(), follower.relay.start()])
+
+    follower.relay.requestPull()
+    await deliver()
+
+    expect(leader.onPullRequested).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Relais des événements de persistance entre onglets
+ * Seul l'onglet leader traite la queue : les onglets suiveurs lui transmettent leurs
+ * événements d'entité, et le leader leur renvoie les événements destinés à l'UI (conflits)
+ */
+
+import type { EventBus } from '../core/eventBus'
+import type { PersistenceEvents } from '../core/types'
+import type { PersistenceOrchestrator } from '../core/orchestrator'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS, CIRCUIT_EVENTS, type EntityEventName } from '../core/events'
+import type { TabCoordinator } from './tabCoordinator'
+
+/**
+ * Événements de résultat renvoyés par le leader aux onglets suiveurs (conflits, état des circuits)
+ * Les données des stores sont synchronisées séparément (cf. syncStoreAcrossTabs)
+ */
+const RELAYED_RESULT_EVENTS = [
+  PERSISTENCE_EVENTS.CONFLICT,
+  PERSISTENCE_EVENTS.CONFLICT_RESOLVED,
+  CIRCUIT_EVENTS.STATE_CHANGED
+] as const
+
+type RelayedResultEvent = typeof RELAYED_RESULT_EVENTS[number]
+
+/**
+ * Messages échangés entre onglets
+ * - entity-event : événement d'entité transmis au leader (conservé par tous jusqu'à l'ack)
+ * - ack : le leader a pris en charge l'événement
+ * - result-event : événement de résultat émis par le leader
+ * - hello : un nouvel onglet demande l'état courant (conflits en attente)
+ * - pull : un onglet suiveur demande une synchronisation descendante
+ */
+export type TabMessage =
+  | { kind: 'entity-event'; id: string; event: EntityEventName; payload: unknown }
+  | { kind: 'ack'; id: string }
+  | { kind: 'result-event'; event: RelayedResultEvent; payload: unknown }
+  | { kind: 'hello' }
+  | { kind: 'pull' }
+
+type EntityEventMessage = Extract<TabMessage, { kind: 'entity-event' }>
+
+/**
+ * Copie brute d'un payload (les objets réactifs Vue ne sont pas clonables par BroadcastChannel)
+ */
+function toPlain<P>(payload: P): P {
+  return JSON.parse(JSON.stringify(payload))
+}
+
+/**
+ * Relais entre l'event bus local et les autres onglets
+ */
+export class PersistenceTabRelay {
+  private coordinator: TabCoordinator<TabMessage>
+  private eventBus: EventBus<PersistenceEvents>
+  private orchestrator: PersistenceOrchestrator
+  private onPullRequested: () => void
+  private messageCount = 0
+  private unsubscribeFunctions: Array<() => void> = []
+
+  /**
+   * Événements d'entité pas encore acquittés par un leader
+   * Rejoués si cet onglet devient leader (le leader précédent s'est fermé avant de les traiter)
+   */
+  private unacknowledged = new Map<string, EntityEventMessage>()
+
+  constructor(
+    coordinator: TabCoordinator<TabMessage>,
+    eventBus: EventBus<PersistenceEvents>,
+    orchestrator: PersistenceOrchestrator,
+    onPullRequested: () => void
+  ) {
+    this.coordinator = coordinator
+    this.eventBus = eventBus
+    this.orchestrator = orchestrator
+    this.onPullRequested = onPullRequested
+  }
+
+  /**
+   * Branche le relais sur l'event bus et le canal, puis lance l'élection du leader
+   * @returns true si cet onglet est leader dès le démarrage
+   */
+  start(): Promise<boolean> {
+    this.unsubscribeFunctions.push(
+      this.coordinator.onMessage(message => this.handleMessage(message))
+    )
+
+    // Onglet suiveur : transmettre les événements d'entité locaux au leader
+    for (const event of Object.values(ENTITY_EVENTS)) {
+      this.unsubscribeFunctions.push(
+        this.eventBus.on(event, payload => {
+          if (!this.coordinator.isLeader()) {
+            this.forward(event, payload)
+          }
+        })
+      )
+    }
+
+    // Onglet leader : renvoyer les événements de résultat aux suiveurs
+    for (const event of RELAYED_RESULT_EVENTS) {
+      this.unsubscribeFunctions.push(
+        this.eventBus.on(event, payload => {
+          if (this.coordinator.isLeader()) {
+            this.coordinator.post({ kind: 'result-event', event, payload: toPlain(payload) })
+          }
+        })
+      )
+    }
+
+    const leadership = this.coordinator.start()
+    this.coordinator.post({ kind: 'hello' })
+    return leadership
+  }
+
+  /**
+   * Transmet un événement d'entité au leader
+   * @private
+   */
+  private forward(event: EntityEventName, payload: unknown): void {
+    const message: EntityEventMessage = {
+      kind: 'entity-event',
+      id: `${this.coordinator.tabId}-${++this.messageCount}`,
+      event,
+      payload: toPlain(payload)
+    }
+    this.unacknowledged.set(message.id, message)
+    this.coordinator.post(message)
+  }
+
+  /**
+   * Traite un message reçu d'un autre onglet
+   * @private
+   */
+  private handleMessage(message: TabMessage): void {
+    const isLeader = this.coordinator.isLeader()
+
+    switch (message.kind) {
+      case 'entity-event':
+        if (isLeader) {
+          this.process(message)
+        } else {
+          this.unacknowledged.set(message.id, message)
+        }
+        break
+      case 'ack':
+        this.unacknowledged.delete(message.id)
+        break
+      case 'result-event':
+        if (!isLeader) {
+          this.eventBus.emit(message.event, message.payload as PersistenceEvents[RelayedResultEvent])
+        }
+        break
+      case 'hello':
+        if (isLeader) {
+          this.orchestrator.emitPendingConflicts()
+        }
+        break
+      case 'pull':
+        if (isLeader) {
+          this.onPullRequested()
+        }
+        break
+    }
+  }
+
+  /**
+   * Fait traiter un événement d'entité par l'orchestrateur local puis l'acquitte
+   * @private
+   */
+  private process(message: EntityEventMessage): void {
+    this.unacknowledged.delete(message.id)
+    this.orchestrator.handleEntityEvent(message.event, message.payload as PersistenceEvents[EntityEventName])
+    this.coordinator.post({ kind: 'ack', id: message.id })
+  }
+
+  /**
+   * Rejoue les événements non acquittés (appelé quand cet onglet devient leader)
+   */
+  replayUnacknowledged(): void {
+    const pending = [...this.unacknowledged.values()]
+    if (pending.length > 0) {
+      console.log(`[PersistenceTabRelay] Replaying ${pending.length} unacknowledged event(s)`)
+    }
+    pending.forEach(message => this.process(message))
+  }
+
+  /**
+   * Demande au leader une synchronisation descendante
+   */
+  requestPull(): void {
+    this.coordinator.post({ kind: 'pull' })
+  }
+
+  /**
+   * Débranche le relais
+   */
+  stop(): void {
+    this.unsubscribeFunctions.forEach(unsubscribe => unsubscribe())
+    this.unsubscribeFunctions = []
+    this.unacknowledged.clear()
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { VirtualClock, setClock } from '../core/clock'
+import { ENTITY_EVENTS } from '../core/events'
+import { PersistenceEventBus } from '../core/persistenceEventBus'
+import { PersistenceOrchestrator } from '../core/orchestrator'
+import { DEFAULT_RETRY_CONFIG } from '../core/retryManager'
+import type { PersistenceStrategy } from '../core/types'
+import { PersistedQueueManager } from '../queue/QueueManager'
+import { SyncAdaptersManager } from './syncAdapters'
+import { UndoManager } from './undoManager'
+
+interface Tag {
+  frontId: string
+  title: string
+}
+
+/**
+ * Persistance complète autour d'un store de tags en mémoire
+ * Les requêtes envoyées par la stratégie sont enregistrées (ex: 'create t1')
+ */
+function setup(onRequest: (request: string) => void = () => {}) {
+  const eventBus = new PersistenceEventBus()
+  const queue = new PersistedQueueManager(DEFAULT_RETRY_CONFIG, {}, false)
+  const orchestrator = new PersistenceOrchestrator(eventBus, queue)
+  const requests: string[] = []
+  const send = (request: string) => {
+    requests.push(request)
+    onRequest(request)
+  }
+  const strategy: PersistenceStrategy<Tag> = {
+    persistCreate: async entity => {
+      send(`create ${entity.metadata.frontId}`)
+      return entity
+    },
+    persistUpdate: async entity => {
+      send(`update ${entity.metadata.frontId}`)
+      return entity
+    },
+    persistDelete: async id => {
+      send(`delete ${id}`)
+    }
+  }
+  orchestrator.registerStrategy('tag', strategy as PersistenceStrategy<unknown>)
+  orchestrator.initializeProcessor()
+
+  const tags = new Map<string, Tag>()
+  const adapters = new SyncAdaptersManager(eventBus)
+  adapters.register({
+    entityType: 'tag',
+    syncEntity: () => {},
+    find: frontId => tags.get(frontId),
+    restore: (frontId, tag) => {
+      if (tag) {
+        tags.set(frontId, tag as Tag)
+      } else {
+        tags.delete(frontId)
+      }
+    }
+  })
+  const undoManager = new UndoManager(eventBus, adapters)
+
+  /**
+   * Crée des tags dans le store, en une seule action
+   */
+  const createTags = (...frontIds: string[]) => eventBus.transaction(() => {
+    for (const frontId of frontIds) {
+      const tag = { frontId, title: frontId }
+      tags.set(frontId, tag)
+      eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: tag })
+    }
+  })
+
+  const pendingOperations = () => queue.getPendingTasks().map(task => `${task.operation} ${task.payload.metadata.frontId}`)
+
+  return { queue, tags, requests, undoManager, createTags, pendingOperations }
+}
+
+describe('UndoManager', () => {
+  let clock: VirtualClock
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    clock = new VirtualClock(1_000_000)
+    setClock(clock)
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('cancels the queued task of an unsent single change', async () => {
+    const { queue, tags, requests, undoManager, createTags, pendingOperations } = setup()
+    queue.pause('offline')
+
+    createTags('t1')
+    undoManager.undo()
+
+    expect(tags.has('t1')).toBe(false)
+    expect(pendingOperations()).toEqual([])
+
+    await clock.advance(1)
+    undoManager.redo()
+
+    expect(tags.has('t1')).toBe(true)
+    expect(pendingOperations()).toEqual(['create t1'])
+    expect(requests).toEqual([])
+  })
+
+  it('sends the inverse operation of a sent single change', async () => {
+    const { queue, requests, undoManager, createTags } = setup()
+
+    createTags('t1')
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+    await clock.advance(1)
+    undoManager.undo()
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+    await clock.advance(1)
+    undoManager.redo()
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect(requests).toEqual(['create t1', 'delete t1', 'create t1'])
+  })
+
+  it('cancels the queued transaction of an unsent multi-change step', async () => {
+    const { queue, tags, requests, undoManager, createTags, pendingOperations } = setup()
+    queue.pause('offline')
+
+    createTags('t1', 't2')
+    expect(pendingOperations()).toEqual(['create t1', 'create t2'])
+
+    undoManager.undo()
+    expect([...tags.keys()]).toEqual([])
+    expect(pendingOperations()).toEqual([])
+
+    await clock.advance(1)
+    undoManager.redo()
+    expect(pendingOperations()).toEqual(['create t1', 'create t2'])
+
+    // Le rétablissement n'est pas parti non plus : l'annuler à nouveau retire sa transaction
+    await clock.advance(1)
+    undoManager.undo()
+    expect(pendingOperations()).toEqual([])
+    expect(requests).toEqual([])
+  })
+
+  it('sends the inverse transaction of a sent multi-change step', async () => {
+    const { queue, tags, requests, undoManager, createTags } = setup()
+
+    createTags('t1', 't2')
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+    await clock.advance(1)
+    undoManager.undo()
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect([...tags.keys()]).toEqual([])
+    expect(requests).toEqual(['create t1', 'create t2', 'delete t2', 'delete t1'])
+
+    await clock.advance(1)
+    undoManager.redo()
+    await vi.waitFor(() => expect(queue.size()).toBe(0))
+
+    expect([...tags.keys()]).toEqual(['t1', 't2'])
+    expect(requests.slice(4)).toEqual(['create t1', 'create t2'])
+  })
+
+  it('keeps a partly sent transaction and sends its inverse', async () => {
+    // La connexion est perdue après l'envoi de la première tâche de la transaction
+    const { queue, requests, undoManager, createTags, pendingOperations } = setup(() => queue.pause('offline'))
+
+    createTags('t1', 't2')
+    await vi.waitFor(() => expect(queue.size()).toBe(1))
+    expect(requests).toEqual(['create t1'])
+    await clock.advance(1)
+    undoManager.undo()
+
+    expect(pendingOperations()).toEqual(['create t2', 'delete t2', 'delete t1'])
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * Historique d'annulation (undo/redo) construit sur les événements d'entité
+ * Chaque événement émis par les stores (création, mise à jour, suppression, transaction) devient une étape ;
+ * annuler une étape restaure le store via les adapters puis émet les événements inverses :
+ * la persistance envoie l'opération inverse, ou annule la tâche d'origine si elle n'est pas encore partie
+ * (cf. règles de compaction ; pour une étape de plusieurs événements, la transaction d'origine
+ * est retirée de la queue si aucune de ses tâches n'est partie)
+ */
+
+import type { PersistenceEventBus } from '../core/persistenceEventBus'
+import type { HistoryChange, HistoryStep, TransactionEvent } from '../core/types'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS } from '../core/events'
+import { UNDO_DEFAULTS } from '../core/constants'
+import { getClock } from '../core/clock'
+import type { SyncAdaptersManager } from './syncAdapters'
+import { useUndoHistoryStore } from './store'
+
+/**
+ * Options de l'historique d'annulation
+ */
+export interface UndoOptions {
+  /**
+   * Nombre maximum d'étapes conservées (défaut: UNDO_DEFAULTS.MAX_STEPS)
+   */
+  maxSteps?: number
+}
+
+/**
+ * Gestionnaire de l'historique d'annulation
+ * Seuls les événements émis dans cet onglet sont enregistrés (les événements relayés
+ * depuis d'autres onglets ne passent pas par l'event bus local)
+ */
+export class UndoManager {
+  private eventBus: PersistenceEventBus
+  private adapters: SyncAdaptersManager
+  private maxSteps: number
+  private applying = false
+  private appliedTransactionId: string | undefined
+  private unsubscribeFunctions: Array<() => void> = []
+
+  constructor(eventBus: PersistenceEventBus, adapters: SyncAdaptersManager, options: UndoOptions = {}) {
+    this.eventBus = eventBus
+    this.adapters = adapters
+    this.maxSteps = options.maxSteps ?? UNDO_DEFAULTS.MAX_STEPS
+    this.setupListeners()
+  }
+
+  /**
+   * Annule la dernière étape
+   * @returns false si l'historique est vide
+   */
+  undo(): boolean {
+    const store = useUndoHistoryStore()
+    const step = store.popUndo()
+    if (!step) return false
+
+    store.pushRedo(this.apply(step, [...step.changes].reverse(), change => change.before))
+    return true
+  }
+
+  /**
+   * Rétablit la dernière étape annulée
+   * @returns false s'il n'y a rien à rétablir
+   */
+  redo(): boolean {
+    const store = useUndoHistoryStore()
+    const step = store.popRedo()
+    if (!step) return false
+
+    store.pushUndo(this.apply(step, step.changes, change => change.after), this.maxSteps)
+    return true
+  }
+
+  /**
+   * Vide l'historique
+   */
+  clear(): void {
+    useUndoHistoryStore().clear()
+  }
+
+  /**
+   * Configure les listeners sur l'event bus
+   * @private
+   */
+  private setupListeners(): void {
+    const record = (events: TransactionEvent[], transactionId?: string) => {
+      if (this.applying) {
+        // Événements émis par apply() : seule la transaction est retenue (cf. HistoryStep.transactionId)
+        this.appliedTransactionId = transactionId
+        return
+      }
+      this.record(events, transactionId)
+    }
+
+    this.unsubscribeFunctions = [
+      this.eventBus.on(ENTITY_EVENTS.CREATED, payload => record([{ event: ENTITY_EVENTS.CREATED, payload }])),
+      this.eventBus.on(ENTITY_EVENTS.UPDATED, payload => record([{ event: ENTITY_EVENTS.UPDATED, payload }])),
+      this.eventBus.on(ENTITY_EVENTS.DELETED, payload => record([{ event: ENTITY_EVENTS.DELETED, payload }])),
+      this.eventBus.on(ENTITY_EVENTS.TRANSACTION, ({ transactionId, events }) => record(events, transactionId)),
+      // Le store a été modifié hors historique (annulation d'une tâche, version distante retenue) :
+      // les étapes enregistrées ne correspondent plus à son contenu
+      this.eventBus.on(PERSISTENCE_EVENTS.ROLLED_BACK, () => this.clear()),
+      this.eventBus.on(PERSISTENCE_EVENTS.CONFLICT_RESOLVED, () => this.clear())
+    ]
+  }
+
+  /**
+   * Enregistre une étape à partir des événements d'une action utilisateur
+   * Une modification non annulable (sans version précédente ou sans adapter) vide l'historique
+   * @private
+   */
+  private record(events: TransactionEvent[], transactionId?: string): void {
+    const changes = events.map(event => this.toChange(event))
+    if (changes.some(change => change === null)) {
+      console.warn('[UndoManager] Change cannot be undone, clearing history')
+      this.clear()
+      return
+    }
+    useUndoHistoryStore().record({
+      changes: changes as HistoryChange[],
+      recordedAt: getClock().now(),
+      transactionId
+    }, this.maxSteps)
+  }
+
+  /**
+   * Convertit un événement d'entité en changement (versions avant et après)
+   * @private
+   */
+  private toChange({ event, payload }: TransactionEvent): HistoryChange | null {
+    const adapter = this.adapters.get(payload.entityType)
+    if (!adapter?.find || !adapter.restore) return null
+
+    switch (event) {
+      case ENTITY_EVENTS.CREATED: {
+        const frontId = (payload.data as any)?.frontId
+        return frontId ? { entityType: payload.entityType, frontId, after: payload.data } : null
+      }
+      case ENTITY_EVENTS.UPDATED:
+        if (payload.previous === undefined) return null
+        return {
+          entityType: payload.entityType,
+          frontId: payload.id,
+          before: payload.previous,
+          after: adapter.find(payload.id) ?? { ...(payload.previous as object), ...(payload.updates as object) }
+        }
+      case ENTITY_EVENTS.DELETED:
+        if (payload.previous === undefined) return null
+        return { entityType: payload.entityType, frontId: payload.id, before: payload.previous }
+    }
+  }
+
+  /**
+   * Restaure les versions cibles des changements et émet les événements correspondants
+   * Les événements forment une transaction qui défait la dernière application de l'étape,
+   * et ne sont pas enregistrés dans l'historique
+   * @returns L'étape, avec la transaction qui vient de l'appliquer
+   * @private
+   */
+  private apply(
+    step: HistoryStep,
+    changes: HistoryChange[],
+    target: (change: HistoryChange) => unknown
+  ): HistoryStep {
+    this.applying = true
+    this.appliedTransactionId = undefined
+    try {
+      this.eventBus.transaction(() => {
+        for (const change of changes) {
+          this.applyChange(change, target(change))
+        }
+      }, step.transactionId)
+    } finally {
+      this.applying = false
+    }
+    return { ...step, transactionId: this.appliedTransactionId }
+  }
+
+  /**
+   * Restaure une entité dans le store puis émet l'événement de la transition
+   * La version courante (et non celle enregistrée) sert de version précédente
+   * @private
+   */
+  private applyChange({ entityType, frontId }: HistoryChange, target: unknown): void {
+    const adapter = this.adapters.get(entityType)
+    if (!adapter?.find || !adapter.restore) return
+
+    const current = adapter.find(frontId)
+    adapter.restore(frontId, target)
+    const restored = adapter.find(frontId)
+
+    if (current === undefined && restored !== undefined) {
+      this.eventBus.emit(ENTITY_EVENTS.CREATED, { entityType, data: restored })
+    } else if (current !== undefined && restored === undefined) {
+      this.eventBus.emit(ENTITY_EVENTS.DELETED, { entityType, id: frontId, previous: current })
+    } else if (current !== undefined && restored !== undefined) {
+      this.eventBus.emit(ENTITY_EVENTS.UPDATED, {
+        entityType,
+        id: frontId,
+        updates: restored as Partial<unknown>,
+        version: (restored as { version?: number }).version,
+        previous: current
+      })
+    }
+  }
+
+  /**
+   * Nettoie les ressources
+   */
+  destroy(): void {
+    this.unsubscribeFunctions.forEach(unsubscribe => unsubscribe())
+    this.unsubscribeFunctions = []
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { VirtualClock } from './core/clock'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS } from './core/events'
+import type { PersistenceStrategy } from './core/types'
+import { usePullSyncStore } from './sync/store'
+import { getPersistenceEventBus, usePersistence } from './usePersistence'
+
+describe('usePersistence', () => {
+  it('starts a full pull sync once the leader has reset the persistence state', async () => {
+    setActivePinia(createPinia())
+    const strategy: PersistenceStrategy<unknown> = {
+      persistCreate: async entity => entity,
+      persistUpdate: async entity => entity,
+      persistDelete: async () => {}
+    }
+    const service = usePersistence({
+      strategies: { tag: strategy },
+      clock: new VirtualClock(Date.UTC(2026, 0, 1)),
+      connectivity: false,
+      tabCoordination: false,
+      undo: false
+    })
+    await service.whenReady()
+    const eventBus = getPersistenceEventBus()
+    const resets: unknown[] = []
+    eventBus.on(PERSISTENCE_EVENTS.STATE_RESET, payload => { resets.push(payload) })
+    usePullSyncStore().setCursor('tag', 42)
+
+    // Réinitialisation demandée par un autre onglet, traitée par l'orchestrateur de cet onglet leader
+    eventBus.emit(ENTITY_EVENTS.RESET, {})
+
+    expect(resets).toHaveLength(1)
+    expect(usePullSyncStore().getCursor('tag')).toBeUndefined()
+
+    service.destroy()
+  })
+})
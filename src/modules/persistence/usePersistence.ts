@@ -4,14 +4,29 @@
  * Écoute les événements de persistance pour mettre à jour le store
  */
 
-import { EventBus } from './core/eventBus'
+import { PersistenceEventBus } from './core/persistenceEventBus'
 import { PersistedQueueManager } from './queue'
 import { PersistenceOrchestrator } from './core/orchestrator'
-import type { PersistenceEvents, PersistenceStrategy } from './core/types'
+import type { PersistenceStrategy, SyncStatus } from './core/types'
 import type { RetryConfig } from './core/retryManager'
 import { DEFAULT_RETRY_CONFIG } from './core/retryManager'
-import { initPersistenceQueueStore } from './queue/store'
+import type { PersistencePolicies } from './core/policies'
+import type { CircuitBreakerConfig } from './core/circuitBreaker'
+import { setClock, type TimeSource } from './core/clock'
+import { initPersistenceQueueStore, usePersistenceDeadLetterStore, usePersistenceTransactionStore } from './queue/store'
+import type { QueueStorage } from './queue/storage'
 import { SyncAdaptersManager, type SyncAdapter } from './sync/syncAdapters'
+import { PullSyncManager, type PullSource, type PullSyncOptions } from './sync/pullSync'
+import { usePullSyncStore, useConnectivityStore, usePersistenceEntitySyncStore, useUndoHistoryStore } from './sync/store'
+import { ConnectivityMonitor, type ConnectivityOptions } from './sync/connectivity'
+import { TabCoordinator, type TabCoordinatorOptions } from './sync/tabCoordinator'
+import { PersistenceTabRelay, type TabMessage } from './sync/tabRelay'
+import { syncStoreAcrossTabs } from './sync/storeRelay'
+import { UndoManager, type UndoOptions } from './sync/undoManager'
+import { ENTITY_EVENTS, PERSISTENCE_EVENTS } from './core/events'
+import { LOCAL_PERSISTENCE_DEFAULTS } from './core/constants'
+import { LocalPersistenceStrategy } from './strategies'
+import { computed, toValue, watch, onMounted, onBeforeUnmount, type MaybeRefOrGetter } from 'vue'
 
 /**
  * EventBus global pour la persistance
@@ -24,14 +39,15 @@ import { SyncAdaptersManager, type SyncAdapter } from './sync/syncAdapters'
  * 
  * Le service utilise ce même EventBus global (pas de duplication, juste un partage).
  */
-const persistenceEventBus = new EventBus<PersistenceEvents>()
+const persistenceEventBus = new PersistenceEventBus()
 
 /**
  * Configuration des stratégies de persistance
  * Permet d'enregistrer des stratégies pour chaque type d'entité
+ * 'local' persiste le type d'entité dans IndexedDB, sans backend (LocalPersistenceStrategy)
  */
 export interface PersistenceStrategies {
-  [entityType: string]: PersistenceStrategy<unknown>
+  [entityType: string]: PersistenceStrategy<unknown> | typeof LOCAL_PERSISTENCE_DEFAULTS.STRATEGY
 }
 
 /**
@@ -40,6 +56,7 @@ export interface PersistenceStrategies {
 export interface PersistenceConfig {
   /**
    * Les stratégies de persistance à enregistrer pour chaque type d'entité (obligatoire)
+   * Ex: { note: 'local', tag: 'local' } pour une application sans backend
    */
   strategies: PersistenceStrategies
   
@@ -48,12 +65,81 @@ export interface PersistenceConfig {
    * Une seule config globale pour tout le système
    */
   retryConfig?: Partial<RetryConfig>
+
+  /**
+   * Politiques par type d'entité et par opération (optionnel)
+   * Surchargent la priorité, la configuration de retry et la durée de vie des tâches
+   * Ex: { tag: { operations: { create: { priority: TaskPriority.HIGH } } } }
+   */
+  policies?: PersistencePolicies
+
+  /**
+   * Circuit breaker par type d'entité (optionnel, activé par défaut)
+   * Après failureThreshold défaillances consécutives du backend, plus aucune tâche de ce type
+   * n'est envoyée pendant resetTimeout, puis une tâche sonde le backend
+   * false désactive les circuits
+   */
+  circuitBreaker?: Partial<CircuitBreakerConfig> | false
+
+  /**
+   * Nombre maximum de tâches traitées en parallèle (optionnel, défaut: QUEUE_DEFAULTS.MAX_CONCURRENT)
+   * Sans risque de course : les tâches d'une même entité restent traitées une à une, dans l'ordre
+   */
+  maxConcurrent?: number
   
+  /**
+   * Backend de stockage de la queue (optionnel, localStorage par défaut)
+   * Ex: new IndexedDBQueueStorage() pour lever la limite de ~5MB de localStorage
+   */
+  queueStorage?: QueueStorage
+
   /**
    * Adapters de synchronisation pour mettre à jour les stores après persistance (optionnel)
    * Les stores exposent ces adapters qui sont ensuite enregistrés ici
    */
   syncAdapters?: Array<SyncAdapter>
+
+  /**
+   * Synchronisation descendante depuis le backend (optionnel)
+   * Les sources sont synchronisées dans l'ordre au démarrage, périodiquement et à la demande
+   */
+  pullSync?: PullSyncOptions & {
+    sources: PullSource[]
+  }
+
+  /**
+   * Indique si l'utilisateur est authentifié (optionnel, getter réactif)
+   * Sur une erreur d'authentification (401), la queue est suspendue sans compter de tentative
+   * et reprend dès que ce getter repasse à true (reconnexion)
+   * Sans ce getter, les erreurs 401 sont retentées comme les autres erreurs
+   */
+  isAuthenticated?: () => boolean
+
+  /**
+   * Surveillance de la connectivité (optionnel, activée par défaut avec navigator.onLine seul)
+   * Hors ligne, la queue est suspendue sans consommer les retries et le pull sync est ignoré
+   * false désactive la surveillance
+   */
+  connectivity?: ConnectivityOptions | false
+
+  /**
+   * Coordination multi-onglets (optionnel, activée par défaut si le navigateur la supporte)
+   * Un seul onglet (leader) traite la queue et le pull sync ; les autres lui relaient leurs événements
+   * false désactive la coordination (chaque onglet traite sa propre queue)
+   */
+  tabCoordination?: boolean | TabCoordinatorOptions
+
+  /**
+   * Historique d'annulation des modifications des stores (optionnel, activé par défaut)
+   * Nécessite les hooks find et restore des adapters ; false désactive l'historique
+   */
+  undo?: UndoOptions | false
+
+  /**
+   * Horloge et timers utilisés par tout le module (optionnel, horloge système par défaut)
+   * Ex: new VirtualClock() en test pour vérifier backoff et expiration sans attendre
+   */
+  clock?: TimeSource
 }
 
 /**
@@ -61,11 +147,20 @@ export interface PersistenceConfig {
  * Encapsule tout l'état et la logique d'initialisation
  */
 class PersistenceService {
-  private readonly eventBus: EventBus<PersistenceEvents>
+  private readonly eventBus: PersistenceEventBus
   private readonly queue: PersistedQueueManager
   private readonly orchestrator: PersistenceOrchestrator
   private readonly syncAdaptersManager: SyncAdaptersManager
+  private readonly undoManager: UndoManager | null = null
+  private readonly pullSyncManager: PullSyncManager | null = null
+  private readonly connectivityMonitor: ConnectivityMonitor | null = null
+  private readonly stopAuthWatch: (() => void) | null = null
+  private readonly stopResetListener: () => void
+  private readonly tabCoordinator: TabCoordinator<TabMessage> | null = null
+  private readonly tabRelay: PersistenceTabRelay | null = null
   private readonly retryConfig: RetryConfig
+  private readonly queueStorage?: QueueStorage
+  private ready: Promise<void>
 
   /**
    * Crée une nouvelle instance du service de persistance
@@ -74,29 +169,42 @@ class PersistenceService {
   constructor(config: PersistenceConfig) {
     console.log('[PersistenceService] Creating persistence service...')
 
-    // Initialiser et valider le store de queue (doit être fait après Pinia est prêt)
-    initPersistenceQueueStore()
-
     // Utiliser l'EventBus global (créé au chargement du module)
     // Cela permet aux stores d'y accéder même avant l'initialisation du service
     this.eventBus = persistenceEventBus
 
+    // Horloge du module (système par défaut, virtuelle en test)
+    setClock(config.clock)
+
     // Créer la config retry une seule fois
+    // Sans moyen de détecter la reconnexion, une pause sur 401 ne serait jamais levée
     this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...(config.retryConfig || {}) }
+    if (!config.isAuthenticated) {
+      this.retryConfig.policy = { ...this.retryConfig.policy, authStatuses: [] }
+    }
 
     // Queue : a besoin de toute la config (pour RetryManager)
-    this.queue = new PersistedQueueManager(this.retryConfig)
+    this.queue = new PersistedQueueManager(this.retryConfig, config.policies, config.circuitBreaker)
     console.log('[PersistenceService] Queue created with retryConfig:', this.retryConfig)
+    if (config.maxConcurrent !== undefined) {
+      this.queue.setMaxConcurrent(config.maxConcurrent)
+    }
 
-    // Orchestrator : a besoin seulement de maxRetries
+    // Orchestrator : a besoin de maxRetries et des politiques (priorité, durée de vie)
     this.orchestrator = new PersistenceOrchestrator(
       this.eventBus,
       this.queue,
-      this.retryConfig.maxRetries
+      this.retryConfig.maxRetries,
+      config.policies
     )
 
     // Enregistrer les stratégies pour chaque type d'entité
     for (const [entityType, strategy] of Object.entries(config.strategies)) {
+      if (strategy === LOCAL_PERSISTENCE_DEFAULTS.STRATEGY) {
+        this.orchestrator.registerStrategy(entityType, new LocalPersistenceStrategy({ entityType }))
+        console.log(`[PersistenceService] Local strategy registered for entity type: ${entityType}`)
+        continue
+      }
       this.orchestrator.registerStrategy(entityType, strategy)
       console.log(`[PersistenceService] Strategy registered for entity type: ${entityType}`)
     }
@@ -106,6 +214,11 @@ class PersistenceService {
     this.orchestrator.initializeProcessor()
     console.log('[PersistenceService] Orchestrator created and processor initialized')
 
+    // État de persistance vidé (changement de compte) : la prochaine synchronisation descendante est complète
+    this.stopResetListener = this.eventBus.on(PERSISTENCE_EVENTS.STATE_RESET, () => {
+      usePullSyncStore().resetCursors()
+    })
+
     // Créer et enregistrer les sync adapters
     this.syncAdaptersManager = new SyncAdaptersManager(this.eventBus)
     if (config.syncAdapters && config.syncAdapters.length > 0) {
@@ -113,9 +226,126 @@ class PersistenceService {
       console.log(`[PersistenceService] ${config.syncAdapters.length} sync adapter(s) registered`)
     }
 
+    // Historique d'annulation : restaure les stores via les adapters
+    if (config.undo !== false) {
+      this.undoManager = new UndoManager(this.eventBus, this.syncAdaptersManager, config.undo)
+    }
+
+    if (config.connectivity !== false) {
+      this.connectivityMonitor = new ConnectivityMonitor(config.connectivity)
+    }
+
+    if (config.pullSync) {
+      const { sources, shouldPull, ...options } = config.pullSync
+      this.pullSyncManager = new PullSyncManager(sources, this.queue, {
+        ...options,
+        // Pas de pull hors ligne
+        shouldPull: () => (this.connectivityMonitor?.isOnline() ?? true) && (shouldPull?.() ?? true)
+      })
+    }
+
+    if (this.connectivityMonitor) {
+      this.setupConnectivity(this.connectivityMonitor)
+    }
+
+    // Reprendre la queue suspendue sur 401 dès que l'utilisateur se reconnecte
+    if (config.isAuthenticated) {
+      this.stopAuthWatch = watch(config.isAuthenticated, authenticated => {
+        if (authenticated) {
+          this.queue.resume('auth')
+        }
+      })
+    }
+
+    this.queueStorage = config.queueStorage
+
+    if (config.tabCoordination !== false && TabCoordinator.isSupported()) {
+      // Multi-onglets : seul le leader traite la queue, les événements locaux sont relayés en attendant
+      const options = typeof config.tabCoordination === 'object' ? config.tabCoordination : {}
+      this.tabCoordinator = new TabCoordinator<TabMessage>(options)
+      this.tabRelay = new PersistenceTabRelay(this.tabCoordinator, this.eventBus, this.orchestrator, () => {
+        this.pullNow().catch(() => {})
+      })
+      this.orchestrator.setActive(false)
+      // La dead-letter queue et l'état des entités sont alimentés par le leader et consultés depuis tous les onglets
+      syncStoreAcrossTabs(usePersistenceDeadLetterStore())
+      syncStoreAcrossTabs(usePersistenceEntitySyncStore())
+      // Les transactions en cours sont reprises par le prochain leader
+      syncStoreAcrossTabs(usePersistenceTransactionStore())
+      this.tabCoordinator.onLeadershipAcquired(() => {
+        this.ready = this.startAsLeader()
+      })
+      this.ready = this.tabRelay.start().then(isLeader => isLeader ? this.startAsLeader() : undefined)
+    } else {
+      this.ready = this.startAsLeader()
+    }
+
+    console.log('[PersistenceService] Persistence service initialized successfully')
+  }
+
+  /**
+   * Suspend la queue hors ligne et la reprend (avec un pull) dès le retour de la connexion
+   * @private
+   */
+  private setupConnectivity(monitor: ConnectivityMonitor): void {
+    this.queue.setConnectivityCheck(() => monitor.check())
+    monitor.onChange(online => {
+      if (!online) {
+        this.queue.pause('offline')
+        return
+      }
+      this.queue.resume('offline')
+      if (this.isLeader()) {
+        this.pullSyncManager?.pullNow().catch(() => {})
+      }
+    })
+    monitor.start()
+    if (!monitor.isOnline()) {
+      this.queue.pause('offline')
+    }
+    console.log('[PersistenceService] Connectivity monitor started')
+  }
+
+  /**
+   * Prend en charge le traitement de la queue (onglet leader ou coordination désactivée)
+   * La queue est restaurée depuis le stockage à ce moment-là : un onglet qui devient leader
+   * repart de l'état écrit par le leader précédent
+   * @private
+   */
+  private startAsLeader(): Promise<void> {
+    // Les événements émis pendant la restauration sont mis en queue une fois celle-ci terminée :
+    // compaction et dépendances doivent voir les tâches restaurées
+    this.orchestrator.bufferEvents()
+    this.orchestrator.setActive(true)
+    this.tabRelay?.replayUnacknowledged()
+
+    // Restaurer la queue depuis le stockage (asynchrone, ex: IndexedDB)
+    return initPersistenceQueueStore(this.queueStorage)
+      .catch(error => {
+        console.error('[PersistenceService] Queue restoration failed, continuing with in-memory queue:', error)
+      })
+      .then(() => {
+        this.orchestrator.flushBufferedEvents()
+        this.onQueueRestored()
+      })
+  }
+
+  /**
+   * Indique si cet onglet traite la queue (toujours vrai sans coordination multi-onglets)
+   */
+  isLeader(): boolean {
+    return this.tabCoordinator?.isLeader() ?? true
+  }
+
+  /**
+   * Appelé une fois la queue restaurée depuis le stockage
+   * @private
+   */
+  private onQueueRestored(): void {
+    // Ré-émettre les conflits restaurés pour que l'UI propose à nouveau le choix
+    this.orchestrator.emitPendingConflicts()
+
     // Démarrer le traitement si des tâches sont en attente
-    // Le store Pinia est déjà hydraté de manière synchrone par le plugin,
-    // donc on peut vérifier immédiatement la taille de la queue
     const initialQueueSize = this.queue.size()
     console.log('[PersistenceService] Initial queue size:', initialQueueSize)
     if (initialQueueSize > 0) {
@@ -125,7 +355,62 @@ class PersistenceService {
       console.log('[PersistenceService] No pending tasks, processor ready for future tasks')
     }
 
-    console.log('[PersistenceService] Persistence service initialized successfully')
+    // Démarrer la synchronisation descendante (pull) APRÈS la restauration :
+    // les entités avec des tâches locales en attente ne doivent pas être écrasées
+    if (this.pullSyncManager) {
+      this.pullSyncManager.start()
+      console.log('[PersistenceService] Pull sync started')
+    }
+  }
+
+  /**
+   * Attend la restauration de la queue depuis le stockage (onglet leader)
+   * ou l'issue de l'élection (onglet suiveur)
+   */
+  whenReady(): Promise<void> {
+    return this.ready
+  }
+
+  /**
+   * Lance une synchronisation descendante immédiate (no-op si le pull sync n'est pas configuré)
+   * Depuis un onglet suiveur, la demande est transmise au leader sans attendre son résultat
+   */
+  async pullNow(): Promise<void> {
+    await this.ready
+    if (!this.isLeader()) {
+      this.tabRelay?.requestPull()
+      return
+    }
+    await this.pullSyncManager?.pullNow()
+  }
+
+  /**
+   * Regroupe les modifications des stores effectuées dans fn en une seule unité de persistance
+   * Cf. PersistenceEventBus.transaction (aussi accessible aux stores via getPersistenceEventBus())
+   */
+  transaction<R>(fn: () => R): R {
+    return this.eventBus.transaction(fn)
+  }
+
+  /**
+   * Annule la dernière modification des stores (false si rien à annuler)
+   */
+  undo(): boolean {
+    return this.undoManager?.undo() ?? false
+  }
+
+  /**
+   * Rétablit la dernière modification annulée (false si rien à rétablir)
+   */
+  redo(): boolean {
+    return this.undoManager?.redo() ?? false
+  }
+
+  /**
+   * Vérifie immédiatement la connectivité (true si la surveillance est désactivée)
+   */
+  checkConnectivity(): Promise<boolean> {
+    return this.connectivityMonitor?.check() ?? Promise.resolve(true)
   }
 
   /**
@@ -134,7 +419,15 @@ class PersistenceService {
   destroy(): void {
     console.log('[PersistenceService] Destroying persistence service...')
     this.orchestrator.destroy()
+    this.undoManager?.destroy()
     this.queue.stop()
+    this.pullSyncManager?.stop()
+    this.connectivityMonitor?.stop()
+    this.stopAuthWatch?.()
+    this.stopResetListener()
+    this.tabRelay?.stop()
+    this.tabCoordinator?.stop()
+    setClock()
     // Note: syncAdaptersManager n'a pas de méthode destroy, mais on peut le laisser au GC
     console.log('[PersistenceService] Persistence service destroyed')
   }
@@ -177,8 +470,154 @@ export function usePersistence(config: PersistenceConfig): PersistenceService {
  * 
  * Si des événements sont émis avant l'initialisation du service, ils seront simplement ignorés
  * (pas de listeners encore enregistrés). C'est un comportement attendu et sans danger.
+ *
+ * Les stores regroupent plusieurs modifications liées avec eventBus.transaction(() => { ... })
  */
-export function getPersistenceEventBus(): EventBus<PersistenceEvents> {
+export function getPersistenceEventBus(): PersistenceEventBus {
   return persistenceEventBus
 }
 
+/**
+ * Abandonne l'état de persistance de l'utilisateur courant (déconnexion, session invitée, autre compte)
+ * - queue, dead-letters, transactions, état des entités et curseurs : vidés par l'onglet leader (via l'event bus)
+ * - historique d'annulation et curseurs : vidés dans cet onglet (un onglet suiveur peut devenir leader)
+ * Les modifications en attente ne sont jamais envoyées ; les stores des entités sont vidés par l'application
+ */
+export function resetPersistence(): void {
+  persistenceEventBus.emit(ENTITY_EVENTS.RESET, {})
+  useUndoHistoryStore().clear()
+  usePullSyncStore().resetCursors()
+}
+
+/**
+ * Composable pour la synchronisation descendante (pull)
+ * Expose l'état réactif du pull et permet de déclencher une synchronisation à la demande
+ * Utilisable dans les composants, une fois usePersistence() appelé
+ */
+export function usePullSync() {
+  const store = usePullSyncStore()
+
+  return {
+    isPulling: computed(() => store.isPulling),
+    lastPullAt: computed(() => store.lastPullAt),
+    lastError: computed(() => store.lastError),
+    pullNow: (): Promise<void> => serviceInstance?.pullNow() ?? Promise.resolve()
+  }
+}
+
+
+/**
+ * Composable pour l'état de connectivité
+ * Expose l'état réactif en ligne / hors ligne et permet de forcer une vérification
+ * Utilisable dans les composants, une fois usePersistence() appelé
+ */
+export function useConnectivity() {
+  const store = useConnectivityStore()
+
+  return {
+    isOnline: computed(() => store.isOnline),
+    lastChangeAt: computed(() => store.lastChangeAt),
+    lastCheckAt: computed(() => store.lastCheckAt),
+    checkNow: (): Promise<boolean> => serviceInstance?.checkConnectivity() ?? Promise.resolve(store.isOnline)
+  }
+}
+
+/**
+ * Composable pour l'état de synchronisation d'une entité (badge "enregistré / en attente / en erreur")
+ * Une entité absente du registre n'a pas de modification locale : elle est considérée synchronisée
+ *
+ * @param entityType - Type d'entité (ex: 'note')
+ * @param frontId - Identifiant front de l'entité (valeur, ref ou getter)
+ */
+export function useEntitySyncStatus(entityType: string, frontId: MaybeRefOrGetter<string>) {
+  const store = usePersistenceEntitySyncStore()
+  const state = computed(() => store.get(entityType, toValue(frontId)))
+  const status = computed<SyncStatus>(() => state.value?.syncStatus ?? 'synced')
+
+  return {
+    state,
+    status,
+    isSynced: computed(() => status.value === 'synced'),
+    isPending: computed(() => status.value === 'pending' || status.value === 'syncing'),
+    hasError: computed(() => status.value === 'error'),
+    hasConflict: computed(() => status.value === 'conflict'),
+    lastSyncAt: computed(() => state.value?.lastSyncAt),
+    error: computed(() => state.value?.error)
+  }
+}
+
+/**
+ * Composable pour le résumé de synchronisation de toutes les entités (badge global)
+ */
+export function useSyncSummary() {
+  const store = usePersistenceEntitySyncStore()
+  return computed(() => store.summary)
+}
+
+/**
+ * Composable pour la dead-letter queue (tâches en échec définitif ou expirées)
+ * Permet de lister, corriger, rejouer ou abandonner les tâches
+ * Le rejeu passe par l'event bus : il est traité par l'onglet leader
+ */
+export function useDeadLetters() {
+  const store = usePersistenceDeadLetterStore()
+
+  return {
+    entries: computed(() => store.entries),
+    count: computed(() => store.count),
+    replay: (taskId: string, data?: Partial<unknown>): void => {
+      persistenceEventBus.emit(ENTITY_EVENTS.REPLAY, { taskId, data })
+    },
+    edit: (taskId: string, data: Partial<unknown>): boolean => store.updateData(taskId, data),
+    discard: (taskId: string): boolean => store.remove(taskId)
+  }
+}
+
+/**
+ * Composable pour l'historique d'annulation (undo/redo)
+ * Utilisable dans les composants, une fois usePersistence() appelé
+ */
+export function useUndoRedo() {
+  const store = useUndoHistoryStore()
+
+  return {
+    canUndo: computed(() => store.canUndo),
+    canRedo: computed(() => store.canRedo),
+    undo: (): boolean => serviceInstance?.undo() ?? false,
+    redo: (): boolean => serviceInstance?.redo() ?? false
+  }
+}
+
+/**
+ * Indique si une cible clavier gère sa propre annulation (champ de saisie)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * Composable installant les raccourcis clavier de l'historique d'annulation
+ * Ctrl/Cmd+Z annule, Ctrl/Cmd+Maj+Z ou Ctrl+Y rétablit
+ * Les champs de saisie gardent leur propre annulation
+ * À appeler dans le setup d'un composant (App.vue)
+ */
+export function useUndoShortcuts() {
+  const { undo, redo } = useUndoRedo()
+
+  const handleKeydown = (event: KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return
+
+    const key = event.key.toLowerCase()
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault()
+      undo()
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault()
+      redo()
+    }
+  }
+
+  onMounted(() => window.addEventListener('keydown', handleKeydown))
+  onBeforeUnmount(() => window.removeEventListener('keydown', handleKeydown))
+}
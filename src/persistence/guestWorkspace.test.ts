@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import { createPinia, setActivePinia } from 'pinia'
+import { ENTITY_EVENTS } from '@/modules/persistence/core/events'
+import { VirtualClock } from '@/modules/persistence/core/clock'
+import type { PersistableEntity, PersistenceStrategy } from '@/modules/persistence/core/types'
+import { getPersistenceEventBus, usePersistence } from '@/modules/persistence/usePersistence'
+import { useNotesStore } from '@/stores/notes'
+import type { NoteType } from '@/types/NoteType'
+import type { TagType } from '@/types/TagType'
+import { migrateGuestWorkspace, withPendingWrites } from './guestWorkspace'
+
+/**
+ * Stratégie de test : enregistre les requêtes envoyées au compte
+ */
+function createRecordingStrategy<T>(requests: string[], entityType: string): PersistenceStrategy<T> {
+  const persisted = (entity: PersistableEntity<T>) => Promise.resolve({
+    ...entity,
+    metadata: { ...entity.metadata, syncStatus: 'synced' as const }
+  })
+  return {
+    persistCreate: entity => {
+      requests.push(`create ${entityType} ${entity.metadata.frontId}`)
+      return persisted(entity)
+    },
+    persistUpdate: entity => {
+      requests.push(`update ${entityType} ${entity.metadata.frontId}`)
+      return persisted(entity)
+    },
+    persistDelete: async id => {
+      requests.push(`delete ${entityType} ${id}`)
+    }
+  }
+}
+
+const tag: TagType = { frontId: 'guest-tag', title: 'idées', color: '#fff' }
+const note: NoteType = { frontId: 'guest-note', contentMd: 'a', createdAt: '01/01/2026', tagsFrontId: ['guest-tag', 'deleted-tag'] }
+
+describe('withPendingWrites', () => {
+  it('overlays the store on the guest database', () => {
+    const stored = [{ frontId: 'kept', title: 'old' }, { frontId: 'deleted', title: 'x' }]
+    const current = [{ frontId: 'created', title: 'new' }, { frontId: 'kept', title: 'edited' }]
+
+    expect(withPendingWrites(stored, current)).toEqual([
+      { frontId: 'kept', title: 'edited' },
+      { frontId: 'created', title: 'new' }
+    ])
+  })
+})
+
+describe('migrateGuestWorkspace', () => {
+  it('sends only creates of remapped entities and drops pending guest writes', async () => {
+    setActivePinia(createPinia())
+    const requests: string[] = []
+    const service = usePersistence({
+      strategies: {
+        note: createRecordingStrategy<NoteType>(requests, 'note'),
+        tag: createRecordingStrategy<TagType>(requests, 'tag')
+      },
+      clock: new VirtualClock(Date.UTC(2026, 0, 1)),
+      connectivity: false,
+      tabCoordination: false,
+      undo: false
+    })
+    await service.whenReady()
+
+    // Écritures de l'invité encore en queue au moment de la connexion
+    const eventBus = getPersistenceEventBus()
+    eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'note', id: 'guest-note', updates: { contentMd: 'a' } })
+    eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'tag', id: 'deleted-tag' })
+
+    const frontIds = await migrateGuestWorkspace({ notes: [note], tags: [tag] })
+    const newTagId = frontIds.get('guest-tag')!
+    const newNoteId = frontIds.get('guest-note')!
+
+    await vi.waitFor(() => expect(requests).toHaveLength(2))
+    expect(requests).toEqual([`create tag ${newTagId}`, `create note ${newNoteId}`])
+    expect(newTagId).not.toBe('guest-tag')
+    expect(useNotesStore().notes).toEqual([{ ...note, frontId: newNoteId, tagsFrontId: [newTagId] }])
+
+    service.destroy()
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Espace de travail invité : l'application est utilisable sans compte
+ * Les notes et tags de l'invité sont enregistrés uniquement sur cet appareil (IndexedDB, base dédiée) ;
+ * à l'inscription ou à la connexion, ils sont envoyés au compte via la queue de persistance
+ */
+
+import { toRaw } from 'vue'
+import { LocalPersistenceStrategy, resetPersistence, useUndoHistoryStore } from '@/modules/persistence'
+import { useNotesStore } from '@/stores/notes'
+import type { NoteType } from '@/types/NoteType'
+import type { TagType } from '@/types/TagType'
+
+/**
+ * Base IndexedDB de l'espace invité (distincte de celle du mode local)
+ */
+const GUEST_DATABASE_NAME = 'persistenceGuest'
+
+/**
+ * Stratégie des notes de l'espace invité
+ */
+export const guestNoteStrategy = new LocalPersistenceStrategy<NoteType>({
+  entityType: 'note',
+  databaseName: GUEST_DATABASE_NAME
+})
+
+/**
+ * Stratégie des tags de l'espace invité
+ */
+export const guestTagStrategy = new LocalPersistenceStrategy<TagType>({
+  entityType: 'tag',
+  databaseName: GUEST_DATABASE_NAME
+})
+
+/**
+ * Contenu de l'espace invité à transférer vers un compte
+ */
+export interface GuestWorkspace {
+  notes: NoteType[]
+  tags: TagType[]
+}
+
+/**
+ * Complète les entités de la base invitée avec les écritures encore en queue (PURE)
+ * - une entité présente dans le store est prise dans sa dernière version
+ * - une entité absente du store a été supprimée (suppression pas encore écrite) : elle est ignorée
+ * - une entité du store absente de la base a été créée (création pas encore écrite) : elle est ajoutée
+ * Le store ne contient que des entités de l'invité : il est vidé à l'ouverture de la session invitée
+ */
+export function withPendingWrites<T extends { frontId: string }>(stored: T[], current: T[]): T[] {
+  const currentById = new Map(current.map(entity => [entity.frontId, entity]))
+  const storedIds = new Set(stored.map(entity => entity.frontId))
+  return [
+    ...stored.filter(entity => currentById.has(entity.frontId)).map(entity => currentById.get(entity.frontId)!),
+    ...current.filter(entity => !storedIds.has(entity.frontId))
+  ]
+}
+
+/**
+ * Lit l'espace invité depuis sa base IndexedDB
+ * À appeler tant que l'utilisateur est encore invité (avant setAuth) :
+ * une fois connecté, les écritures en queue partiraient vers le backend
+ */
+export async function readGuestWorkspace(): Promise<GuestWorkspace> {
+  let storedNotes: NoteType[] = []
+  let storedTags: TagType[] = []
+  try {
+    [storedNotes, storedTags] = await Promise.all([guestNoteStrategy.getAll(), guestTagStrategy.getAll()])
+  } catch (error) {
+    // Base illisible : le store (entités de l'invité uniquement) suffit à retrouver l'espace
+    console.warn('[GuestWorkspace] Could not read guest database:', error)
+  }
+  const notesStore = useNotesStore()
+  return {
+    notes: withPendingWrites(storedNotes, notesStore.notes.map(note => toRaw(note))),
+    tags: withPendingWrites(storedTags, notesStore.tags.map(tag => toRaw(tag)))
+  }
+}
+
+/**
+ * Vide la base IndexedDB de l'espace invité
+ */
+export async function clearGuestDatabase(): Promise<void> {
+  try {
+    await Promise.all([guestNoteStrategy.clear(), guestTagStrategy.clear()])
+  } catch (error) {
+    console.warn('[GuestWorkspace] Could not clear guest database:', error)
+  }
+}
+
+/**
+ * Transfère l'espace invité vers le compte qui vient d'être connecté (inscription ou connexion)
+ * À appeler juste après setAuth, sans attente entre les deux
+ * - les écritures invitées encore en queue sont abandonnées (jamais envoyées au backend) :
+ *   leur contenu est déjà dans workspace
+ * - chaque note et chaque tag reçoit un nouveau frontId (références des notes vers les tags remappées)
+ *   et seule sa création est mise en queue
+ * - l'historique d'annulation et la base invitée sont vidés
+ *
+ * @param workspace - Espace invité lu par readGuestWorkspace()
+ * @returns Correspondance ancien frontId → nouveau frontId
+ */
+export async function migrateGuestWorkspace(workspace: GuestWorkspace): Promise<Map<string, string>> {
+  resetPersistence()
+  const frontIds = useNotesStore().importWorkspace(workspace.notes, workspace.tags)
+  // Annuler le transfert renverrait les entités vers un espace qui n'existe plus
+  useUndoHistoryStore().clear()
+
+  await clearGuestDatabase()
+  return frontIds
+}
@@ -0,0 +1,13 @@
+/**
+ * Mode de persistance de l'application (variable d'environnement VITE_PERSISTENCE_MODE)
+ * - 'api' (défaut) : notes et tags sont envoyés au backend REST, l'authentification est requise
+ * - 'local' : notes et tags sont enregistrés dans IndexedDB, sans backend ni authentification
+ */
+export type PersistenceMode = 'api' | 'local'
+
+export const PERSISTENCE_MODE: PersistenceMode = import.meta.env.VITE_PERSISTENCE_MODE === 'local' ? 'local' : 'api'
+
+/**
+ * Indique si l'application fonctionne comme un carnet local, sans backend
+ */
+export const isLocalMode = PERSISTENCE_MODE === 'local'
@@ -0,0 +1 @@
+export { createNotePullSource, createTagPullSource } from './pullSources'
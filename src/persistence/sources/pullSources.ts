@@ -0,0 +1,59 @@
+/**
+ * Sources de synchronisation descendante (pull) spécifiques au projet
+ * Utilisent les APIs du projet (noteApi, tagApi) ou IndexedDB (mode local) et appliquent les changements
+ * dans le store des notes sans émettre d'événements de persistance
+ */
+
+import type { PullSource, PullChanges } from '@/modules/persistence/sync/pullSync'
+import { fetchNoteChanges } from '@/api/noteApi'
+import { fetchTagChanges } from '@/api/tagApi'
+import { getUpdatedAtTime } from '@/api/syncChanges'
+import type { NoteType } from '@/types/NoteType'
+import type { TagType } from '@/types/TagType'
+import type { useNotesStore } from '@/stores/notes'
+
+type NotesStore = ReturnType<typeof useNotesStore>
+
+/**
+ * Récupération des modifications depuis un curseur (API du projet, ou LocalPersistenceStrategy en mode local)
+ */
+type FetchChanges<T> = (since?: number) => Promise<PullChanges<T>>
+
+/**
+ * Source de pull pour les notes
+ * @param fetchChanges - Origine des modifications (défaut: API REST)
+ */
+export function createNotePullSource(
+  notesStore: NotesStore,
+  fetchChanges: FetchChanges<NoteType> = fetchNoteChanges
+): PullSource<NoteType> {
+  return {
+    entityType: 'note',
+    fetchChanges: (since) => fetchChanges(since),
+    getFrontId: (note) => note.frontId,
+    upsert: (note) => notesStore.upsertRemoteNote(note),
+    remove: (frontId) => notesStore.removeRemoteNote(frontId),
+    // Seules les notes ayant un _id ont déjà été synchronisées avec le backend
+    listSyncedFrontIds: () => notesStore.notes.filter(note => note._id).map(note => note.frontId),
+    getUpdatedAt: getUpdatedAtTime
+  }
+}
+
+/**
+ * Source de pull pour les tags
+ * @param fetchChanges - Origine des modifications (défaut: API REST)
+ */
+export function createTagPullSource(
+  notesStore: NotesStore,
+  fetchChanges: FetchChanges<TagType> = fetchTagChanges
+): PullSource<TagType> {
+  return {
+    entityType: 'tag',
+    fetchChanges: (since) => fetchChanges(since),
+    getFrontId: (tag) => tag.frontId,
+    upsert: (tag) => notesStore.upsertRemoteTag(tag),
+    remove: (frontId) => notesStore.removeRemoteTag(frontId),
+    listSyncedFrontIds: () => notesStore.tags.filter(tag => tag._id).map(tag => tag.frontId),
+    getUpdatedAt: getUpdatedAtTime
+  }
+}
@@ -1,119 +1,55 @@
 /**
- * Stratégie de persistance REST API spécifique au projet
- * Utilise les APIs du projet (noteApi, tagApi)
+ * Stratégies de persistance REST API spécifiques au projet
+ * Décrites avec createRestStrategy sur les routes du backend (/notes, /tags)
  */
 
-import type { PersistenceStrategy, PersistableEntity } from '@/modules/persistence/core/types'
-import { createNote, updateNote, deleteNote } from '@/api/noteApi'
-import { createTag, updateTag, deleteTag } from '@/api/tagApi'
-import type { NoteType } from '@/types/NoteType'
-import type { TagType } from '@/types/TagType'
+import type { PersistenceStrategy } from '@/modules/persistence/core/types'
+import { parseResponse } from '@/api/validation'
+import { NoteSchema, type NoteType } from '@/types/NoteType'
+import { TagSchema, type TagType } from '@/types/TagType'
+import { createRestStrategy } from './restStrategy'
 
 /**
  * Stratégie REST pour les notes
  */
-export class NoteRestApiStrategy implements PersistenceStrategy<NoteType> {
-  async persistCreate(entity: PersistableEntity<NoteType>): Promise<PersistableEntity<NoteType>> {
-    const note = entity.data
-    // createNote attend tagsFrontId (de NoteType) mais accepte aussi tags en option pour le backend
-    const persistedNote = await createNote({
+export function createNoteRestStrategy(): PersistenceStrategy<NoteType> {
+  return createRestStrategy<NoteType>({
+    basePath: '/notes',
+    // Le backend attend tagsFrontId (de NoteType) mais accepte aussi tags
+    toCreatePayload: note => ({
       frontId: note.frontId,
       contentMd: note.contentMd,
       tagsFrontId: note.tagsFrontId,
       tags: note.tagsFrontId.length > 0 ? note.tagsFrontId : undefined
-    })
-
-    return {
-      data: persistedNote,
-      metadata: {
-        ...entity.metadata,
-        backendId: persistedNote._id,
-        syncStatus: 'synced',
-        lastSyncAt: Date.now()
-      }
-    }
-  }
-
-  async persistUpdate(entity: PersistableEntity<NoteType>): Promise<PersistableEntity<NoteType>> {
-    const id = entity.metadata.backendId || entity.metadata.frontId
-    const updates = entity.data as Partial<NoteType>
-
-    const apiUpdates: Partial<{
-      contentMd: string
-      tags: string[]
-    }> = {}
-
-    if (updates.contentMd !== undefined) {
-      apiUpdates.contentMd = updates.contentMd
-    }
-
-    if (updates.tagsFrontId !== undefined) {
-      apiUpdates.tags = updates.tagsFrontId.length > 0 ? updates.tagsFrontId : []
-    }
-
-    const updatedNote = await updateNote(id, apiUpdates)
-
-    return {
-      data: updatedNote,
-      metadata: {
-        ...entity.metadata,
-        backendId: updatedNote._id || entity.metadata.backendId,
-        syncStatus: 'synced',
-        lastSyncAt: Date.now()
-      }
-    }
-  }
-
-  async persistDelete(id: string, entityType: string): Promise<void> {
-    await deleteNote(id)
-  }
+    }),
+    // Seuls les champs modifiés sont envoyés ; les tags peuvent être des titles, frontIds ou _id MongoDB
+    toUpdatePayload: updates => ({
+      ...(updates.contentMd !== undefined ? { contentMd: updates.contentMd } : {}),
+      ...(updates.tagsFrontId !== undefined ? { tags: updates.tagsFrontId } : {})
+    }),
+    idOf: note => note.frontId,
+    fromResponse: (data, endpoint) => parseResponse(NoteSchema, data, endpoint),
+    // Une note référence ses tags : elle doit attendre que leurs tâches soient persistées
+    getReferences: note => (note.tagsFrontId ?? []).map(frontId => ({ entityType: 'tag', frontId }))
+  })
 }
 
 /**
  * Stratégie REST pour les tags
  */
-export class TagRestApiStrategy implements PersistenceStrategy<TagType> {
-  async persistCreate(entity: PersistableEntity<TagType>): Promise<PersistableEntity<TagType>> {
-    const tag = entity.data
-    const persistedTag = await createTag({
+export function createTagRestStrategy(): PersistenceStrategy<TagType> {
+  return createRestStrategy<TagType>({
+    basePath: '/tags',
+    toCreatePayload: tag => ({
       frontId: tag.frontId,
       title: tag.title,
       color: tag.color
-    })
-
-    return {
-      data: persistedTag,
-      metadata: {
-        ...entity.metadata,
-        backendId: persistedTag._id,
-        syncStatus: 'synced',
-        lastSyncAt: Date.now()
-      }
-    }
-  }
-
-  async persistUpdate(entity: PersistableEntity<TagType>): Promise<PersistableEntity<TagType>> {
-    const id = entity.metadata.backendId || entity.metadata.frontId
-    const updates = entity.data as Partial<TagType>
-
-    const updatedTag = await updateTag(id, {
+    }),
+    toUpdatePayload: updates => ({
       title: updates.title,
       color: updates.color
-    })
-
-    return {
-      data: updatedTag,
-      metadata: {
-        ...entity.metadata,
-        backendId: updatedTag._id || entity.metadata.backendId,
-        syncStatus: 'synced',
-        lastSyncAt: Date.now()
-      }
-    }
-  }
-
-  async persistDelete(id: string, entityType: string): Promise<void> {
-    await deleteTag(id)
-  }
+    }),
+    idOf: tag => tag.frontId,
+    fromResponse: (data, endpoint) => parseResponse(TagSchema, data, endpoint)
+  })
 }
-
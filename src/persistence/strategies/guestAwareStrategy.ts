@@ -0,0 +1,30 @@
+/**
+ * Stratégie aiguillant les écritures selon l'espace de travail courant
+ * Espace invité : entités enregistrées localement (IndexedDB) ; compte : entités envoyées au backend
+ * L'espace est évalué à l'exécution de chaque tâche, pas à sa mise en queue
+ */
+
+import type { PersistenceStrategy } from '@/modules/persistence/core/types'
+
+/**
+ * Crée une stratégie qui délègue à la stratégie locale tant que l'utilisateur est invité
+ *
+ * @param remote - Stratégie du compte (REST)
+ * @param guest - Stratégie de l'espace invité (LocalPersistenceStrategy)
+ * @param isGuest - Indique si l'utilisateur est invité (ex: () => authStore.isGuest)
+ */
+export function createGuestAwareStrategy<T>(
+  remote: PersistenceStrategy<T>,
+  guest: PersistenceStrategy<T>,
+  isGuest: () => boolean
+): PersistenceStrategy<T> {
+  const current = () => isGuest() ? guest : remote
+
+  return {
+    persistCreate: (entity, context) => current().persistCreate(entity, context),
+    persistUpdate: (entity, context) => current().persistUpdate(entity, context),
+    persistDelete: (id, entityType, context) => current().persistDelete(id, entityType, context),
+    // Les références entre entités ne dépendent pas de l'espace de travail
+    ...(remote.getReferences ? { getReferences: data => remote.getReferences!(data) } : {})
+  }
+}
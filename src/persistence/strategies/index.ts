@@ -1,2 +1,4 @@
-export { NoteRestApiStrategy, TagRestApiStrategy } from './RestApiStrategy'
-
+export { createRestStrategy } from './restStrategy'
+export type { RestEntity, RestStrategyOptions } from './restStrategy'
+export { createNoteRestStrategy, createTagRestStrategy } from './RestApiStrategy'
+export { createGuestAwareStrategy } from './guestAwareStrategy'
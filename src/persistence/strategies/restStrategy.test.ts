@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { VirtualClock, setClock } from '@/modules/persistence/core/clock'
+import { createMetadata } from '@/modules/persistence/core/metadata'
+import { isConflictError } from '@/modules/persistence/core/errors'
+import { createRestStrategy } from './restStrategy'
+
+const client = vi.hoisted(() => ({
+  get: vi.fn(),
+  post: vi.fn(),
+  request: vi.fn(),
+  delete: vi.fn()
+}))
+
+vi.mock('@/api/axios', () => ({
+  axiosClient: client,
+  // En-têtes exposés tels quels : les tests vérifient les options transmises
+  buildMutationHeaders: (options: unknown) => options
+}))
+
+interface Tag {
+  _id?: string
+  frontId: string
+  title: string
+  version?: number
+}
+
+const context = { idempotencyKey: 'key-1' }
+
+/**
+ * Erreur HTTP au format axios
+ */
+function httpError(status: number, data?: unknown) {
+  return { response: { status, data, headers: {} } }
+}
+
+/**
+ * Stratégie de test sur la ressource /tags
+ */
+function createTagStrategy() {
+  return createRestStrategy<Tag>({
+    basePath: '/tags',
+    toCreatePayload: tag => ({ frontId: tag.frontId, title: tag.title }),
+    toUpdatePayload: updates => ({ title: updates.title }),
+    idOf: tag => tag.frontId
+  })
+}
+
+describe('createRestStrategy', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    setClock(new VirtualClock(1_000_000))
+  })
+
+  afterEach(() => {
+    setClock()
+  })
+
+  it('creates the entity and reconciles the backend id and version', async () => {
+    client.post.mockResolvedValue({ data: { _id: 'b1', frontId: 't1', title: 'a', version: 1 } })
+
+    const persisted = await createTagStrategy().persistCreate({
+      data: { frontId: 't1', title: 'a' },
+      metadata: createMetadata('t1')
+    }, context)
+
+    expect(client.post).toHaveBeenCalledWith('/tags', { frontId: 't1', title: 'a' }, { headers: { idempotencyKey: 'key-1' } })
+    expect(persisted.metadata).toMatchObject({ backendId: 'b1', version: 1, syncStatus: 'synced', lastSyncAt: 1_000_000 })
+  })
+
+  it('recognizes a create already applied by a previous attempt', async () => {
+    client.post.mockRejectedValue(httpError(409))
+    client.get.mockResolvedValue({ data: { _id: 'b1', frontId: 't1', title: 'a', version: 1 } })
+
+    const persisted = await createTagStrategy().persistCreate({
+      data: { frontId: 't1', title: 'a' },
+      metadata: createMetadata('t1')
+    }, context)
+
+    expect(client.get).toHaveBeenCalledWith('/tags/t1')
+    expect(persisted.metadata.backendId).toBe('b1')
+  })
+
+  it('sends updates to the backend id with the known version', async () => {
+    client.request.mockResolvedValue({ data: { _id: 'b1', frontId: 't1', title: 'b', version: 3 } })
+
+    const persisted = await createTagStrategy().persistUpdate({
+      data: { title: 'b' } as Tag,
+      metadata: createMetadata('t1', { backendId: 'b1', version: 2 })
+    }, context)
+
+    expect(client.request).toHaveBeenCalledWith({
+      method: 'put',
+      url: '/tags/b1',
+      data: { title: 'b' },
+      headers: { version: 2, idempotencyKey: 'key-1' }
+    })
+    expect(persisted.metadata.version).toBe(3)
+  })
+
+  it('turns a stale write into a conflict carrying the remote version', async () => {
+    client.request.mockRejectedValue(httpError(412, { _id: 'b1', frontId: 't1', title: 'remote', version: 5 }))
+
+    const error = await createTagStrategy().persistUpdate({
+      data: { title: 'b' } as Tag,
+      metadata: createMetadata('t1', { backendId: 'b1', version: 2 })
+    }, context).catch(caught => caught)
+
+    expect(isConflictError<Tag>(error)).toBe(true)
+    expect(error.remoteVersion).toBe(5)
+    expect(error.remote.title).toBe('remote')
+  })
+
+  it('accepts a conflict whose remote version already contains the update', async () => {
+    client.request.mockRejectedValue(httpError(409, { _id: 'b1', frontId: 't1', title: 'b', version: 3 }))
+
+    const persisted = await createTagStrategy().persistUpdate({
+      data: { title: 'b' } as Tag,
+      metadata: createMetadata('t1', { backendId: 'b1', version: 2 })
+    }, context)
+
+    expect(persisted.metadata.version).toBe(3)
+  })
+
+  it('treats a delete of a missing entity as applied', async () => {
+    const strategy = createTagStrategy()
+    client.delete.mockRejectedValueOnce(httpError(404))
+    client.delete.mockRejectedValueOnce(httpError(500))
+
+    await expect(strategy.persistDelete('b1', 'tag', context)).resolves.toBeUndefined()
+    await expect(strategy.persistDelete('b1', 'tag', context)).rejects.toEqual(httpError(500))
+  })
+})
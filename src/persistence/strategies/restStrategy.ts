@@ -0,0 +1,236 @@
+/**
+ * Fabrique de stratégies de persistance REST génériques
+ * Une ressource REST (POST basePath, PUT|PATCH basePath/:id, DELETE basePath/:id, GET basePath/:id)
+ * est décrite de façon déclarative : payloads envoyés, mapping des réponses, méthode de mise à jour
+ * La fabrique gère la résolution backendId/frontId, les métadonnées, l'optimistic locking (If-Match),
+ * les clés d'idempotence et les réponses « déjà appliquées »
+ */
+
+import type {
+  PersistenceStrategy,
+  PersistableEntity,
+  PersistenceMetadata,
+  EntityReference,
+  PersistContext
+} from '@/modules/persistence/core/types'
+import { getClock } from '@/modules/persistence/core/clock'
+import { ConflictError, isConflictError } from '@/modules/persistence/core/errors'
+import { axiosClient, buildMutationHeaders } from '@/api/axios'
+
+/**
+ * Entité persistée via une ressource REST
+ */
+export interface RestEntity {
+  _id?: string
+  version?: number
+}
+
+/**
+ * Options d'une stratégie REST
+ */
+export interface RestStrategyOptions<T extends RestEntity> {
+  /**
+   * Chemin de la ressource, relatif à la baseURL d'axiosClient (ex: '/notes')
+   */
+  basePath: string
+
+  /**
+   * Corps envoyé pour une création
+   */
+  toCreatePayload: (entity: T) => unknown
+
+  /**
+   * Corps envoyé pour une mise à jour (données partielles de la tâche)
+   */
+  toUpdatePayload: (updates: Partial<T>) => unknown
+
+  /**
+   * Retourne le frontId d'une entité (utilisé pour retrouver une création déjà appliquée)
+   */
+  idOf: (entity: T) => string
+
+  /**
+   * Méthode HTTP des mises à jour (défaut: 'put')
+   */
+  method?: 'put' | 'patch'
+
+  /**
+   * Convertit (et valide) une réponse du backend en entité (défaut: réponse utilisée telle quelle)
+   * @param endpoint - Route appelée (ex: 'POST /notes'), pour le diagnostic
+   */
+  fromResponse?: (data: unknown, endpoint: string) => T
+
+  /**
+   * Optionnel : entités référencées (cf. PersistenceStrategy.getReferences)
+   */
+  getReferences?: (data: T | Partial<T>) => EntityReference[]
+}
+
+/**
+ * Statuts HTTP signalant une écriture obsolète (optimistic locking)
+ */
+const CONFLICT_STATUSES = [409, 412]
+
+/**
+ * Statuts HTTP d'une création déjà appliquée (une entité avec ce frontId existe déjà)
+ */
+const ALREADY_CREATED_STATUSES = [409]
+
+/**
+ * Statuts HTTP d'une suppression déjà appliquée (l'entité n'existe plus)
+ */
+const ALREADY_DELETED_STATUSES = [404, 410]
+
+/**
+ * Retourne le statut HTTP d'une erreur axios
+ */
+function getHttpStatus(error: unknown): number | undefined {
+  return (error as any)?.response?.status
+}
+
+/**
+ * Retourne l'identifiant à utiliser dans l'URL : _id MongoDB si connu, sinon frontId
+ * (le backend accepte les deux)
+ */
+function resolveId(metadata: Pick<PersistenceMetadata, 'frontId' | 'backendId'>): string {
+  return metadata.backendId || metadata.frontId
+}
+
+/**
+ * Indique si la version distante contient déjà les champs envoyés (mise à jour déjà appliquée)
+ */
+function containsUpdates<T extends object>(remote: T, updates: Partial<T>): boolean {
+  return Object.entries(updates).every(([key, value]) =>
+    value === undefined || JSON.stringify(value) === JSON.stringify((remote as Record<string, unknown>)[key])
+  )
+}
+
+/**
+ * Construit l'entité persistée à partir de la réponse du backend
+ */
+function toPersisted<T extends RestEntity>(entity: PersistableEntity<T>, persisted: T): PersistableEntity<T> {
+  return {
+    data: persisted,
+    metadata: {
+      ...entity.metadata,
+      backendId: persisted._id || entity.metadata.backendId,
+      version: persisted.version ?? entity.metadata.version,
+      syncStatus: 'synced',
+      lastSyncAt: getClock().now()
+    }
+  }
+}
+
+/**
+ * Crée une stratégie de persistance pour une ressource REST
+ *
+ * @example
+ * const tagStrategy = createRestStrategy<TagType>({
+ *   basePath: '/tags',
+ *   toCreatePayload: tag => ({ frontId: tag.frontId, title: tag.title, color: tag.color }),
+ *   toUpdatePayload: updates => ({ title: updates.title, color: updates.color }),
+ *   idOf: tag => tag.frontId
+ * })
+ */
+export function createRestStrategy<T extends RestEntity>(options: RestStrategyOptions<T>): PersistenceStrategy<T> {
+  const { basePath, toCreatePayload, toUpdatePayload, idOf, getReferences } = options
+  const method = options.method ?? 'put'
+  const fromResponse = options.fromResponse ?? ((data: unknown) => data as T)
+
+  /**
+   * Récupère la version distante d'une entité
+   */
+  const fetchRemote = async (id: string): Promise<T> => {
+    const response = await axiosClient.get<unknown>(`${basePath}/${id}`)
+    return fromResponse(response.data, `GET ${basePath}/:id`)
+  }
+
+  /**
+   * Convertit une erreur HTTP 409/412 en ConflictError portant la version distante
+   * La version distante est lue dans le corps de la réponse, ou récupérée depuis le backend
+   */
+  const toConflictError = async (error: unknown, id: string): Promise<unknown> => {
+    const response = (error as any)?.response
+    if (!CONFLICT_STATUSES.includes(response?.status)) {
+      return error
+    }
+
+    const remote = response.data && typeof response.data === 'object'
+      ? fromResponse(response.data, `${method.toUpperCase()} ${basePath}/:id`)
+      : await fetchRemote(id)
+    return new ConflictError<T>(remote, remote.version)
+  }
+
+  /**
+   * Reconnaît une création déjà appliquée lors d'une tentative précédente (ex: timeout après succès)
+   * @returns L'entité existante (qui porte le _id à réconcilier), ou null si la création n'a pas eu lieu
+   */
+  const findAlreadyCreated = async (error: unknown, entity: T): Promise<T | null> => {
+    if (!ALREADY_CREATED_STATUSES.includes(getHttpStatus(error) ?? 0)) {
+      return null
+    }
+    try {
+      return await fetchRemote(idOf(entity))
+    } catch {
+      return null
+    }
+  }
+
+  return {
+    async persistCreate(entity: PersistableEntity<T>, context?: PersistContext): Promise<PersistableEntity<T>> {
+      let persisted: T
+      try {
+        const response = await axiosClient.post<unknown>(basePath, toCreatePayload(entity.data), {
+          headers: buildMutationHeaders({ idempotencyKey: context?.idempotencyKey })
+        })
+        persisted = fromResponse(response.data, `POST ${basePath}`)
+      } catch (error) {
+        const existing = await findAlreadyCreated(error, entity.data)
+        if (!existing) throw error
+        persisted = existing
+      }
+      return toPersisted(entity, persisted)
+    },
+
+    async persistUpdate(entity: PersistableEntity<T>, context?: PersistContext): Promise<PersistableEntity<T>> {
+      const id = resolveId(entity.metadata)
+      const updates = entity.data as Partial<T>
+
+      let persisted: T
+      try {
+        const response = await axiosClient.request<unknown>({
+          method,
+          url: `${basePath}/${id}`,
+          data: toUpdatePayload(updates),
+          headers: buildMutationHeaders({
+            version: entity.metadata.version,
+            idempotencyKey: context?.idempotencyKey
+          })
+        })
+        persisted = fromResponse(response.data, `${method.toUpperCase()} ${basePath}/:id`)
+      } catch (error) {
+        // Un conflit dont la version distante contient déjà les modifications envoyées
+        // est une mise à jour déjà appliquée
+        const converted = await toConflictError(error, id)
+        if (!isConflictError<T>(converted) || !converted.remote || !containsUpdates(converted.remote, updates)) {
+          throw converted
+        }
+        persisted = converted.remote
+      }
+      return toPersisted(entity, persisted)
+    },
+
+    async persistDelete(id: string, _entityType: string, context?: PersistContext): Promise<void> {
+      try {
+        await axiosClient.delete(`${basePath}/${id}`, {
+          headers: buildMutationHeaders({ idempotencyKey: context?.idempotencyKey })
+        })
+      } catch (error) {
+        // Suppression déjà appliquée lors d'une tentative précédente
+        if (!ALREADY_DELETED_STATUSES.includes(getHttpStatus(error) ?? 0)) throw error
+      }
+    },
+
+    ...(getReferences ? { getReferences } : {})
+  }
+}
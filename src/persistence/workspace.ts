@@ -0,0 +1,17 @@
+/**
+ * Espace de travail local : notes et tags du store, et état de persistance qui les accompagne
+ * Il appartient à un seul propriétaire (un compte ou l'invité) et est vidé quand celui-ci change
+ */
+
+import { resetPersistence } from '@/modules/persistence'
+import { useNotesStore } from '@/stores/notes'
+
+/**
+ * Vide l'espace de travail local : store des notes et tags, queue de persistance, dead-letters,
+ * état de synchronisation, historique d'annulation et curseurs du pull sync
+ * Les modifications en attente sont abandonnées sans être envoyées
+ */
+export function clearWorkspace(): void {
+  useNotesStore().reset()
+  resetPersistence()
+}
@@ -5,6 +5,7 @@ import Note from "../views/Note.vue";
 import Login from "../views/Login.vue";
 import Register from "../views/Register.vue";
 import { useAuthStore } from '@/stores/auth';
+import { isLocalMode } from '@/persistence/mode';
 
 const routes = [
   {
@@ -52,10 +53,21 @@ const router = createRouter({
 router.beforeEach(async (to, from, next) => {
   const authStore = useAuthStore();
 
+  // En mode local (sans backend), aucune route ne nécessite d'authentification
+  // et les pages de connexion / inscription n'ont pas d'objet
+  if (isLocalMode) {
+    if (to.path === '/login' || to.path === '/register') {
+      next('/');
+    } else {
+      next();
+    }
+    return;
+  }
+
   // Si la route nécessite une authentification
   if (to.meta.requiresAuth) {
-    // Vérifier si l'utilisateur est connecté
-    if (!authStore.isAuthenticated) {
+    // Vérifier si l'utilisateur est connecté (ou utilise l'application en invité)
+    if (!authStore.isAuthenticated && !authStore.isGuest) {
       // Si non connecté, rediriger vers la page de login
       // - query.redirect : Sauvegarde l'URL de destination pour y rediriger après login
       next({
@@ -2,6 +2,10 @@ import { defineStore } from 'pinia';
 import { ref, computed } from 'vue';
 import type { UserType } from '@/types/UserType';
 import { login, register, getCurrentUser } from '@/api/authApi';
+import { createVersionedSerializer } from '@/modules/persistence/core/migrations';
+import { usePullSyncStore } from '@/modules/persistence';
+import { readGuestWorkspace, migrateGuestWorkspace, clearGuestDatabase } from '@/persistence/guestWorkspace';
+import { clearWorkspace } from '@/persistence/workspace';
 
 // ─── Store Pinia pour gérer l'authentification ────────────────────────────────────
 // - Stocke le token JWT et les informations de l'utilisateur connecté
@@ -23,18 +27,40 @@ export const useAuthStore = defineStore('auth', () => {
   // État réactif : message d'erreur (pour afficher les erreurs)
   const error = ref<string | null>(null);
 
+  // État réactif : session invitée (application utilisée sans compte)
+  // - Les notes et tags restent sur cet appareil jusqu'à l'inscription
+  const guest = ref(false);
+
+  // État réactif : compte propriétaire de l'espace de travail local (notes, tags, queue de persistance)
+  // - Conservé après une session expirée : les modifications en attente repartent à la reconnexion
+  // - Un autre compte qui se connecte repart d'un espace vide
+  const workspaceUserId = ref<string | null>(null);
+
   // Computed : vérifie si l'utilisateur est connecté
   // - Retourne true si token existe (et donc utilisateur connecté)
   const isAuthenticated = computed(() => !!token.value);
 
+  // Computed : vérifie si l'utilisateur utilise l'application en invité
+  // - Une connexion met fin à la session invitée
+  const isGuest = computed(() => guest.value && !isAuthenticated.value);
+
   // ─── Fonction : Connecter l'utilisateur ───────────────────────────────────────────
   // - Sauvegarde le token dans le store et localStorage
   // - Sauvegarde les infos utilisateur dans le store
   // - Appelée après login ou register réussis
+  // - L'espace de travail d'un autre compte est vidé (jamais envoyé à ce compte)
+  // - Les curseurs du pull sync sont réinitialisés : le compte connecté repart d'une synchronisation complète
   function setAuth(newToken: string, userData: UserType) {
+    const userId = userData._id ?? null;
+    if (workspaceUserId.value && workspaceUserId.value !== userId) {
+      clearWorkspace();
+    }
+    workspaceUserId.value = userId;
+    usePullSyncStore().resetCursors();
     token.value = newToken;
     user.value = userData;
     error.value = null;
+    guest.value = false;
     // ✅ Persister le token dans localStorage
     // - Permet de maintenir la session après rechargement de la page
     localStorage.setItem('auth_token', newToken);
@@ -43,23 +69,59 @@ export const useAuthStore = defineStore('auth', () => {
   // ─── Fonction : Déconnecter l'utilisateur ────────────────────────────────────────
   // - Supprime le token et les infos utilisateur
   // - Nettoie localStorage
+  // - Vide l'espace de travail local (notes, tags, modifications en attente, curseurs du pull sync)
   function logout() {
+    expireSession();
+    clearWorkspace();
+    workspaceUserId.value = null;
+  }
+
+  // ─── Fonction : Session expirée (401) ────────────────────────────────────────────
+  // - Supprime le token et les infos utilisateur
+  // - Conserve l'espace de travail : la queue reste suspendue et reprend à la reconnexion du même compte
+  function expireSession() {
     token.value = null;
     user.value = null;
     error.value = null;
     localStorage.removeItem('auth_token');
   }
 
+  // ─── Fonction : Utiliser l'application sans compte ───────────────────────────────
+  // - Repart d'un espace de travail vide : rien du compte précédent n'est visible ni transféré
+  // - Les notes et tags sont enregistrés uniquement sur cet appareil
+  // - Ils seront transférés vers le compte connecté par loginUser ou registerUser
+  async function startGuestSession() {
+    // Base invitée d'une session précédente jamais transférée
+    await clearGuestDatabase();
+    clearWorkspace();
+    workspaceUserId.value = null;
+    guest.value = true;
+    error.value = null;
+  }
+
+  // ─── Fonction : Connecter un compte ──────────────────────────────────────────────
+  // - Depuis une session invitée, l'espace invité est lu AVANT setAuth (ses écritures en queue
+  //   restent locales jusque-là), puis transféré vers le compte juste après
+  async function authenticate(authenticateRequest: () => Promise<{ token: string; user: UserType }>) {
+    const wasGuest = isGuest.value;
+    const response = await authenticateRequest();
+    const guestWorkspace = wasGuest ? await readGuestWorkspace() : null;
+    setAuth(response.token, response.user);
+    if (guestWorkspace) {
+      await migrateGuestWorkspace(guestWorkspace);
+    }
+  }
+
   // ─── Fonction : Connexion (Login) ────────────────────────────────────────────────
   // - Appelle l'API login avec email et password
   // - Si succès, sauvegarde le token et les infos utilisateur
+  // - Depuis une session invitée, les notes et tags de l'invité sont ajoutés au compte
   // - Gère les erreurs et les affiche
   async function loginUser(email: string, password: string): Promise<boolean> {
     isLoading.value = true;
     error.value = null;
     try {
-      const response = await login({ email, password });
-      setAuth(response.token, response.user);
+      await authenticate(() => login({ email, password }));
       return true;
     } catch (err: any) {
       error.value = err.message || 'Erreur lors de la connexion';
@@ -72,13 +134,13 @@ export const useAuthStore = defineStore('auth', () => {
   // ─── Fonction : Inscription (Register) ───────────────────────────────────────────
   // - Appelle l'API register avec nom, email et password
   // - Si succès, sauvegarde le token et les infos utilisateur
+  // - Depuis une session invitée, les notes et tags de l'invité sont envoyés au nouveau compte
   // - Gère les erreurs et les affiche
   async function registerUser(nom: string, email: string, password: string): Promise<boolean> {
     isLoading.value = true;
     error.value = null;
     try {
-      const response = await register({ nom, email, password });
-      setAuth(response.token, response.user);
+      await authenticate(() => register({ nom, email, password }));
       return true;
     } catch (err: any) {
       error.value = err.message || 'Erreur lors de l\'inscription';
@@ -118,8 +180,9 @@ export const useAuthStore = defineStore('auth', () => {
           // Ne pas déconnecter, juste ne pas mettre à jour user
         } else if (err.response?.status === 401) {
           // Token invalide/expiré : déconnecter
+          // L'espace de travail est conservé pour la reconnexion
           console.error('Token invalide ou expiré, déconnexion...', err);
-          logout();
+          expireSession();
         } else {
           // Autre erreur (500, 404, etc.) : garder le token
           // Ce n'est pas une erreur d'authentification
@@ -137,11 +200,16 @@ export const useAuthStore = defineStore('auth', () => {
     user,
     isLoading,
     error,
+    guest,
+    workspaceUserId,
     // Computed
     isAuthenticated,
+    isGuest,
     // Méthodes
     setAuth,
     logout,
+    expireSession,
+    startGuestSession,
     loginUser,
     registerUser,
     initAuth,
@@ -151,8 +219,11 @@ export const useAuthStore = defineStore('auth', () => {
   persist: {
     key: 'auth',
     storage: localStorage,
-    // Ne persister que le token (user sera récupéré depuis l'API si nécessaire)
-    pick: ['token'],
+    // Ne persister que le token, la session invitée et le propriétaire de l'espace de travail
+    // (user sera récupéré depuis l'API si nécessaire)
+    pick: ['token', 'guest', 'workspaceUserId'],
+    // Enveloppe versionnée : migrations enregistrées sous la clé 'auth' (registerMigration)
+    serializer: createVersionedSerializer('auth'),
   },
 });
 
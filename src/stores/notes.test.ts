@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createApp } from 'vue'
+import { createPinia, setActivePinia } from 'pinia'
+import piniaPluginPersistedstate from 'pinia-plugin-persistedstate'
+import { useNotesStore } from './notes'
+
+const note = { frontId: 'n1', contentMd: 'a', createdAt: '01/01/2026', tagsFrontId: ['t1'] }
+const tag = { frontId: 't1', title: 'idées', color: '#fff' }
+
+/**
+ * Crée le store en le réhydratant depuis l'état persisté donné
+ */
+function rehydrate(state: unknown) {
+  localStorage.setItem('notes', JSON.stringify({ version: 1, data: state }))
+  const pinia = createPinia()
+  pinia.use(piniaPluginPersistedstate)
+  // Les plugins ne s'appliquent qu'une fois Pinia installé dans une application
+  createApp({}).use(pinia)
+  setActivePinia(pinia)
+  return useNotesStore()
+}
+
+describe('notes store rehydration', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('restores valid notes and tags', () => {
+    const store = rehydrate({ notes: [note], tags: [tag] })
+
+    expect(store.notes).toEqual([note])
+    expect(store.tags).toEqual([tag])
+  })
+
+  it('sets aside only the invalid entities', () => {
+    const invalidNote = { frontId: 'n2', contentMd: 42 }
+    const invalidTag = { frontId: 't2' }
+
+    const store = rehydrate({ notes: [invalidNote, note], tags: [tag, invalidTag] })
+
+    expect(store.notes).toEqual([note])
+    expect(store.tags).toEqual([tag])
+    expect(JSON.parse(localStorage.getItem('notes:rejected')!)).toEqual([invalidNote, invalidTag])
+    expect(localStorage.getItem('notes:unmigrated')).toBeNull()
+  })
+
+  it('backs up a state that is not a list of entities', () => {
+    const store = rehydrate({ notes: 'corrupted' })
+
+    expect(store.notes).toEqual([])
+    expect(localStorage.getItem('notes:unmigrated')).not.toBeNull()
+  })
+})
@@ -1,12 +1,28 @@
 import { defineStore } from 'pinia'
-import {computed, ref} from 'vue'
+import {computed, ref, toRaw} from 'vue'
 import { merge } from 'lodash-es'
-import type {NoteType} from "@/types/NoteType.ts";
-import type {TagType} from "@/types/TagType.ts";
+import {NoteSchema, type NoteType} from "@/types/NoteType.ts";
+import {TagSchema, type TagType} from "@/types/TagType.ts";
+import { z } from "zod";
 import {generateRandomUuid} from "vue-lib-exo-corrected";
 import { getPersistenceEventBus } from "@/modules/persistence/usePersistence.ts";
-import type { SyncAdapter } from "@/modules/persistence/sync/syncAdapters";
+import type { SyncAdapter, EntityConflict } from "@/modules/persistence/sync/syncAdapters";
+import type { ConflictResolution } from "@/modules/persistence/core/types";
 import { ENTITY_EVENTS } from "@/modules/persistence/core/events";
+import { createVersionedSerializer, type RejectEntry } from "@/modules/persistence/core/migrations";
+
+// Valide une liste persistée (clé de pick) entité par entité, à la réhydratation depuis localStorage :
+// une entité invalide est écartée (signalée et mise de côté), les autres sont restaurées
+function parsePersistedEntities<T>(schema: z.ZodType<T>, entities: unknown, reject: RejectEntry): T[] {
+    if (entities === undefined) return []
+    if (!Array.isArray(entities)) throw new Error('Expected an array of entities')
+    return entities.flatMap(entity => {
+        const result = schema.safeParse(entity)
+        if (result.success) return [result.data]
+        reject(entity, result.error.message)
+        return []
+    })
+}
 
 export const useNotesStore = defineStore('notes',
   () => {
@@ -15,6 +31,9 @@ export const useNotesStore = defineStore('notes',
     // État pour gérer la sélection des tags (par nom de tag)
     // Utilisation d'un tableau au lieu d'un Set pour la réactivité Vue
     const selectedTagNames = ref<string[]>([])
+    // Conflits de synchronisation en attente du choix de l'utilisateur (non persistés :
+    // ils sont ré-émis par le module de persistance au démarrage)
+    const conflicts = ref<EntityConflict<NoteType | TagType>[]>([])
 
     // Event bus pour la persistance
     const eventBus = getPersistenceEventBus()
@@ -70,9 +89,11 @@ export const useNotesStore = defineStore('notes',
     function editNote(id: string, updatedNote: Partial<NoteType>) {
       const index = notes.value.findIndex((note: any) => note.frontId === id)
       if (index !== -1) {
+        const previous = toRaw(notes.value[index])
         notes.value[index] = merge({}, notes.value[index], updatedNote)
-        // Émettre un événement pour déclencher la persistance
-        eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'note', id, updates: updatedNote })
+        // Émettre un événement pour déclencher la persistance (avec la version connue et
+        // la note avant modification, restaurée si la persistance échoue définitivement)
+        eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'note', id, updates: updatedNote, version: previous.version, previous })
       }
     }
 
@@ -84,11 +105,51 @@ export const useNotesStore = defineStore('notes',
     function syncNote(id: string, updates: Partial<NoteType>) {
       const index = notes.value.findIndex((note: any) => note.frontId === id)
       if (index !== -1) {
-        notes.value[index] = merge({}, notes.value[index], updates)
+        // Remplacement champ par champ (pas de merge profond) : les données du backend font foi,
+        // y compris pour les tableaux comme tagsFrontId
+        notes.value[index] = { ...notes.value[index], ...updates }
         // Pas d'émission d'événement pour éviter les boucles de persistance
       }
     }
 
+    /**
+     * Applique une note reçue du backend (pull sync) sans émettre d'événement
+     * Crée la note si elle n'existe pas encore localement
+     * @internal
+     */
+    function upsertRemoteNote(note: NoteType) {
+      if (notes.value.some((item: NoteType) => item.frontId === note.frontId)) {
+        syncNote(note.frontId, note)
+      } else {
+        notes.value.push(note)
+      }
+    }
+
+    /**
+     * Retire une note supprimée côté backend (pull sync) sans émettre d'événement
+     * @internal
+     */
+    function removeRemoteNote(id: string) {
+      const index = notes.value.findIndex((note: NoteType) => note.frontId === id)
+      if (index !== -1) {
+        notes.value.splice(index, 1)
+      }
+    }
+
+    /**
+     * Remplace une note sans émettre d'événement (historique d'annulation)
+     * Le _id et la version connus du backend sont conservés ; sans note, elle est retirée
+     * @internal
+     */
+    function restoreNote(id: string, note: NoteType | undefined) {
+      if (!note) {
+        removeRemoteNote(id)
+        return
+      }
+      const current = notes.value.find((item: NoteType) => item.frontId === id)
+      upsertRemoteNote(current ? { ...note, _id: current._id ?? note._id, version: current.version ?? note.version } : note)
+    }
+
     /**
      * Synchronise un tag avec les données du backend sans émettre d'événement
      * Utilisé pour mettre à jour le _id MongoDB après persistance
@@ -97,17 +158,55 @@ export const useNotesStore = defineStore('notes',
     function syncTag(id: string, updates: Partial<TagType>) {
       const index = tags.value.findIndex((tag: TagType) => tag.frontId === id)
       if (index !== -1) {
-        tags.value[index] = merge({}, tags.value[index], updates)
+        tags.value[index] = { ...tags.value[index], ...updates }
         // Pas d'émission d'événement pour éviter les boucles de persistance
       }
     }
 
+    /**
+     * Applique un tag reçu du backend (pull sync) sans émettre d'événement
+     * Crée le tag s'il n'existe pas encore localement
+     * @internal
+     */
+    function upsertRemoteTag(tag: TagType) {
+      if (tags.value.some((item: TagType) => item.frontId === tag.frontId)) {
+        syncTag(tag.frontId, tag)
+      } else {
+        tags.value.push(tag)
+      }
+    }
+
+    /**
+     * Retire un tag supprimé côté backend (pull sync) sans émettre d'événement
+     * @internal
+     */
+    function removeRemoteTag(id: string) {
+      const index = tags.value.findIndex((tag: TagType) => tag.frontId === id)
+      if (index !== -1) {
+        tags.value.splice(index, 1)
+      }
+    }
+
+    /**
+     * Remplace un tag sans émettre d'événement (historique d'annulation)
+     * Le _id et la version connus du backend sont conservés ; sans tag, il est retiré
+     * @internal
+     */
+    function restoreTag(id: string, tag: TagType | undefined) {
+      if (!tag) {
+        removeRemoteTag(id)
+        return
+      }
+      const current = tags.value.find((item: TagType) => item.frontId === id)
+      upsertRemoteTag(current ? { ...tag, _id: current._id ?? tag._id, version: current.version ?? tag.version } : tag)
+    }
+
     function deleteNote(id: string) {
       const index = notes.value.findIndex((note: any) => note.frontId === id)
       if (index !== -1) {
-        notes.value.splice(index, 1)
+        const [previous] = notes.value.splice(index, 1)
         // Émettre un événement pour déclencher la persistance
-        eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'note', id })
+        eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'note', id, previous: toRaw(previous) })
       }
     }
 
@@ -129,19 +228,85 @@ export const useNotesStore = defineStore('notes',
     function editTag(id: string, updatedTag: Partial<TagType>) {
       const index = tags.value.findIndex((tag: TagType) => tag.frontId === id)
       if (index !== -1) {
+        const previous = toRaw(tags.value[index])
         tags.value[index] = merge({}, tags.value[index], updatedTag)
-        // Émettre un événement pour déclencher la persistance
-        eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id, updates: updatedTag })
+        // Émettre un événement pour déclencher la persistance (avec la version connue et
+        // le tag avant modification, restauré si la persistance échoue définitivement)
+        eventBus.emit(ENTITY_EVENTS.UPDATED, { entityType: 'tag', id, updates: updatedTag, version: previous.version, previous })
       }
     }
 
+    /**
+     * Supprime un tag et le retire de toutes les notes qui le référencent
+     * Une seule transaction : si une des modifications échoue définitivement, toutes sont annulées
+     */
     function deleteTag(id: string) {
       const index = tags.value.findIndex((tag: TagType) => tag.frontId === id)
-      if (index !== -1) {
-        tags.value.splice(index, 1)
+      if (index === -1) return
+
+      eventBus.transaction(() => {
+        notes.value.forEach((note: NoteType, noteIndex: number) => {
+          if (!note.tagsFrontId.includes(id)) return
+          const previous = toRaw(note)
+          const tagsFrontId = note.tagsFrontId.filter(tagFrontId => tagFrontId !== id)
+          // Remplacement direct (un merge profond fusionnerait les tableaux index par index)
+          notes.value[noteIndex] = { ...previous, tagsFrontId }
+          eventBus.emit(ENTITY_EVENTS.UPDATED, {
+            entityType: 'note',
+            id: note.frontId,
+            updates: { tagsFrontId },
+            version: previous.version,
+            previous
+          })
+        })
+
+        const [previous] = tags.value.splice(index, 1)
         // Émettre un événement pour déclencher la persistance
-        eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'tag', id })
-      }
+        eventBus.emit(ENTITY_EVENTS.DELETED, { entityType: 'tag', id, previous: toRaw(previous) })
+      })
+    }
+
+    /**
+     * Remplace le contenu du store par les entités données, sous de nouveaux frontId
+     * (transfert de l'espace invité vers un compte)
+     * Les références des notes vers leurs tags sont remappées ; les _id et versions attribués localement sont abandonnés
+     * Seules les créations sont mises en queue (tags avant les notes, qui en dépendent) :
+     * les anciennes entités n'ont jamais existé côté backend
+     * @returns Correspondance ancien frontId → nouveau frontId
+     */
+    function importWorkspace(sourceNotes: NoteType[], sourceTags: TagType[]): Map<string, string> {
+      const tagFrontIds = new Map(sourceTags.map(tag => [tag.frontId, generateRandomUuid()]))
+      const noteFrontIds = new Map(sourceNotes.map(note => [note.frontId, generateRandomUuid()]))
+
+      const newTags: TagType[] = sourceTags.map(({ _id, version, ...tag }) => ({
+        ...tag,
+        frontId: tagFrontIds.get(tag.frontId)!
+      }))
+      const newNotes: NoteType[] = sourceNotes.map(({ _id, version, ...note }) => ({
+        ...note,
+        frontId: noteFrontIds.get(note.frontId)!,
+        // Une référence vers un tag inconnu est abandonnée
+        tagsFrontId: note.tagsFrontId
+          .filter(tagFrontId => tagFrontIds.has(tagFrontId))
+          .map(tagFrontId => tagFrontIds.get(tagFrontId)!)
+      }))
+
+      notes.value = newNotes
+      tags.value = newTags
+      newTags.forEach(tag => eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'tag', data: tag }))
+      newNotes.forEach(note => eventBus.emit(ENTITY_EVENTS.CREATED, { entityType: 'note', data: note }))
+
+      return new Map([...tagFrontIds, ...noteFrontIds])
+    }
+
+    /**
+     * Vide le store sans émettre d'événements (changement de propriétaire de l'espace de travail)
+     */
+    function reset() {
+      notes.value = []
+      tags.value = []
+      selectedTagNames.value = []
+      conflicts.value = []
     }
 
     // Méthodes pour gérer la sélection des tags
@@ -162,6 +327,29 @@ export const useNotesStore = defineStore('notes',
       selectedTagNames.value.length = 0
     }
 
+    // Méthodes pour gérer les conflits de synchronisation
+    function addConflict(conflict: EntityConflict<NoteType | TagType>) {
+      // Un seul conflit par tâche (il peut être ré-émis au démarrage)
+      conflicts.value = conflicts.value.filter(c => c.taskId !== conflict.taskId)
+      conflicts.value.push(conflict)
+    }
+
+    /**
+     * Résout un conflit selon le choix de l'utilisateur
+     * - 'local' : garder la version locale (renvoyée au backend)
+     * - 'remote' : garder la version du serveur (appliquée au store)
+     */
+    function resolveConflict(taskId: string, resolution: ConflictResolution) {
+      const conflict = conflicts.value.find(c => c.taskId === taskId)
+      if (!conflict) return
+      conflicts.value = conflicts.value.filter(c => c.taskId !== taskId)
+      eventBus.emit(ENTITY_EVENTS.RESOLVE_CONFLICT, {
+        entityType: conflict.entityType,
+        taskId,
+        resolution
+      })
+    }
+
     /**
      * Adapter de synchronisation pour les notes
      * Exposé pour être enregistré dans usePersistence
@@ -173,18 +361,36 @@ export const useNotesStore = defineStore('notes',
         if (original.frontId && persisted._id && !original._id) {
           syncNote(original.frontId, {
             _id: persisted._id,
+            version: persisted.version,
           })
         } else if (persisted._id) {
           // Mise à jour d'une note existante
           syncNote(persisted.frontId, {
             _id: persisted._id,
+            version: persisted.version,
           })
         }
       },
       onError: (error, entity) => {
         console.warn(`Erreur de persistance pour note:`, entity.frontId, error)
         // Ici, on pourrait ajouter une notification à l'utilisateur
-      }
+      },
+      onConflict: (conflict) => addConflict(conflict),
+      applyResolved: (resolved) => syncNote(resolved.frontId, resolved),
+      // Échec définitif : retirer la note créée, ou restaurer la note avant modification/suppression
+      rollback: ({ operation, frontId, previous }) => {
+        if (operation === 'create') {
+          removeRemoteNote(frontId)
+        } else if (previous) {
+          upsertRemoteNote(previous)
+        }
+      },
+      // Historique d'annulation (undo/redo)
+      find: (frontId) => {
+        const note = notes.value.find((item: NoteType) => item.frontId === frontId)
+        return note && toRaw(note)
+      },
+      restore: restoreNote
     }
 
     /**
@@ -197,19 +403,37 @@ export const useNotesStore = defineStore('notes',
         // Si le tag a été créé et qu'on a maintenant un _id du backend
         if (original.frontId && persisted._id && !original._id) {
           syncTag(original.frontId, {
-            _id: persisted._id
+            _id: persisted._id,
+            version: persisted.version
           })
         } else if (persisted._id) {
           // Mise à jour d'un tag existant
           syncTag(persisted.frontId, {
-            _id: persisted._id
+            _id: persisted._id,
+            version: persisted.version
           })
         }
       },
       onError: (error, entity) => {
         console.warn(`Erreur de persistance pour tag:`, entity.frontId, error)
         // Ici, on pourrait ajouter une notification à l'utilisateur
-      }
+      },
+      onConflict: (conflict) => addConflict(conflict),
+      applyResolved: (resolved) => syncTag(resolved.frontId, resolved),
+      // Échec définitif : retirer le tag créé, ou restaurer le tag avant modification/suppression
+      rollback: ({ operation, frontId, previous }) => {
+        if (operation === 'create') {
+          removeRemoteTag(frontId)
+        } else if (previous) {
+          upsertRemoteTag(previous)
+        }
+      },
+      // Historique d'annulation (undo/redo)
+      find: (frontId) => {
+        const tag = tags.value.find((item: TagType) => item.frontId === frontId)
+        return tag && toRaw(tag)
+      },
+      restore: restoreTag
     }
 
     return {
@@ -217,6 +441,7 @@ export const useNotesStore = defineStore('notes',
       tags,
       selectedTagNames,
       selectedTagIds,
+      conflicts,
       filteredNotes,
       getNoteById,
       getTagById,
@@ -224,14 +449,21 @@ export const useNotesStore = defineStore('notes',
       setAllNotes,
       editNote,
       syncNote,
+      upsertRemoteNote,
+      removeRemoteNote,
       deleteNote,
       setAllTags,
       addTag,
       editTag,
       syncTag,
+      upsertRemoteTag,
+      removeRemoteTag,
       deleteTag,
+      importWorkspace,
+      reset,
       setTagSelected,
       clearSelectedTags,
+      resolveConflict,
       // Exposer les adapters de synchronisation pour usePersistence
       noteSyncAdapter,
       tagSyncAdapter
@@ -241,6 +473,14 @@ export const useNotesStore = defineStore('notes',
       key: 'notes', // clé dans localStorage
       storage: localStorage, // facultatif, car par défaut c'est localStorage
       // Exclure selectedTagNames de la persistance car c'est un Set et on ne veut pas persister l'état de sélection
-      pick: ['notes', 'tags']
+      pick: ['notes', 'tags'],
+      // Enveloppe versionnée : migrations enregistrées sous la clé 'notes' (registerMigration)
+      // L'état restauré est validé note par note et tag par tag (schémas des notes et des tags)
+      serializer: createVersionedSerializer('notes', {
+        validate: (state, reject) => ({
+          notes: parsePersistedEntities(NoteSchema, state.notes, reject),
+          tags: parsePersistedEntities(TagSchema, state.tags, reject)
+        })
+      })
     }
   })
@@ -0,0 +1,11 @@
+// Type pour les réponses d'authentification (login/register)
+import { z } from "zod";
+import { UserSchema } from "./UserType.ts";
+
+// Schéma zod : source de vérité du type (validation des réponses API)
+export const AuthResponseSchema = z.object({
+  user: UserSchema,
+  token: z.string(), // Le token JWT
+})
+
+export type AuthResponse = z.infer<typeof AuthResponseSchema>
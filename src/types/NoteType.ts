@@ -2,14 +2,20 @@
 import {generateRandomUuid} from "vue-lib-exo-corrected";
 import {merge} from "lodash-es";
 import moment from "moment";
+import { z } from "zod";
 
-export type NoteType = {
-  frontId: string;
-  _id?: string; // Optionnel : ObjectId MongoDB (venant du backend après synchronisation)
-  contentMd: string;
-  createdAt: string;
-  tagsFrontId: string[]; // ✅ Sémantique : tagsFrontId sont TOUJOURS des frontId (jamais des _id MongoDB)
-}
+// Schéma zod : source de vérité du type (validation des réponses API et du store persisté)
+export const NoteSchema = z.object({
+  frontId: z.string(),
+  _id: z.string().optional(), // Optionnel : ObjectId MongoDB (venant du backend après synchronisation)
+  contentMd: z.string(),
+  createdAt: z.string(),
+  tagsFrontId: z.array(z.string()), // ✅ Sémantique : tagsFrontId sont TOUJOURS des frontId (jamais des _id MongoDB)
+  version: z.number().optional(), // Optionnel : version connue côté backend (optimistic locking)
+  updatedAt: z.string().optional(), // Optionnel : date de dernière modification côté backend (curseur du pull sync)
+})
+
+export type NoteType = z.infer<typeof NoteSchema>
 
 export function initNote(noteCtr: Omit<NoteType, 'frontId' | 'createdAt'>): NoteType {
   // ✅ Sécurité : garantir que contentMd est toujours une string
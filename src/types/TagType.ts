@@ -1,8 +1,14 @@
 // Type pour les tags
-export type TagType = {
-  frontId: string;
-  _id?: string; // Optionnel : ObjectId MongoDB (venant du backend après synchronisation)
-  title: string;
-  color: string;
-}
+import { z } from "zod";
 
+// Schéma zod : source de vérité du type (validation des réponses API et du store persisté)
+export const TagSchema = z.object({
+  frontId: z.string(),
+  _id: z.string().optional(), // Optionnel : ObjectId MongoDB (venant du backend après synchronisation)
+  title: z.string(),
+  color: z.string(),
+  version: z.number().optional(), // Optionnel : version connue côté backend (optimistic locking)
+  updatedAt: z.string().optional(), // Optionnel : date de dernière modification côté backend (curseur du pull sync)
+})
+
+export type TagType = z.infer<typeof TagSchema>
@@ -1,10 +1,13 @@
 // Type pour les utilisateurs
-export type UserType = {
-  _id?: string; // ObjectId MongoDB (venant du backend)
-  nom: string;
-  email: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
+import { z } from "zod";
 
+// Schéma zod : source de vérité du type (validation des réponses API)
+export const UserSchema = z.object({
+  _id: z.string().optional(), // ObjectId MongoDB (venant du backend)
+  nom: z.string(),
+  email: z.string(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+})
 
+export type UserType = z.infer<typeof UserSchema>
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import vue from '@vitejs/plugin-vue'
 import path from 'path'
@@ -32,6 +33,11 @@ export default defineConfig(({mode}) => {
           ` // it's only to get $scss variables like $spacing etc, not to apply components style, we do it in main.ts importing vue-lib-exo-corrected/style.css !
         }
       },
+    },
+    test: {
+      // Environnement navigateur simulé : les stores persistés lisent localStorage
+      environment: 'happy-dom',
+      include: ['src/**/*.test.ts']
     }
   }
 })